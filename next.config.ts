@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Broker exports uploaded to the data importers run to hundreds of MB
+      bodySizeLimit: "512mb",
+    },
+  },
 };
 
 export default nextConfig;
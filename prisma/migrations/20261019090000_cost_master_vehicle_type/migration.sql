@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "CostMaster" ADD COLUMN "vehicleType" TEXT;
+
+-- DropIndex
+DROP INDEX "CostMaster_item_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CostMaster_item_vehicleType_key" ON "CostMaster"("item", "vehicleType");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "VehicleType" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "tonnage" REAL NOT NULL,
+    "payloadKg" REAL NOT NULL,
+    "fuelEfficiency" REAL NOT NULL,
+    "bodyType" TEXT NOT NULL,
+    "tollClass" INTEGER NOT NULL,
+    "fixedCostPerTrip" REAL NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VehicleType_name_key" ON "VehicleType"("name");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "SurchargeCalendar" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "startDate" TEXT,
+    "endDate" TEXT,
+    "daysOfWeek" TEXT,
+    "startTime" TEXT,
+    "endTime" TEXT,
+    "rate" REAL NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "SurchargeCalendar_kind_idx" ON "SurchargeCalendar"("kind");
+
+-- CreateIndex
+CREATE INDEX "SurchargeCalendar_startDate_endDate_idx" ON "SurchargeCalendar"("startDate", "endDate");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "FreightClass" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT NOT NULL,
+    "surchargeRate" REAL NOT NULL,
+    "requiredBodyType" TEXT,
+    "hazmatUnClass" TEXT,
+    "description" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FreightClass_name_key" ON "FreightClass"("name");
+
+-- Carry the freight_risk_* CostMaster rates over to the new table
+INSERT INTO "FreightClass" ("name", "aliases", "surchargeRate", "requiredBodyType", "hazmatUnClass", "description", "updatedAt") VALUES
+    ('General', '일반,일반화물,general cargo', 0, NULL, NULL, 'No special handling', CURRENT_TIMESTAMP),
+    ('Fragile', '파손주의,취급주의,유리,도자기,종이,전자제품,paper,glass,ceramic,electronics', COALESCE((SELECT "value" FROM "CostMaster" WHERE "item" = 'freight_risk_fragile' AND "vehicleType" IS NULL), 0.12), NULL, NULL, 'Fragile goods (paper, glass, electronics)', CURRENT_TIMESTAMP),
+    ('Refrigerated', '냉장,냉동,냉동식품,콜드체인,frozen,chilled,cold,cold chain', COALESCE((SELECT "value" FROM "CostMaster" WHERE "item" = 'freight_risk_refrigerated' AND "vehicleType" IS NULL), 0.15), 'Refrigerated', NULL, 'Temperature-controlled cargo', CURRENT_TIMESTAMP),
+    ('Hazardous', '위험물,화학물질,인화성,hazmat,chemical,flammable,dangerous goods', COALESCE((SELECT "value" FROM "CostMaster" WHERE "item" = 'freight_risk_hazardous' AND "vehicleType" IS NULL), 0.20), NULL, NULL, 'Dangerous goods', CURRENT_TIMESTAMP);
+
+-- The rates now live on FreightClass
+DELETE FROM "CostMaster" WHERE "item" IN ('freight_risk_fragile', 'freight_risk_refrigerated', 'freight_risk_hazardous');
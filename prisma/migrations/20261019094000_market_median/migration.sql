@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "MarketMedian" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "origin" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "vehicleType" TEXT NOT NULL,
+    "originProvince" TEXT NOT NULL,
+    "destinationProvince" TEXT NOT NULL,
+    "median" REAL NOT NULL,
+    "sampleSize" INTEGER NOT NULL,
+    "filteredSize" INTEGER NOT NULL,
+    "q1" REAL NOT NULL,
+    "q3" REAL NOT NULL,
+    "iqr" REAL NOT NULL,
+    "lowerBound" REAL NOT NULL,
+    "upperBound" REAL NOT NULL,
+    "confidenceScore" REAL NOT NULL,
+    "isFallback" BOOLEAN NOT NULL,
+    "fallbackLevel" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketMedian_origin_destination_vehicleType_isFallback_key" ON "MarketMedian"("origin", "destination", "vehicleType", "isFallback");
+
+-- CreateIndex
+CREATE INDEX "MarketMedian_vehicleType_originProvince_destinationProvince_idx" ON "MarketMedian"("vehicleType", "originProvince", "destinationProvince");
@@ -0,0 +1,4 @@
+-- AlterTable
+-- Existing rows were computed unweighted: halfLifeDays = 0 keeps them from being aged until refreshed
+ALTER TABLE "MarketMedian" ADD COLUMN "effectiveAgeDays" REAL NOT NULL DEFAULT 0;
+ALTER TABLE "MarketMedian" ADD COLUMN "halfLifeDays" REAL NOT NULL DEFAULT 0;
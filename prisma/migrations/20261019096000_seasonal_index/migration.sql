@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "SeasonalIndex" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "originProvince" TEXT NOT NULL,
+    "destinationProvince" TEXT NOT NULL,
+    "vehicleType" TEXT NOT NULL,
+    "month" INTEGER NOT NULL,
+    "ratioSum" REAL NOT NULL,
+    "sampleCount" INTEGER NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeasonalIndex_originProvince_destinationProvince_vehicleType_month_key" ON "SeasonalIndex"("originProvince", "destinationProvince", "vehicleType", "month");
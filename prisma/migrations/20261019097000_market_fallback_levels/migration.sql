@@ -0,0 +1,36 @@
+-- MarketMedian is a cache rebuilt from MarketData, so the table is recreated
+-- empty rather than migrated. After migrating, press "Rebuild Cache" on the
+-- Data page (rebuildMarketCache) to fill it again.
+
+-- DropTable
+DROP TABLE "MarketMedian";
+
+-- CreateTable
+CREATE TABLE "MarketMedian" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "origin" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "vehicleType" TEXT NOT NULL,
+    "originProvince" TEXT NOT NULL,
+    "destinationProvince" TEXT NOT NULL,
+    "median" REAL NOT NULL,
+    "sampleSize" INTEGER NOT NULL,
+    "filteredSize" INTEGER NOT NULL,
+    "q1" REAL NOT NULL,
+    "q3" REAL NOT NULL,
+    "iqr" REAL NOT NULL,
+    "lowerBound" REAL NOT NULL,
+    "upperBound" REAL NOT NULL,
+    "confidenceScore" REAL NOT NULL,
+    "effectiveAgeDays" REAL NOT NULL DEFAULT 0,
+    "halfLifeDays" REAL NOT NULL DEFAULT 0,
+    "isFallback" BOOLEAN NOT NULL,
+    "fallbackLevel" TEXT NOT NULL DEFAULT 'district',
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MarketMedian_origin_destination_vehicleType_fallbackLevel_key" ON "MarketMedian"("origin", "destination", "vehicleType", "fallbackLevel");
+
+-- CreateIndex
+CREATE INDEX "MarketMedian_vehicleType_originProvince_destinationProvince_idx" ON "MarketMedian"("vehicleType", "originProvince", "destinationProvince");
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "RouteDistance" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "origin" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "distanceKm" REAL NOT NULL,
+    "symmetric" BOOLEAN NOT NULL DEFAULT true,
+    "sourceNote" TEXT,
+    "updatedBy" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RouteDistance_origin_destination_key" ON "RouteDistance"("origin", "destination");
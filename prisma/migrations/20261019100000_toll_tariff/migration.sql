@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "TollRate" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "tollClass" INTEGER NOT NULL,
+    "baseFee" REAL NOT NULL,
+    "perKmRate" REAL NOT NULL,
+    "description" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "TollDiscountRule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "discountRate" REAL NOT NULL,
+    "tollClasses" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TollRate_tollClass_key" ON "TollRate"("tollClass");
+
+-- Expressway tariff (closed system, 4-lane)
+INSERT INTO "TollRate" ("tollClass", "baseFee", "perKmRate", "description", "updatedAt") VALUES
+    (1, 900, 44.3, '2 axles, wheel track < 279.4 mm (1t trucks)', CURRENT_TIMESTAMP),
+    (2, 900, 45.2, '2 axles, wheel track ≥ 279.4 mm (2.5–3.5t trucks)', CURRENT_TIMESTAMP),
+    (3, 900, 47.0, '3 axles (5–11t trucks)', CURRENT_TIMESTAMP),
+    (4, 900, 62.9, '4 axles (15–18t trucks)', CURRENT_TIMESTAMP),
+    (5, 900, 74.4, '5+ axles (25t trucks, trailers)', CURRENT_TIMESTAMP);
+
+-- Freight night discount: the higher of the two matching windows applies
+INSERT INTO "TollDiscountRule" ("name", "startTime", "endTime", "discountRate", "tollClasses", "updatedAt") VALUES
+    ('Freight night', '21:00', '06:00', 0.3, NULL, CURRENT_TIMESTAMP),
+    ('Freight late night', '00:00', '05:00', 0.5, NULL, CURRENT_TIMESTAMP);
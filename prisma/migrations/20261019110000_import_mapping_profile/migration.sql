@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "ImportMappingProfile" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "dataType" TEXT NOT NULL DEFAULT 'market',
+    "columns" TEXT NOT NULL,
+    "defaults" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportMappingProfile_name_key" ON "ImportMappingProfile"("name");
@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "ImportBatch" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "fileName" TEXT NOT NULL,
+    "sheetName" TEXT,
+    "fileHash" TEXT NOT NULL,
+    "rowCount" INTEGER NOT NULL,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "uploader" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_MarketData" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "date" DATETIME NOT NULL,
+    "origin" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "vehicleType" TEXT NOT NULL,
+    "freightType" TEXT NOT NULL,
+    "unitPrice" REAL NOT NULL,
+    "batchId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MarketData_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "ImportBatch" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_MarketData" ("createdAt", "date", "destination", "freightType", "id", "origin", "unitPrice", "vehicleType") SELECT "createdAt", "date", "destination", "freightType", "id", "origin", "unitPrice", "vehicleType" FROM "MarketData";
+DROP TABLE "MarketData";
+ALTER TABLE "new_MarketData" RENAME TO "MarketData";
+CREATE INDEX "MarketData_origin_destination_vehicleType_idx" ON "MarketData"("origin", "destination", "vehicleType");
+CREATE INDEX "MarketData_date_idx" ON "MarketData"("date");
+CREATE INDEX "MarketData_batchId_idx" ON "MarketData"("batchId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "ImportBatch_fileHash_idx" ON "ImportBatch"("fileHash");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "MarketData" ADD COLUMN "isOutlier" BOOLEAN NOT NULL DEFAULT false;
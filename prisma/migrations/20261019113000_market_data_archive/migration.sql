@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "MarketDataArchive" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "originalId" INTEGER NOT NULL,
+    "date" DATETIME NOT NULL,
+    "origin" TEXT NOT NULL,
+    "destination" TEXT NOT NULL,
+    "vehicleType" TEXT NOT NULL,
+    "freightType" TEXT NOT NULL,
+    "unitPrice" REAL NOT NULL,
+    "isOutlier" BOOLEAN NOT NULL DEFAULT false,
+    "batchId" INTEGER,
+    "importedAt" DATETIME NOT NULL,
+    "archivedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "MarketDataArchive_origin_destination_vehicleType_idx" ON "MarketDataArchive"("origin", "destination", "vehicleType");
+
+-- CreateIndex
+CREATE INDEX "MarketDataArchive_date_idx" ON "MarketDataArchive"("date");
+
+-- CreateIndex
+CREATE INDEX "MarketDataArchive_batchId_idx" ON "MarketDataArchive"("batchId");
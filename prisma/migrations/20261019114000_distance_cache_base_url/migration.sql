@@ -0,0 +1,12 @@
+-- Cached distances did not record which routing service answered them, so
+-- they are dropped rather than attributed to the current URL.
+DELETE FROM "DistanceCache";
+
+-- DropIndex
+DROP INDEX "DistanceCache_provider_origin_destination_key";
+
+-- AlterTable
+ALTER TABLE "DistanceCache" ADD COLUMN "baseUrl" TEXT NOT NULL DEFAULT '';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DistanceCache_provider_baseUrl_origin_destination_key" ON "DistanceCache"("provider", "baseUrl", "origin", "destination");
@@ -1,4 +1,5 @@
 import { PrismaClient } from "../src/generated/prisma";
+import { rebuildMarketMedians } from "../src/lib/market-median";
 
 const prisma = new PrismaClient();
 
@@ -9,30 +10,121 @@ async function main() {
     // Variable costs
     { category: "Variable", item: "fuel_price", value: 1650, unit: "KRW/L", description: "Diesel fuel price per liter" },
     { category: "Variable", item: "fuel_efficiency", value: 3.5, unit: "km/L", description: "Default fuel efficiency (11t truck)" },
-    { category: "Variable", item: "toll_rate", value: 120, unit: "KRW/km", description: "Average highway toll cost per km" },
+    { category: "Variable", item: "toll_rate", value: 120, unit: "KRW/km", description: "Average highway toll per km, for vehicle classes without a toll rate" },
+    { category: "Variable", item: "driver_hourly_cost", value: 20000, unit: "KRW/h", description: "Driver time cost, used for the empty return leg" },
+    { category: "Variable", item: "average_speed", value: 60, unit: "km/h", description: "Average truck speed for converting distance to driving hours" },
 
     // Fixed costs
     { category: "Fixed", item: "vehicle_fixed_cost", value: 150000, unit: "KRW/trip", description: "Depreciation + insurance + maintenance per trip" },
+    { category: "Fixed", item: "stop_handling_fee", value: 30000, unit: "KRW/stop", description: "Handling fee per intermediate stop on multi-stop routes" },
 
     // Policy
     { category: "Policy", item: "driver_profit_rate", value: 0.15, unit: "%", description: "Guaranteed driver profit (15% of operating cost)" },
     { category: "Policy", item: "company_margin_rate", value: 0.08, unit: "%", description: "Dowoo Logistics company margin (8%)" },
+    { category: "Policy", item: "market_half_life_days", value: 90, unit: "days", description: "Market data recency half-life: a price this old counts half as much in Tier 2 (0 = no weighting)" },
+    { category: "Policy", item: "market_retention_months", value: 12, unit: "months", description: "Market data retention window: older records are left out of Tier 2 and archived (0 = keep all)" },
+    { category: "Policy", item: "deadhead_charge_rate", value: 0.5, unit: "%", description: "Share of empty return leg cost (fuel, toll, time) billed to the customer" },
 
-    // Risk surcharges
-    { category: "Risk", item: "freight_risk_fragile", value: 0.12, unit: "%", description: "Surcharge for fragile goods (paper, glass, etc.)" },
-    { category: "Risk", item: "freight_risk_refrigerated", value: 0.15, unit: "%", description: "Surcharge for refrigerated/cold chain goods" },
-    { category: "Risk", item: "freight_risk_hazardous", value: 0.20, unit: "%", description: "Surcharge for hazardous materials" },
+    // Per-vehicle overrides (take precedence over the VehicleType catalog and global rows)
+    { category: "Variable", item: "fuel_efficiency", vehicleType: "25t", value: 2.3, unit: "km/L", description: "Measured fleet average for 25t trailers" },
   ];
 
   for (const item of costItems) {
-    await prisma.costMaster.upsert({
-      where: { item: item.item },
-      update: { value: item.value, unit: item.unit, description: item.description, category: item.category },
-      create: item,
+    const vehicleType = item.vehicleType ?? null;
+    const existing = await prisma.costMaster.findFirst({
+      where: { item: item.item, vehicleType },
     });
+    if (existing) {
+      await prisma.costMaster.update({
+        where: { id: existing.id },
+        data: { value: item.value, unit: item.unit, description: item.description, category: item.category },
+      });
+    } else {
+      await prisma.costMaster.create({ data: { ...item, vehicleType } });
+    }
   }
   console.log(`  ✓ ${costItems.length} cost variables seeded`);
 
+  // ── Vehicle catalog ────────────────────────────────────────
+  console.log("Seeding VehicleType catalog...");
+
+  const vehicleTypes = [
+    { name: "1t", tonnage: 1, payloadKg: 1000, fuelEfficiency: 8.0, bodyType: "Cargo", tollClass: 1, fixedCostPerTrip: 60000 },
+    { name: "2.5t", tonnage: 2.5, payloadKg: 2500, fuelEfficiency: 6.5, bodyType: "Cargo", tollClass: 2, fixedCostPerTrip: 80000 },
+    { name: "3.5t", tonnage: 3.5, payloadKg: 3500, fuelEfficiency: 5.5, bodyType: "Cargo", tollClass: 2, fixedCostPerTrip: 90000 },
+    { name: "5t", tonnage: 5, payloadKg: 5000, fuelEfficiency: 4.5, bodyType: "Wing", tollClass: 3, fixedCostPerTrip: 110000 },
+    { name: "8t", tonnage: 8, payloadKg: 8000, fuelEfficiency: 4.0, bodyType: "Wing", tollClass: 3, fixedCostPerTrip: 130000 },
+    { name: "11t", tonnage: 11, payloadKg: 11000, fuelEfficiency: 3.5, bodyType: "Wing", tollClass: 3, fixedCostPerTrip: 150000 },
+    { name: "15t", tonnage: 15, payloadKg: 15000, fuelEfficiency: 3.0, bodyType: "Wing", tollClass: 4, fixedCostPerTrip: 175000 },
+    { name: "18t", tonnage: 18, payloadKg: 18000, fuelEfficiency: 2.8, bodyType: "Wing", tollClass: 4, fixedCostPerTrip: 195000 },
+    { name: "25t", tonnage: 25, payloadKg: 25000, fuelEfficiency: 2.5, bodyType: "Cargo", tollClass: 5, fixedCostPerTrip: 230000 },
+  ];
+
+  for (const vehicle of vehicleTypes) {
+    await prisma.vehicleType.upsert({
+      where: { name: vehicle.name },
+      update: vehicle,
+      create: vehicle,
+    });
+  }
+  console.log(`  ✓ ${vehicleTypes.length} vehicle types seeded`);
+
+  // ── Freight classes ────────────────────────────────────────
+  console.log("Seeding FreightClass table...");
+
+  const freightClasses = [
+    { name: "General", aliases: "일반,일반화물,general cargo", surchargeRate: 0, requiredBodyType: null, hazmatUnClass: null, description: "No special handling" },
+    { name: "Fragile", aliases: "파손주의,취급주의,유리,도자기,종이,전자제품,paper,glass,ceramic,electronics", surchargeRate: 0.12, requiredBodyType: null, hazmatUnClass: null, description: "Fragile goods (paper, glass, electronics)" },
+    { name: "Refrigerated", aliases: "냉장,냉동,냉동식품,콜드체인,frozen,chilled,cold,cold chain", surchargeRate: 0.15, requiredBodyType: "Refrigerated", hazmatUnClass: null, description: "Temperature-controlled cargo" },
+    { name: "Hazardous", aliases: "위험물,화학물질,hazmat,chemical,dangerous goods", surchargeRate: 0.2, requiredBodyType: null, hazmatUnClass: null, description: "Dangerous goods" },
+    { name: "Flammable Liquid", aliases: "인화성액체,인화성,유류,flammable,fuel", surchargeRate: 0.25, requiredBodyType: "Tanker", hazmatUnClass: "3", description: "UN class 3 — fuels, solvents" },
+  ];
+
+  for (const freightClass of freightClasses) {
+    await prisma.freightClass.upsert({
+      where: { name: freightClass.name },
+      update: freightClass,
+      create: freightClass,
+    });
+  }
+  console.log(`  ✓ ${freightClasses.length} freight classes seeded`);
+
+  // ── Surcharge calendar ─────────────────────────────────────
+  console.log("Seeding SurchargeCalendar...");
+
+  const surchargeRules = generateSurchargeCalendar();
+  await prisma.surchargeCalendar.deleteMany();
+  await prisma.surchargeCalendar.createMany({ data: surchargeRules });
+  console.log(`  ✓ ${surchargeRules.length} surcharge rules seeded`);
+
+  // ── Toll tariff ────────────────────────────────────────────
+  console.log("Seeding TollRate...");
+
+  const tollRates = [
+    { tollClass: 1, baseFee: 900, perKmRate: 44.3, description: "2 axles, wheel track < 279.4 mm (1t trucks)" },
+    { tollClass: 2, baseFee: 900, perKmRate: 45.2, description: "2 axles, wheel track ≥ 279.4 mm (2.5–3.5t trucks)" },
+    { tollClass: 3, baseFee: 900, perKmRate: 47.0, description: "3 axles (5–11t trucks)" },
+    { tollClass: 4, baseFee: 900, perKmRate: 62.9, description: "4 axles (15–18t trucks)" },
+    { tollClass: 5, baseFee: 900, perKmRate: 74.4, description: "5+ axles (25t trucks, trailers)" },
+  ];
+
+  for (const rate of tollRates) {
+    await prisma.tollRate.upsert({
+      where: { tollClass: rate.tollClass },
+      update: rate,
+      create: rate,
+    });
+  }
+  console.log(`  ✓ ${tollRates.length} toll rates seeded`);
+
+  const tollDiscounts = [
+    { name: "Freight night", startTime: "21:00", endTime: "06:00", discountRate: 0.3, tollClasses: null },
+    { name: "Freight late night", startTime: "00:00", endTime: "05:00", discountRate: 0.5, tollClasses: null },
+  ];
+  await prisma.tollDiscountRule.deleteMany();
+  await prisma.tollDiscountRule.createMany({ data: tollDiscounts });
+  console.log(`  ✓ ${tollDiscounts.length} toll discount rules seeded`);
+
   // ── Sample MarketData ──────────────────────────────────────
   console.log("Seeding sample MarketData...");
 
@@ -40,9 +132,79 @@ async function main() {
   await prisma.marketData.createMany({ data: marketRecords });
   console.log(`  ✓ ${marketRecords.length} market data records seeded`);
 
+  const cachedRoutes = await rebuildMarketMedians();
+  console.log(`  ✓ ${cachedRoutes} market medians cached`);
+
   console.log("Done.");
 }
 
+/**
+ * Korean public holidays 2025–2027 plus the peak week before Seollal and
+ * Chuseok. Lunar holiday dates are fixed per year, so they are listed here
+ * rather than computed.
+ */
+function generateSurchargeCalendar() {
+  const HOLIDAY_RATE = 0.3;
+  const PEAK_RATE = 0.15;
+
+  const solar = [
+    { name: "New Year's Day", md: "01-01" },
+    { name: "Independence Movement Day", md: "03-01" },
+    { name: "Children's Day", md: "05-05" },
+    { name: "Memorial Day", md: "06-06" },
+    { name: "Liberation Day", md: "08-15" },
+    { name: "National Foundation Day", md: "10-03" },
+    { name: "Hangul Day", md: "10-09" },
+    { name: "Christmas", md: "12-25" },
+  ];
+
+  const lunar: Record<number, { seollal: [string, string]; chuseok: [string, string]; buddha: string }> = {
+    2025: { seollal: ["2025-01-28", "2025-01-30"], chuseok: ["2025-10-05", "2025-10-08"], buddha: "2025-05-05" },
+    2026: { seollal: ["2026-02-16", "2026-02-18"], chuseok: ["2026-09-24", "2026-09-26"], buddha: "2026-05-24" },
+    2027: { seollal: ["2027-02-06", "2027-02-09"], chuseok: ["2027-09-14", "2027-09-16"], buddha: "2027-05-13" },
+  };
+
+  // The 7 days leading up to a holiday start date
+  const weekBefore = (start: string): [string, string] => {
+    const d = new Date(`${start}T00:00:00Z`);
+    const day = (offset: number) =>
+      new Date(d.getTime() + offset * 86400000).toISOString().slice(0, 10);
+    return [day(-7), day(-1)];
+  };
+
+  const rules: {
+    name: string;
+    kind: string;
+    startDate?: string;
+    endDate?: string;
+    daysOfWeek?: string;
+    startTime?: string;
+    endTime?: string;
+    rate: number;
+  }[] = [];
+
+  for (const [yearKey, dates] of Object.entries(lunar)) {
+    const year = Number(yearKey);
+    for (const h of solar) {
+      const date = `${year}-${h.md}`;
+      rules.push({ name: `${h.name} ${year}`, kind: "Holiday", startDate: date, endDate: date, rate: HOLIDAY_RATE });
+    }
+    rules.push({ name: `Seollal ${year}`, kind: "Holiday", startDate: dates.seollal[0], endDate: dates.seollal[1], rate: HOLIDAY_RATE });
+    rules.push({ name: `Chuseok ${year}`, kind: "Holiday", startDate: dates.chuseok[0], endDate: dates.chuseok[1], rate: HOLIDAY_RATE });
+    rules.push({ name: `Buddha's Birthday ${year}`, kind: "Holiday", startDate: dates.buddha, endDate: dates.buddha, rate: HOLIDAY_RATE });
+
+    const [seollalPeakStart, seollalPeakEnd] = weekBefore(dates.seollal[0]);
+    rules.push({ name: `Seollal peak ${year}`, kind: "Peak", startDate: seollalPeakStart, endDate: seollalPeakEnd, rate: PEAK_RATE });
+    const [chuseokPeakStart, chuseokPeakEnd] = weekBefore(dates.chuseok[0]);
+    rules.push({ name: `Chuseok peak ${year}`, kind: "Peak", startDate: chuseokPeakStart, endDate: chuseokPeakEnd, rate: PEAK_RATE });
+  }
+
+  rules.push({ name: "Weekend", kind: "Weekend", daysOfWeek: "0,6", rate: 0.1 });
+  rules.push({ name: "Night loading", kind: "Night", startTime: "22:00", endTime: "06:00", rate: 0.1 });
+
+  return rules;
+}
+
 /**
  * Generate realistic sample market data for testing.
  * Creates ~200 records across several routes and vehicle types.
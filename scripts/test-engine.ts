@@ -7,6 +7,7 @@
  */
 
 import { calculateFPHPrice, type FPHResult } from "../src/lib/pricing-engine";
+import { graphRouteDistance } from "../src/lib/route-distance";
 
 function formatKRW(n: number): string {
   return new Intl.NumberFormat("ko-KR").format(n) + " KRW";
@@ -16,16 +17,29 @@ function printResult(result: FPHResult) {
   const { input, tier1, tier2, tier3, summary } = result;
 
   console.log("═".repeat(60));
-  console.log(`Route: ${input.origin} → ${input.destination}`);
-  console.log(`Vehicle: ${input.vehicleType} | Freight: ${input.freightType ?? "General"}`);
+  console.log(`Route: ${[input.origin, ...(input.stops ?? []), input.destination].join(" → ")}`);
+  console.log(`Vehicle: ${input.vehicleType} | Freight: ${input.freightType ?? "General"} | Trip: ${tier1.tripMode}`);
   console.log("─".repeat(60));
 
   console.log("\n[Tier 1] Cost-Based Pricing");
   console.log(`  Distance: ${tier1.distanceKm} km (${tier1.distanceSource})`);
+  for (const seg of tier1.segments.filter((s) => s.kind !== "local")) {
+    console.log(`    ${seg.road}: ${seg.from} → ${seg.to} (${seg.km} km)`);
+  }
   console.log(`  Fuel Cost:       ${formatKRW(tier1.fuelCost)}`);
   console.log(`  Toll Cost:       ${formatKRW(tier1.tollCost)}`);
+  const tariff = tier1.toll.source === "toll-rate"
+    ? `class ${tier1.toll.tollClass}, ${formatKRW(tier1.toll.baseFee)} + ${tier1.toll.perKmRate}/km`
+    : `average ${tier1.toll.perKmRate}/km`;
+  console.log(`    Tariff: ${tariff}${tier1.toll.discountRule ? `, ${tier1.toll.discountRule} −${formatKRW(tier1.toll.discount)}` : ""}`);
   console.log(`  Fixed Cost:      ${formatKRW(tier1.fixedCost)}`);
+  if (tier1.stopCount > 0) {
+    console.log(`  Stop Handling:   ${tier1.stopCount} stop(s) → ${formatKRW(tier1.stopHandlingFee)}`);
+  }
   console.log(`  Driver Profit:   ${formatKRW(tier1.driverProfit)}`);
+  if (tier1.deadhead) {
+    console.log(`  Deadhead:        ${tier1.deadhead.distanceKm} km empty, ${(tier1.deadhead.chargeRate * 100).toFixed(0)}% → ${formatKRW(tier1.deadhead.charged)}`);
+  }
   console.log(`  ► Tier 1 Base:   ${formatKRW(tier1.subtotal)}`);
 
   console.log("\n[Tier 2] Market Overlay");
@@ -34,7 +48,10 @@ function printResult(result: FPHResult) {
     console.log(`  Adjustment:      ×${tier2.adjustmentFactor}`);
     console.log(`  Sample Size:     ${tier2.sampleSize}`);
     console.log(`  Confidence:      ${(tier2.confidenceScore * 100).toFixed(0)}%`);
-    console.log(`  Fallback:        ${tier2.isFallback ? "Yes (province-level)" : "No (exact route)"}`);
+    console.log(`  Fallback:        ${tier2.isFallback ? `Yes (${tier2.fallbackLevel})` : "No (exact route)"}`);
+    if (tier2.seasonalScope) {
+      console.log(`  Seasonal:        ×${tier2.seasonalIndex} (month ${tier2.seasonalMonth}, ${tier2.seasonalScope})`);
+    }
   } else {
     console.log(`  No market data available — using Tier 1 price`);
   }
@@ -43,7 +60,10 @@ function printResult(result: FPHResult) {
   console.log("\n[Tier 3] Strategic Finalization");
   console.log(`  Company Margin:  ${(tier3.companyMarginRate * 100).toFixed(0)}% → ${formatKRW(tier3.companyMargin)}`);
   if (tier3.freightRiskRate > 0) {
-    console.log(`  Freight Risk:    ${(tier3.freightRiskRate * 100).toFixed(0)}% → ${formatKRW(tier3.freightRiskSurcharge)}`);
+    console.log(`  Freight (${tier3.freightClass}): ${(tier3.freightRiskRate * 100).toFixed(0)}% → ${formatKRW(tier3.freightRiskSurcharge)}`);
+  }
+  if (tier3.calendarSurchargeRate > 0) {
+    console.log(`  Calendar:        ${tier3.calendarRules.join(" + ")} ${(tier3.calendarSurchargeRate * 100).toFixed(0)}% → ${formatKRW(tier3.calendarSurcharge)}`);
   }
   if (tier3.manualAdjustmentRate !== 0) {
     console.log(`  Manual Adj:      ${(tier3.manualAdjustmentRate * 100).toFixed(1)}% → ${formatKRW(tier3.manualAdjustment)}`);
@@ -55,6 +75,7 @@ function printResult(result: FPHResult) {
   console.log(`  Tier 1 → Tier 2 → Tier 3: ${formatKRW(summary.tier1_base)} → ${formatKRW(summary.tier2_adjusted)} → ${formatKRW(summary.tier3_final)}`);
   console.log(`  Overall Confidence: ${(summary.overallConfidence * 100).toFixed(0)}%`);
   console.log(`  Data Sources: ${summary.dataSources.join(", ")}`);
+  for (const w of summary.warnings) console.log(`  ⚠ ${w}`);
   console.log("");
 }
 
@@ -121,6 +142,82 @@ async function main() {
     freightType: "General",
   });
   printResult(r6);
+
+  // Test 7: Remote lane with empty return leg
+  console.log("Test 7: Seoul → Gangwon (11t, General) — empty return");
+  const r7 = await calculateFPHPrice({
+    origin: "Seoul/Gangnam",
+    destination: "Gangwon/Gangneung",
+    vehicleType: "11t",
+    freightType: "General",
+    tripMode: "empty-return",
+  });
+  printResult(r7);
+
+  // Test 8: Milk-run with an intermediate drop
+  console.log("Test 8: Pyeongtaek → Daejeon → Busan (11t, General) — multi-stop");
+  const r8 = await calculateFPHPrice({
+    origin: "Gyeonggi/Pyeongtaek",
+    stops: ["Daejeon/Yuseong"],
+    destination: "Busan/Gangseo",
+    vehicleType: "11t",
+    freightType: "General",
+  });
+  printResult(r8);
+
+  // Test 9: Night pickup on Chuseok (holiday + night surcharges)
+  console.log("Test 9: Seoul → Busan (11t, General) — Chuseok night pickup");
+  const r9 = await calculateFPHPrice({
+    origin: "Seoul/Gangnam",
+    destination: "Busan/Haeundae",
+    vehicleType: "11t",
+    freightType: "General",
+    pickupAt: "2026-09-25T23:30",
+  });
+  printResult(r9);
+
+  // Test 10: Korean freight alias on a vehicle without a reefer body
+  console.log("Test 10: Seoul → Busan (11t, 냉동) — alias resolves to Refrigerated, body type warning");
+  const r10 = await calculateFPHPrice({
+    origin: "Seoul/Gangnam",
+    destination: "Busan/Haeundae",
+    vehicleType: "11t",
+    freightType: "냉동",
+  });
+  printResult(r10);
+
+  // Test 11: Unknown freight type is rejected
+  console.log("Test 11: Seoul → Busan (11t, Livestock) — unknown freight type");
+  try {
+    await calculateFPHPrice({
+      origin: "Seoul/Gangnam",
+      destination: "Busan/Haeundae",
+      vehicleType: "11t",
+      freightType: "Livestock",
+    });
+    console.log("  ✗ expected an error\n");
+  } catch (error) {
+    console.log(`  ✓ ${error instanceof Error ? error.message : error}\n`);
+  }
+
+  // Test 12: Road graph distances on the main corridors, within 10% of the
+  // road distance a navigation app reports
+  console.log("Test 12: Road graph — main corridors against known road distances");
+  const corridors: [string, string, number][] = [
+    ["Seoul/Gangnam", "Busan/Haeundae", 400],
+    ["Seoul/Gangnam", "Daejeon/Yuseong", 150],
+    ["Seoul/Gangnam", "Daegu/Dalseo", 290],
+    ["Seoul/Gangnam", "Gwangju/Buk", 300],
+    ["Seoul/Gangnam", "Ulsan/Nam", 380],
+    ["Seoul/Gangnam", "Gangwon/Gangneung", 230],
+    ["Daegu/Dalseo", "Busan/Haeundae", 160],
+  ];
+  for (const [origin, destination, knownKm] of corridors) {
+    const km = graphRouteDistance(origin, destination)?.distanceKm;
+    const ok = km !== undefined && Math.abs(km - knownKm) <= knownKm * 0.1;
+    console.log(`  ${ok ? "✓" : "✗"} ${origin} → ${destination}: ${km ?? "no route"} km (known ~${knownKm} km)`);
+  }
+  console.log();
 }
 
 main()
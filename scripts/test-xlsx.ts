@@ -0,0 +1,162 @@
+/**
+ * Fixture tests for the XLSX reader and the import date handling.
+ *
+ * Run: npx tsx scripts/test-xlsx.ts
+ *
+ * Workbooks are built in memory (stored, uncompressed zip entries), so no
+ * database or fixture files are needed.
+ */
+
+import { crc32 } from "node:zlib";
+import { readXlsx, sheetToRows, type XlsxCell } from "../src/lib/xlsx-reader";
+import { isValidDate, normalizeDate } from "../src/lib/csv-parser";
+
+const WORKBOOK = `<?xml version="1.0" encoding="UTF-8"?>
+<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Data" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+const RELS = `<?xml version="1.0" encoding="UTF-8"?>
+<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`;
+
+// Style 1 is a built-in date format (14 = m/d/yyyy)
+const STYLES = `<?xml version="1.0" encoding="UTF-8"?>
+<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>`;
+
+/**
+ * A zip archive of stored entries; with zip64, sizes and offsets go in the
+ * zip64 extra field and the directory in a zip64 end record.
+ */
+function buildZip(files: Record<string, string>, zip64 = false): Uint8Array {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuf = Buffer.from(name, "utf8");
+    const data = Buffer.from(content, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBuf.length, 26);
+    locals.push(local, nameBuf, data);
+
+    const extra = Buffer.alloc(zip64 ? 28 : 0);
+    if (zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(data.length), 4);
+      extra.writeBigUInt64LE(BigInt(data.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt32LE(crc32(data), 16);
+    entry.writeUInt32LE(zip64 ? 0xffffffff : data.length, 20);
+    entry.writeUInt32LE(zip64 ? 0xffffffff : data.length, 24);
+    entry.writeUInt16LE(nameBuf.length, 28);
+    entry.writeUInt16LE(extra.length, 30);
+    entry.writeUInt32LE(zip64 ? 0xffffffff : offset, 42);
+    directory.push(entry, nameBuf, extra);
+
+    offset += 30 + nameBuf.length + data.length;
+  }
+
+  const directorySize = directory.reduce((sum, b) => sum + b.length, 0);
+  const count = Object.keys(files).length;
+  const tail: Buffer[] = [];
+
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(BigInt(44), 4);
+    record.writeBigUInt64LE(BigInt(count), 24);
+    record.writeBigUInt64LE(BigInt(count), 32);
+    record.writeBigUInt64LE(BigInt(directorySize), 40);
+    record.writeBigUInt64LE(BigInt(offset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + directorySize), 8);
+    locator.writeUInt32LE(1, 16);
+    tail.push(record, locator);
+  }
+
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(zip64 ? 0xffff : count, 8);
+  eocd.writeUInt16LE(zip64 ? 0xffff : count, 10);
+  eocd.writeUInt32LE(zip64 ? 0xffffffff : directorySize, 12);
+  eocd.writeUInt32LE(zip64 ? 0xffffffff : offset, 16);
+
+  return new Uint8Array(Buffer.concat([...locals, ...directory, ...tail, eocd]));
+}
+
+function buildWorkbook(sheet: string, sharedStrings: string, zip64 = false): Uint8Array {
+  return buildZip(
+    {
+      "xl/workbook.xml": WORKBOOK,
+      "xl/_rels/workbook.xml.rels": RELS,
+      "xl/styles.xml": STYLES,
+      "xl/sharedStrings.xml": sharedStrings,
+      "xl/worksheets/sheet1.xml": `<worksheet><sheetData>${sheet}</sheetData></worksheet>`,
+    },
+    zip64
+  );
+}
+
+let failures = 0;
+
+function check(label: string, actual: unknown, expected: unknown) {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a === e) {
+    console.log(`  ✓ ${label}`);
+  } else {
+    failures++;
+    console.log(`  ✗ ${label}: got ${a}, expected ${e}`);
+  }
+}
+
+// Shared strings 0–3; index 1 is an empty <si/> and must not shift the rest
+const SHARED = `<sst count="4" uniqueCount="4"><si><t>Origin</t></si><si/><si><r><t>Bus</t></r><r><t>an</t></r></si><si><t>서울</t><rPh><t>ソウル</t></rPh></si></sst>`;
+
+const SHEET = [
+  `<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>`,
+  `<row r="2"><c r="A2" t="s"><v>3</v></c><c r="C2" t="inlineStr"><is><t>Daegu &amp; Gyeongbuk</t></is></c></row>`,
+  `<row r="3"><c r="A3" s="1"><v>45306</v></c><c r="B3"/><c r="D3"><v>850000</v></c></row>`,
+].join("");
+
+function main() {
+  console.log("Test 1: Shared strings, with an empty <si/> in the middle");
+  const rows: XlsxCell[][] = readXlsx(buildWorkbook(SHEET, SHARED)).readSheet("Data");
+  check("header row keeps its indexes", rows[0], ["Origin", "", "Busan"]);
+  check("phonetic runs are skipped", rows[1][0], "서울");
+
+  console.log("Test 2: Inline strings");
+  check("inline string is unescaped", rows[1][2], "Daegu & Gyeongbuk");
+
+  console.log("Test 3: Empty and missing cells");
+  check("missing cell between values is null", rows[1][1], null);
+  check("empty <c/> is null", rows[2][1], null);
+  check("skipped column is null", rows[2][2], null);
+  check("number cell", rows[2][3], 850000);
+
+  console.log("Test 4: Date-formatted cell");
+  check("serial in a date style becomes a date", sheetToRows(rows)[2][0], "2024-01-15");
+
+  console.log("Test 5: Zip64 archive");
+  const rows64 = readXlsx(buildWorkbook(SHEET, SHARED, true)).readSheet("Data");
+  check("same rows as the plain archive", sheetToRows(rows64), sheetToRows(rows));
+
+  console.log("Test 6: Date serial in a General-formatted column");
+  check("\"45306\" → 2024-01-15", normalizeDate("45306"), "2024-01-15");
+  check("\"45306.75\" keeps the time", normalizeDate("45306.75"), "2024-01-15T18:00");
+  check("bare number is not a date", isValidDate("45306"), false);
+  check("YYYYMMDD still reads as a date", normalizeDate("20240115"), "2024-01-15");
+
+  console.log(failures === 0 ? "\nAll checks passed" : `\n${failures} check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+main();
@@ -20,15 +20,14 @@ export async function getDashboardStats(): Promise<DashboardStats> {
       prisma.routeStandard.count(),
     ]);
 
-  // Fetch key cost variables
-  const fuelRow = await prisma.costMaster.findUnique({ where: { item: "fuel_price" } });
-  const marginRow = await prisma.costMaster.findUnique({ where: { item: "company_margin_rate" } });
-  const driverRow = await prisma.costMaster.findUnique({ where: { item: "driver_profit_rate" } });
+  // Fetch key cost variables (global defaults, not per-vehicle overrides)
+  const fuelRow = await prisma.costMaster.findFirst({ where: { item: "fuel_price", vehicleType: null } });
+  const marginRow = await prisma.costMaster.findFirst({ where: { item: "company_margin_rate", vehicleType: null } });
+  const driverRow = await prisma.costMaster.findFirst({ where: { item: "driver_profit_rate", vehicleType: null } });
 
-  // Count unique origin-destination-vehicle combinations in market data
-  const uniqueRoutesRaw = await prisma.marketData.findMany({
-    distinct: ["origin", "destination", "vehicleType"],
-    select: { origin: true, destination: true, vehicleType: true },
+  // Analysed routes come from the MarketMedian cache rather than a MarketData scan
+  const uniqueRoutes = await prisma.marketMedian.count({
+    where: { fallbackLevel: { in: ["district", "province"] } },
   });
 
   return {
@@ -38,6 +37,6 @@ export async function getDashboardStats(): Promise<DashboardStats> {
     fuelPrice: fuelRow?.value ?? null,
     companyMargin: marginRow?.value ?? null,
     driverProfit: driverRow?.value ?? null,
-    uniqueRoutes: uniqueRoutesRaw.length,
+    uniqueRoutes,
   };
 }
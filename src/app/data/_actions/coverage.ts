@@ -0,0 +1,28 @@
+"use server";
+
+import {
+  getCoverageDetail,
+  getCoverageMatrix,
+  getCoverageVehicleTypes,
+  type CoverageDetail,
+  type CoverageMatrix,
+} from "@/lib/market-coverage";
+
+export async function getCoverage(vehicleType: string): Promise<CoverageMatrix> {
+  return getCoverageMatrix(vehicleType);
+}
+
+export async function getCoverageVehicles(): Promise<string[]> {
+  return getCoverageVehicleTypes();
+}
+
+/**
+ * Route results and thin lanes behind one cell of the coverage matrix.
+ */
+export async function getCoverageCell(
+  vehicleType: string,
+  originProvince: string,
+  destinationProvince: string
+): Promise<CoverageDetail> {
+  return getCoverageDetail(vehicleType, originProvince, destinationProvince);
+}
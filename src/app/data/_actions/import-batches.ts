@@ -0,0 +1,80 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { marketPartitions, refreshMarketMedians } from "@/lib/market-median";
+
+export interface ImportBatchSummary {
+  id: number;
+  fileName: string;
+  sheetName: string | null;
+  rowCount: number;     // rows inserted
+  currentCount: number; // rows of the batch still in MarketData
+  skippedCount: number;
+  errorCount: number;
+  uploader: string | null;
+  createdAt: string;
+}
+
+/**
+ * MarketData imports, newest first.
+ */
+export async function getImportBatches(limit = 50): Promise<ImportBatchSummary[]> {
+  const batches = await prisma.importBatch.findMany({
+    orderBy: { createdAt: "desc" },
+    take: limit,
+    include: { _count: { select: { marketData: true } } },
+  });
+  return batches.map(
+    (b: {
+      id: number;
+      fileName: string;
+      sheetName: string | null;
+      rowCount: number;
+      skippedCount: number;
+      errorCount: number;
+      uploader: string | null;
+      createdAt: Date;
+      _count: { marketData: number };
+    }) => ({
+      id: b.id,
+      fileName: b.fileName,
+      sheetName: b.sheetName,
+      rowCount: b.rowCount,
+      currentCount: b._count.marketData,
+      skippedCount: b.skippedCount,
+      errorCount: b.errorCount,
+      uploader: b.uploader,
+      createdAt: b.createdAt.toISOString(),
+    })
+  );
+}
+
+/**
+ * Delete a batch and every MarketData row it added (archived ones too), then
+ * re-analyse the lanes those rows belonged to.
+ */
+export async function rollbackImportBatch(
+  id: number
+): Promise<{ success: boolean; deleted?: number; error?: string }> {
+  try {
+    const routes = await prisma.marketData.findMany({
+      where: { batchId: id },
+      distinct: ["origin", "destination", "vehicleType"],
+      select: { origin: true, destination: true, vehicleType: true },
+    });
+    const [{ count }] = await prisma.$transaction([
+      prisma.marketData.deleteMany({ where: { batchId: id } }),
+      prisma.marketDataArchive.deleteMany({ where: { batchId: id } }),
+      prisma.importBatch.delete({ where: { id } }),
+    ]);
+    await refreshMarketMedians(marketPartitions(routes));
+    revalidatePath("/data");
+    return { success: true, deleted: count };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
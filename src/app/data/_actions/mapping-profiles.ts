@@ -0,0 +1,82 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import type { ColumnMapping } from "@/lib/csv-parser";
+
+export interface ImportMappingProfile {
+  id: number;
+  name: string;
+  dataType: string;
+  columns: Record<string, string | null>;
+  defaults: Record<string, string>;
+}
+
+function parseJson<T>(text: string, fallback: T): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export async function getMappingProfiles(dataType = "market"): Promise<ImportMappingProfile[]> {
+  const rows = await prisma.importMappingProfile.findMany({
+    where: { dataType },
+    orderBy: { name: "asc" },
+  });
+  return rows.map((r: { id: number; name: string; dataType: string; columns: string; defaults: string }) => ({
+    id: r.id,
+    name: r.name,
+    dataType: r.dataType,
+    columns: parseJson(r.columns, {}),
+    defaults: parseJson(r.defaults, {}),
+  }));
+}
+
+/**
+ * Save the mapping under a data source name, replacing a profile of the
+ * same name.
+ */
+export async function saveMappingProfile(
+  name: string,
+  mapping: ColumnMapping,
+  dataType = "market"
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const trimmed = name.trim();
+    if (!trimmed) return { success: false, error: "Profile name is required" };
+    const data = {
+      dataType,
+      columns: JSON.stringify(mapping.columns ?? {}),
+      defaults: JSON.stringify(mapping.defaults ?? {}),
+    };
+    await prisma.importMappingProfile.upsert({
+      where: { name: trimmed },
+      create: { name: trimmed, ...data },
+      update: data,
+    });
+    revalidatePath("/data");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function deleteMappingProfile(
+  id: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await prisma.importMappingProfile.delete({ where: { id } });
+    revalidatePath("/data");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,256 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { canonicalLocation } from "@/lib/location";
+import { checkCatalogFields, isValidDate, normalizeTonnage, toStoredDate } from "@/lib/csv-parser";
+import { getCatalogParseOptions } from "@/lib/import-catalog";
+import { marketPartitions, refreshMarketMedians } from "@/lib/market-median";
+
+export interface MarketDataFilter {
+  dateFrom?: string;      // YYYY-MM-DD, inclusive
+  dateTo?: string;        // YYYY-MM-DD, inclusive
+  origin?: string;        // substring of the location id, e.g. "Seoul" or "Gangnam"
+  destination?: string;
+  vehicleType?: string;
+  freightType?: string;
+  batchId?: number | null; // null = rows not from an import (seed or pre-batch data)
+  outlier?: "flagged" | "unflagged";
+}
+
+export interface MarketDataRecord {
+  id: number;
+  date: string; // YYYY-MM-DD
+  origin: string;
+  destination: string;
+  vehicleType: string;
+  freightType: string;
+  unitPrice: number;
+  isOutlier: boolean;
+  batchId: number | null;
+}
+
+export type MarketDataInput = Omit<MarketDataRecord, "id" | "isOutlier" | "batchId">;
+
+export interface MarketDataPage {
+  rows: MarketDataRecord[];
+  total: number;
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export interface MarketDataFilterOptions {
+  vehicleTypes: string[];
+  freightTypes: string[];
+  batches: { id: number; fileName: string }[];
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const DAY_MS = 86_400_000;
+
+type PartitionRow = { origin: string; destination: string; vehicleType: string };
+
+function buildWhere(filter: MarketDataFilter) {
+  return {
+    ...(filter.dateFrom || filter.dateTo
+      ? {
+          date: {
+            ...(filter.dateFrom ? { gte: new Date(filter.dateFrom) } : {}),
+            // Inclusive of the whole last day, including imported times of day
+            ...(filter.dateTo ? { lt: new Date(new Date(filter.dateTo).getTime() + DAY_MS) } : {}),
+          },
+        }
+      : {}),
+    ...(filter.origin?.trim() ? { origin: { contains: filter.origin.trim() } } : {}),
+    ...(filter.destination?.trim() ? { destination: { contains: filter.destination.trim() } } : {}),
+    ...(filter.vehicleType ? { vehicleType: filter.vehicleType } : {}),
+    ...(filter.freightType ? { freightType: filter.freightType } : {}),
+    ...(filter.batchId !== undefined ? { batchId: filter.batchId } : {}),
+    ...(filter.outlier ? { isOutlier: filter.outlier === "flagged" } : {}),
+  };
+}
+
+function hasCriteria(filter: MarketDataFilter): boolean {
+  return Object.keys(buildWhere(filter)).length > 0;
+}
+
+/**
+ * Re-analyse the lanes the changed rows belong to (before and after an edit).
+ */
+async function afterChange(rows: PartitionRow[]) {
+  await refreshMarketMedians(marketPartitions(rows));
+  revalidatePath("/data");
+  revalidatePath("/simulator");
+}
+
+function toRecord(r: {
+  id: number;
+  date: Date;
+  origin: string;
+  destination: string;
+  vehicleType: string;
+  freightType: string;
+  unitPrice: number;
+  isOutlier: boolean;
+  batchId: number | null;
+}): MarketDataRecord {
+  return {
+    id: r.id,
+    date: r.date.toISOString().slice(0, 10),
+    origin: r.origin,
+    destination: r.destination,
+    vehicleType: r.vehicleType,
+    freightType: r.freightType,
+    unitPrice: r.unitPrice,
+    isOutlier: r.isOutlier,
+    batchId: r.batchId,
+  };
+}
+
+export async function getMarketDataPage(
+  filter: MarketDataFilter = {},
+  page = 1,
+  pageSize = DEFAULT_PAGE_SIZE
+): Promise<MarketDataPage> {
+  const where = buildWhere(filter);
+  const [total, rows] = await Promise.all([
+    prisma.marketData.count({ where }),
+    prisma.marketData.findMany({
+      where,
+      orderBy: [{ date: "desc" }, { id: "desc" }],
+      skip: (Math.max(page, 1) - 1) * pageSize,
+      take: pageSize,
+    }),
+  ]);
+  return { rows: rows.map(toRecord), total, page: Math.max(page, 1), pageSize };
+}
+
+export async function getMarketDataFilterOptions(): Promise<MarketDataFilterOptions> {
+  const [vehicleTypes, freightTypes, batches] = await Promise.all([
+    prisma.marketData.findMany({ distinct: ["vehicleType"], select: { vehicleType: true }, orderBy: { vehicleType: "asc" } }),
+    prisma.marketData.findMany({ distinct: ["freightType"], select: { freightType: true }, orderBy: { freightType: "asc" } }),
+    prisma.importBatch.findMany({ select: { id: true, fileName: true }, orderBy: { createdAt: "desc" } }),
+  ]);
+  return {
+    vehicleTypes: vehicleTypes.map((v: { vehicleType: string }) => v.vehicleType),
+    freightTypes: freightTypes.map((f: { freightType: string }) => f.freightType),
+    batches,
+  };
+}
+
+/**
+ * Returns an error message, or null if the row is valid. Vehicle and freight
+ * types are checked against the catalogs separately (see checkCatalogFields).
+ */
+function validateRow(data: Partial<MarketDataInput>): string | null {
+  if (data.date !== undefined && !isValidDate(data.date)) return "Invalid date";
+  if (data.origin !== undefined && !data.origin.trim()) return "Origin is required";
+  if (data.destination !== undefined && !data.destination.trim()) return "Destination is required";
+  if (data.vehicleType !== undefined && !data.vehicleType.trim()) return "Vehicle type is required";
+  if (data.freightType !== undefined && !data.freightType.trim()) return "Freight type is required";
+  if (data.unitPrice !== undefined && !(data.unitPrice > 0)) return "Unit price must be positive";
+  return null;
+}
+
+export async function updateMarketDataRow(
+  id: number,
+  data: Partial<MarketDataInput>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const invalid = validateRow(data);
+    if (invalid) return { success: false, error: invalid };
+
+    // Same catalog checks as an import: known vehicle, canonical freight class
+    const vehicleType = data.vehicleType !== undefined ? normalizeTonnage(data.vehicleType) : undefined;
+    const catalog = checkCatalogFields(
+      { vehicleType, freightType: data.freightType?.trim() },
+      await getCatalogParseOptions()
+    );
+    if (catalog.error) return { success: false, error: catalog.error };
+
+    const before = await prisma.marketData.findUnique({ where: { id } });
+    if (!before) return { success: false, error: "Record not found" };
+
+    const after = await prisma.marketData.update({
+      where: { id },
+      data: {
+        ...(data.date !== undefined ? { date: toStoredDate(data.date) } : {}),
+        ...(data.origin !== undefined ? { origin: canonicalLocation(data.origin) } : {}),
+        ...(data.destination !== undefined ? { destination: canonicalLocation(data.destination) } : {}),
+        ...(vehicleType !== undefined ? { vehicleType } : {}),
+        ...(catalog.freightType !== undefined ? { freightType: catalog.freightType } : {}),
+        ...(data.unitPrice !== undefined ? { unitPrice: data.unitPrice } : {}),
+      },
+    });
+    await afterChange([before, after]);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Flag a row as an outlier (or clear the flag). Flagged rows stay in the
+ * table but are left out of the market analysis.
+ */
+export async function setMarketDataOutlier(
+  id: number,
+  isOutlier: boolean
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const row = await prisma.marketData.update({ where: { id }, data: { isOutlier } });
+    await afterChange([row]);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function deleteMarketDataRow(
+  id: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const row = await prisma.marketData.delete({ where: { id } });
+    await afterChange([row]);
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Delete every row matching the filter. An empty filter is refused; use
+ * clearMarketData to wipe the table.
+ */
+export async function deleteMarketDataByFilter(
+  filter: MarketDataFilter
+): Promise<{ success: boolean; deleted?: number; error?: string }> {
+  try {
+    if (!hasCriteria(filter)) {
+      return { success: false, error: "Set at least one filter before deleting" };
+    }
+    const where = buildWhere(filter);
+    const routes: PartitionRow[] = await prisma.marketData.findMany({
+      where,
+      distinct: ["origin", "destination", "vehicleType"],
+      select: { origin: true, destination: true, vehicleType: true },
+    });
+    const { count } = await prisma.marketData.deleteMany({ where });
+    await afterChange(routes);
+    return { success: true, deleted: count };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
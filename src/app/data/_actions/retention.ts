@@ -0,0 +1,43 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import type { MarketPartition } from "@/lib/market-median";
+import {
+  archiveExpiredMarketData,
+  getMarketTrend,
+  getRetentionStatus,
+  type RetentionStatus,
+  type TrendPoint,
+} from "@/lib/market-archive";
+
+export async function getMarketRetention(): Promise<RetentionStatus> {
+  return getRetentionStatus();
+}
+
+/**
+ * Archive MarketData rows older than the retention window.
+ */
+export async function runMarketRetention(): Promise<{ success: boolean; archived?: number; error?: string }> {
+  try {
+    const archived = await archiveExpiredMarketData();
+    revalidatePath("/data");
+    revalidatePath("/simulator");
+    return { success: true, archived };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Monthly median prices of a corridor + vehicle type, optionally including
+ * archived rows.
+ */
+export async function getCorridorTrend(
+  partition: MarketPartition,
+  includeArchive: boolean
+): Promise<TrendPoint[]> {
+  return getMarketTrend(partition, includeArchive);
+}
@@ -0,0 +1,19 @@
+"use server";
+
+import type { MarketPartition } from "@/lib/market-median";
+import {
+  getSeasonalPartitions,
+  getSeasonalProfile,
+  type SeasonalProfile,
+} from "@/lib/seasonality";
+
+export async function getSeasonalCorridors(): Promise<MarketPartition[]> {
+  return getSeasonalPartitions();
+}
+
+/**
+ * Monthly index for a corridor + vehicle type, or national when null.
+ */
+export async function getSeasonality(partition: MarketPartition | null): Promise<SeasonalProfile> {
+  return getSeasonalProfile(partition);
+}
@@ -1,17 +1,33 @@
 "use server";
 
+import { createHash } from "node:crypto";
 import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
 import {
-  parseMarketDataCsv,
-  parseCostMasterCsv,
+  createCostMasterParser,
+  createMarketDataParser,
+  MARKET_DATA_FIELDS,
+  parseCsvStream,
+  parseRecords,
+  type ColumnMapping,
   type MarketDataRow,
+  type ParseResult,
+  type RowParser,
+  toStoredDate,
 } from "@/lib/csv-parser";
+import { readXlsx, sheetToRows } from "@/lib/xlsx-reader";
+import { getCatalogParseOptions } from "@/lib/import-catalog";
+import { summarizeAnalysis, type AnalysisSummary } from "@/lib/analysis";
 import {
-  analyzeMarketData,
-  summarizeAnalysis,
-  type AnalysisSummary,
-  type PriceDataPoint,
-} from "@/lib/analysis";
+  clearMarketMedians,
+  type MarketPartition,
+  getMarketMedians,
+  MARKET_HALF_LIFE_ITEM,
+  MARKET_RETENTION_ITEM,
+  marketPartitions,
+  rebuildMarketMedians,
+  refreshMarketMedians,
+} from "@/lib/market-median";
 
 // ── Types ────────────────────────────────────────────────────────
 
@@ -20,72 +36,422 @@ export interface UploadResult {
   importedCount: number;
   errorCount: number;
   errors: string[];
+  warnings?: string[]; // imported, but e.g. with unresolved locations
+  normalizations?: string[]; // values rewritten on import, e.g. "85만원" → 850000
+  skippedCount?: number; // MarketData: rows already imported by an earlier batch
+  skippedRows?: string[]; // MarketData: the rows behind skippedCount, and where they came from
+  batchId?: number;
   analysis?: AnalysisSummary;
 }
 
-// ── MarketData import ────────────────────────────────────────────
+export interface DuplicateBatch {
+  id: number;
+  fileName: string;
+  createdAt: string;
+}
 
-export async function uploadMarketData(formData: FormData): Promise<UploadResult> {
+export interface MarketDataPreview {
+  success: boolean;
+  fileError?: string;                    // file unreadable, or no header row found
+  headers: string[];                     // header row as written
+  headerRowNum: number;
+  sampleRows: string[][];                // first data rows, as written
+  fields: { field: string; required: boolean }[];
+  detected: Record<string, string | null>; // field → header the parser used
+  missingFields: string[];
+  duplicateOf?: DuplicateBatch;          // the same file was already imported
+  validCount: number;
+  errorCount: number;
+  errors: string[];
+  warnings: string[];
+  normalizations: string[];
+  summary: {
+    dateFrom: string | null;
+    dateTo: string | null;
+    laneCount: number;                   // distinct origin → destination
+    vehicleTypes: { name: string; count: number }[];
+    minPrice: number | null;
+    maxPrice: number | null;
+  };
+}
+
+// ── File reading ─────────────────────────────────────────────────
+
+function isSpreadsheet(file: File): boolean {
+  return /\.xlsx$/i.test(file.name);
+}
+
+/**
+ * Sheet names of an uploaded .xlsx workbook, for the sheet picker.
+ */
+export async function getWorkbookSheets(
+  formData: FormData
+): Promise<{ sheets: string[]; error?: string }> {
   const file = formData.get("file") as File | null;
-  if (!file) {
-    return { success: false, importedCount: 0, errorCount: 0, errors: ["No file provided."] };
+  if (!file) return { sheets: [], error: "No file provided." };
+  try {
+    const workbook = readXlsx(new Uint8Array(await file.arrayBuffer()));
+    return { sheets: workbook.sheetNames };
+  } catch (error) {
+    return { sheets: [], error: error instanceof Error ? error.message : "Unreadable workbook" };
   }
+}
 
-  const text = await file.text();
-  const parsed = parseMarketDataCsv(text);
+/**
+ * Run an upload through a row parser: a CSV is streamed from the upload, an
+ * .xlsx workbook is read from the chosen sheet (formData "sheet", default the
+ * first). With onRows, validated rows are handed over in batches as they are
+ * read (see parseRecords).
+ */
+async function parseUpload<T>(
+  file: File,
+  sheet: string | null,
+  parser: RowParser<T>,
+  onRows?: (rows: T[]) => Promise<void>
+): Promise<ParseResult<T>> {
+  if (!isSpreadsheet(file)) return parseCsvStream(file.stream(), parser, onRows);
 
-  if (parsed.errors.length > 0 && parsed.data.length === 0) {
+  let rows: string[][];
+  try {
+    const workbook = readXlsx(new Uint8Array(await file.arrayBuffer()));
+    const name = sheet || workbook.sheetNames[0];
+    if (!name) return { data: [], errors: ["Workbook has no sheets."], totalRows: 0 };
+    rows = sheetToRows(workbook.readSheet(name));
+  } catch (error) {
     return {
-      success: false,
-      importedCount: 0,
-      errorCount: parsed.errors.length,
-      errors: parsed.errors.slice(0, 20), // limit displayed errors
+      data: [],
+      errors: [`Could not read workbook: ${error instanceof Error ? error.message : "Unknown error"}`],
+      totalRows: 0,
     };
   }
+  return parseRecords([rows], parser, onRows);
+}
 
-  // Batch insert into DB
+/**
+ * Column mapping sent by the import preview (formData "mapping", JSON).
+ * Anything unreadable is ignored and the headers are guessed as usual.
+ */
+function readColumnMapping(formData: FormData): ColumnMapping | undefined {
+  const raw = formData.get("mapping");
+  if (typeof raw !== "string" || !raw) return undefined;
   try {
-    const records = parsed.data.map((row: MarketDataRow) => ({
-      date: new Date(row.date),
+    const parsed = JSON.parse(raw) as ColumnMapping;
+    return parsed && typeof parsed === "object" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * SHA-256 of the uploaded file, read as a stream.
+ */
+async function hashFile(file: File): Promise<string> {
+  const hash = createHash("sha256");
+  const reader = file.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    hash.update(value);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * The batch that already imported this file (and sheet), if any.
+ */
+async function findDuplicateBatch(fileHash: string, sheet: string | null): Promise<DuplicateBatch | undefined> {
+  const batch = await prisma.importBatch.findFirst({
+    where: { fileHash, sheetName: sheet },
+    orderBy: { createdAt: "desc" },
+  });
+  if (!batch) return undefined;
+  return { id: batch.id, fileName: batch.fileName, createdAt: batch.createdAt.toISOString() };
+}
+
+function duplicateFileError(batch: DuplicateBatch): string {
+  return `This file was already imported as batch #${batch.id} (${batch.fileName}, ${batch.createdAt.slice(0, 10)}). Roll that batch back to import it again.`;
+}
+
+// A price point: the same lane, day, vehicle, freight and price
+/**
+ * Stored date as import text: "YYYY-MM-DD", with "THH:MM" when it has a time.
+ */
+function formatRowDate(date: Date): string {
+  const iso = date.toISOString();
+  return iso.slice(11, 16) === "00:00" ? iso.slice(0, 10) : iso.slice(0, 16);
+}
+
+function marketRowKey(r: {
+  date: Date;
+  origin: string;
+  destination: string;
+  vehicleType: string;
+  freightType: string;
+  unitPrice: number;
+}): string {
+  return `${r.date.getTime()}|${r.origin}|${r.destination}|${r.vehicleType}|${r.freightType}|${r.unitPrice}`;
+}
+
+// ── MarketData import ────────────────────────────────────────────
+
+const PREVIEW_SAMPLE_ROWS = 10;
+
+/**
+ * Step 1 of the import: parse the file without saving anything and report
+ * how its columns were mapped, a few sample rows, the row errors and what the
+ * valid rows contain. Send the same formData (with a "mapping") to
+ * uploadMarketData to import.
+ */
+export async function previewMarketData(formData: FormData): Promise<MarketDataPreview> {
+  const preview: MarketDataPreview = {
+    success: false,
+    headers: [],
+    headerRowNum: 0,
+    sampleRows: [],
+    fields: MARKET_DATA_FIELDS.map((field) => ({ field, required: true })),
+    detected: {},
+    missingFields: [],
+    validCount: 0,
+    errorCount: 0,
+    errors: [],
+    warnings: [],
+    normalizations: [],
+    summary: {
+      dateFrom: null,
+      dateTo: null,
+      laneCount: 0,
+      vehicleTypes: [],
+      minPrice: null,
+      maxPrice: null,
+    },
+  };
+
+  const file = formData.get("file") as File | null;
+  if (!file) return { ...preview, fileError: "No file provided." };
+
+  const mapping = readColumnMapping(formData);
+  const parser = createMarketDataParser(await getCatalogParseOptions(), mapping);
+
+  // Keep the first records as written; the header row is only known afterwards
+  const records: { rowNum: number; fields: string[] }[] = [];
+  let rowNum = 0;
+  const sampling: RowParser<MarketDataRow> = {
+    ...parser,
+    push(fields) {
+      rowNum++;
+      if (records.length < PREVIEW_SAMPLE_ROWS + 20 && fields.some((f) => f.trim() !== "")) {
+        records.push({ rowNum, fields });
+      }
+      parser.push(fields);
+    },
+  };
+
+  // Summarise the valid rows as they stream past instead of keeping them
+  const { summary } = preview;
+  const lanes = new Set<string>();
+  const vehicleTypes = new Map<string, number>();
+  async function summarize(rows: MarketDataRow[]) {
+    for (const row of rows) {
+      preview.validCount++;
+      if (!summary.dateFrom || row.date < summary.dateFrom) summary.dateFrom = row.date;
+      if (!summary.dateTo || row.date > summary.dateTo) summary.dateTo = row.date;
+      lanes.add(`${row.origin}|${row.destination}`);
+      vehicleTypes.set(row.vehicleType, (vehicleTypes.get(row.vehicleType) ?? 0) + 1);
+      summary.minPrice = summary.minPrice === null ? row.unitPrice : Math.min(summary.minPrice, row.unitPrice);
+      summary.maxPrice = summary.maxPrice === null ? row.unitPrice : Math.max(summary.maxPrice, row.unitPrice);
+    }
+  }
+
+  const sheet = (formData.get("sheet") as string | null) || null;
+  const [parsed, duplicateOf] = await Promise.all([
+    parseUpload(file, sheet, sampling, summarize),
+    hashFile(file).then((hash) => findDuplicateBatch(hash, sheet)),
+  ]);
+  summary.laneCount = lanes.size;
+  summary.vehicleTypes = Array.from(vehicleTypes, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const layout = parser.layout();
+  if (!layout) {
+    return { ...preview, fileError: parsed.errors[0] ?? "File is empty or has no data rows." };
+  }
+
+  const detected: Record<string, string | null> = {};
+  for (const field of MARKET_DATA_FIELDS) {
+    const index = layout.columns[field];
+    detected[field] = index !== undefined ? layout.headerRow[index] : null;
+  }
+  const missingFields = MARKET_DATA_FIELDS.filter(
+    (f) => detected[f] === null && !mapping?.defaults?.[f]?.trim()
+  );
+
+  return {
+    ...preview,
+    success: missingFields.length === 0 && preview.validCount > 0 && !duplicateOf,
+    duplicateOf,
+    headers: layout.headerRow,
+    headerRowNum: layout.headerRowNum,
+    sampleRows: records
+      .filter((r) => r.rowNum > layout.headerRowNum)
+      .slice(0, PREVIEW_SAMPLE_ROWS)
+      .map((r) => r.fields),
+    detected,
+    missingFields,
+    // A missing column is reported through missingFields, not as a row error
+    errorCount: missingFields.length > 0 ? 0 : parsed.errors.length,
+    errors: missingFields.length > 0 ? [] : parsed.errors.slice(0, 20),
+    warnings: parsed.warnings?.slice(0, 20) ?? [],
+    normalizations: parsed.normalizations?.slice(0, 20) ?? [],
+  };
+}
+
+/**
+ * Step 2: import the file as one ImportBatch. A file already imported is
+ * refused, and rows an earlier import (or the seed) already holds are skipped
+ * and listed, so overlapping broker exports do not count a price point twice.
+ * Identical rows within the file are kept: they can be separate shipments.
+ */
+export async function uploadMarketData(formData: FormData): Promise<UploadResult> {
+  const file = formData.get("file") as File | null;
+  if (!file) {
+    return { success: false, importedCount: 0, errorCount: 0, errors: ["No file provided."] };
+  }
+
+  const sheet = (formData.get("sheet") as string | null) || null;
+  const fileHash = await hashFile(file);
+  const duplicate = await findDuplicateBatch(fileHash, sheet);
+  if (duplicate) {
+    return { success: false, importedCount: 0, errorCount: 0, errors: [duplicateFileError(duplicate)] };
+  }
+
+  const options = await getCatalogParseOptions();
+  const uploader = (formData.get("uploader") as string | null)?.trim() || null;
+  const batch = await prisma.importBatch.create({
+    data: { fileName: file.name, sheetName: sheet, fileHash, rowCount: 0, uploader },
+  });
+  let importedCount = 0;
+  let skippedCount = 0;
+  const skippedRows: string[] = [];
+  const partitions = new Map<string, MarketPartition>();
+
+  // Rows are inserted batch by batch while a large file is still being read
+  async function insertRows(rows: MarketDataRow[]) {
+    const records = rows.map((row) => ({
+      date: toStoredDate(row.date),
       origin: row.origin,
       destination: row.destination,
       vehicleType: row.vehicleType,
       freightType: row.freightType,
       unitPrice: row.unitPrice,
+      batchId: batch.id,
     }));
 
     // Insert in chunks of 500 to avoid SQLite limits
     const CHUNK_SIZE = 500;
     for (let i = 0; i < records.length; i += CHUNK_SIZE) {
       const chunk = records.slice(i, i + CHUNK_SIZE);
-      await prisma.marketData.createMany({ data: chunk });
-    }
 
-    // Run analysis on all market data (including previously imported)
-    const allData = await prisma.marketData.findMany({
-      select: { origin: true, destination: true, vehicleType: true, unitPrice: true },
-    });
+      // Skip price points an earlier import (or the seed) already holds;
+      // rows this batch inserted from earlier chunks do not count
+      const existing = await prisma.marketData.findMany({
+        where: {
+          OR: chunk.map((r) => ({
+            date: r.date,
+            origin: r.origin,
+            destination: r.destination,
+            vehicleType: r.vehicleType,
+            freightType: r.freightType,
+            unitPrice: r.unitPrice,
+          })),
+        },
+        select: {
+          date: true,
+          origin: true,
+          destination: true,
+          vehicleType: true,
+          freightType: true,
+          unitPrice: true,
+          batchId: true,
+        },
+      });
+      const known = new Map<string, number | null>();
+      for (const e of existing) {
+        if (e.batchId !== batch.id) known.set(marketRowKey(e), e.batchId);
+      }
+      const fresh: typeof chunk = [];
+      for (const r of chunk) {
+        const key = marketRowKey(r);
+        if (!known.has(key)) {
+          fresh.push(r);
+          continue;
+        }
+        const source = known.get(key);
+        skippedRows.push(
+          `${formatRowDate(r.date)} ${r.origin} → ${r.destination}, ${r.vehicleType} ${r.freightType}, ` +
+            `₩${r.unitPrice.toLocaleString("ko-KR")}: already imported ${source === null ? "(seed data)" : `in batch #${source}`}`
+        );
+      }
+      skippedCount += chunk.length - fresh.length;
+
+      if (fresh.length > 0) await prisma.marketData.createMany({ data: fresh });
+      importedCount += fresh.length;
+      for (const p of marketPartitions(fresh)) {
+        partitions.set(`${p.originProvince}|${p.destinationProvince}|${p.vehicleType}`, p);
+      }
+    }
+  }
 
-    const dataPoints: PriceDataPoint[] = allData.map(
-      (d: { origin: string; destination: string; vehicleType: string; unitPrice: number }) => ({
-        origin: d.origin,
-        destination: d.destination,
-        vehicleType: d.vehicleType,
-        unitPrice: d.unitPrice,
-      })
+  try {
+    const parsed = await parseUpload(
+      file,
+      sheet,
+      createMarketDataParser(options, readColumnMapping(formData)),
+      insertRows
     );
 
-    const results = analyzeMarketData(dataPoints);
-    const analysis = summarizeAnalysis(results);
+    if (importedCount === 0) {
+      await prisma.importBatch.delete({ where: { id: batch.id } });
+      const errors = parsed.errors.slice(0, 20); // limit displayed errors
+      if (skippedCount > 0) {
+        errors.unshift(
+          `All ${skippedCount.toLocaleString()} valid rows are already in the market data from an earlier import.`,
+          ...skippedRows.slice(0, 20)
+        );
+      }
+      return {
+        success: false,
+        importedCount: 0,
+        errorCount: parsed.errors.length,
+        errors,
+        skippedCount,
+      };
+    }
+
+    await prisma.importBatch.update({
+      where: { id: batch.id },
+      data: { rowCount: importedCount, skippedCount, errorCount: parsed.errors.length },
+    });
+
+    // Re-analyse only the lanes this file touched, then summarise the whole cache
+    await refreshMarketMedians(Array.from(partitions.values()));
+    const analysis = summarizeAnalysis(await getMarketMedians());
 
     return {
       success: true,
-      importedCount: parsed.data.length,
+      importedCount,
       errorCount: parsed.errors.length,
       errors: parsed.errors.slice(0, 10),
+      warnings: parsed.warnings?.slice(0, 20),
+      normalizations: parsed.normalizations?.slice(0, 20),
+      skippedCount,
+      skippedRows: skippedRows.slice(0, 20),
+      batchId: batch.id,
       analysis,
     };
   } catch (error) {
+    // Leave nothing half-imported: the batch's rows go with it
+    await prisma.marketData.deleteMany({ where: { batchId: batch.id } }).catch(() => undefined);
+    await prisma.importBatch.delete({ where: { id: batch.id } }).catch(() => undefined);
     return {
       success: false,
       importedCount: 0,
@@ -103,8 +469,12 @@ export async function uploadCostMaster(formData: FormData): Promise<UploadResult
     return { success: false, importedCount: 0, errorCount: 0, errors: ["No file provided."] };
   }
 
-  const text = await file.text();
-  const parsed = parseCostMasterCsv(text);
+  const options = await getCatalogParseOptions();
+  const parsed = await parseUpload(
+    file,
+    formData.get("sheet") as string | null,
+    createCostMasterParser(options)
+  );
 
   if (parsed.errors.length > 0 && parsed.data.length === 0) {
     return {
@@ -119,30 +489,48 @@ export async function uploadCostMaster(formData: FormData): Promise<UploadResult
     let upsertedCount = 0;
 
     for (const row of parsed.data) {
-      await prisma.costMaster.upsert({
-        where: { item: row.item },
-        update: {
-          category: row.category,
-          value: row.value,
-          unit: row.unit,
-          description: row.description,
-        },
-        create: {
-          category: row.category,
-          item: row.item,
-          value: row.value,
-          unit: row.unit,
-          description: row.description,
-        },
+      // Prisma cannot upsert on a compound unique containing NULL (global rows),
+      // so look the row up by (item, vehicleType) first.
+      const existing = await prisma.costMaster.findFirst({
+        where: { item: row.item, vehicleType: row.vehicleType },
+        select: { id: true },
       });
+
+      if (existing) {
+        await prisma.costMaster.update({
+          where: { id: existing.id },
+          data: {
+            category: row.category,
+            value: row.value,
+            unit: row.unit,
+            description: row.description,
+          },
+        });
+      } else {
+        await prisma.costMaster.create({
+          data: {
+            category: row.category,
+            item: row.item,
+            vehicleType: row.vehicleType,
+            value: row.value,
+            unit: row.unit,
+            description: row.description,
+          },
+        });
+      }
       upsertedCount++;
     }
 
+    if (parsed.data.some((row) => row.item === MARKET_HALF_LIFE_ITEM || row.item === MARKET_RETENTION_ITEM)) {
+      await rebuildMarketMedians();
+    }
+
     return {
       success: true,
       importedCount: upsertedCount,
       errorCount: parsed.errors.length,
       errors: parsed.errors.slice(0, 10),
+      normalizations: parsed.normalizations?.slice(0, 20),
     };
   } catch (error) {
     return {
@@ -173,29 +561,41 @@ export async function getDataStats(): Promise<DataStats> {
   let recentAnalysis: AnalysisSummary | undefined;
 
   if (marketDataCount > 0) {
-    const allData = await prisma.marketData.findMany({
-      select: { origin: true, destination: true, vehicleType: true, unitPrice: true },
-    });
-
-    const dataPoints: PriceDataPoint[] = allData.map(
-      (d: { origin: string; destination: string; vehicleType: string; unitPrice: number }) => ({
-        origin: d.origin,
-        destination: d.destination,
-        vehicleType: d.vehicleType,
-        unitPrice: d.unitPrice,
-      })
-    );
-
-    const results = analyzeMarketData(dataPoints);
-    recentAnalysis = summarizeAnalysis(results);
+    recentAnalysis = summarizeAnalysis(await getMarketMedians());
   }
 
   return { marketDataCount, costMasterCount, routeStandardCount, recentAnalysis };
 }
 
+// ── Rebuild cache ────────────────────────────────────────────────
+
+/**
+ * Rebuild the MarketMedian and SeasonalIndex caches from MarketData, e.g. for
+ * data imported before the caches existed.
+ */
+export async function rebuildMarketCache(): Promise<{ success: boolean; cached?: number; error?: string }> {
+  try {
+    const cached = await rebuildMarketMedians();
+    revalidatePath("/data");
+    revalidatePath("/simulator");
+    return { success: true, cached };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
 // ── Clear data ───────────────────────────────────────────────────
 
+/**
+ * Delete every live market record. The archive is kept: it holds the
+ * long-term trend and cannot be rebuilt from anything else.
+ */
 export async function clearMarketData(): Promise<{ deleted: number }> {
   const { count } = await prisma.marketData.deleteMany();
+  await prisma.importBatch.deleteMany();
+  await clearMarketMedians();
   return { deleted: count };
 }
@@ -1,10 +1,40 @@
 import { getDataStats } from "@/app/data/_actions/upload";
+import { getSeasonalCorridors, getSeasonality } from "@/app/data/_actions/seasonality";
+import { getMappingProfiles } from "@/app/data/_actions/mapping-profiles";
+import { getImportBatches } from "@/app/data/_actions/import-batches";
+import { getMarketDataFilterOptions, getMarketDataPage } from "@/app/data/_actions/market-data";
+import { getCorridorTrend, getMarketRetention } from "@/app/data/_actions/retention";
+import { getCoverage, getCoverageVehicles } from "@/app/data/_actions/coverage";
 import { DataPageClient } from "@/components/data-page-client";
+import { SeasonalityChart } from "@/components/seasonality-chart";
+import { MarketTrendChart } from "@/components/market-trend-chart";
 
 export const dynamic = "force-dynamic";
 
 export default async function DataManagementPage() {
-  const stats = await getDataStats();
+  const [
+    stats,
+    corridors,
+    nationalProfile,
+    mappingProfiles,
+    batches,
+    marketPage,
+    marketFilterOptions,
+    retention,
+    coverageVehicleTypes,
+  ] = await Promise.all([
+    getDataStats(),
+    getSeasonalCorridors(),
+    getSeasonality(null),
+    getMappingProfiles(),
+    getImportBatches(),
+    getMarketDataPage(),
+    getMarketDataFilterOptions(),
+    getMarketRetention(),
+    getCoverageVehicles(),
+  ]);
+  const trend = corridors.length > 0 ? await getCorridorTrend(corridors[0], false) : [];
+  const coverage = coverageVehicleTypes.length > 0 ? await getCoverage(coverageVehicleTypes[0]) : null;
 
   return (
     <div className="space-y-6">
@@ -15,7 +45,18 @@ export default async function DataManagementPage() {
           standards.
         </p>
       </div>
-      <DataPageClient initialStats={stats} />
+      <DataPageClient
+        initialStats={stats}
+        mappingProfiles={mappingProfiles}
+        initialBatches={batches}
+        initialMarketPage={marketPage}
+        marketFilterOptions={marketFilterOptions}
+        retention={retention}
+        coverageVehicleTypes={coverageVehicleTypes}
+        initialCoverage={coverage}
+      />
+      <SeasonalityChart corridors={corridors} initialProfile={nationalProfile} />
+      <MarketTrendChart corridors={corridors} initialTrend={trend} />
     </div>
   );
 }
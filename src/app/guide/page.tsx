@@ -198,7 +198,7 @@ export default function GuidePage() {
                 <br />
                 Fuel Cost = (Distance / Fuel Efficiency) x Fuel Price
                 <br />
-                Toll Cost = Distance x Toll Rate
+                Toll Cost = Σ per loaded trip (Base Fee + Tolled Distance x Per-km Rate) x (1 − Night Discount)
                 <br />
                 Driver Profit = Operating Cost x Driver Profit Rate
                 <br />
@@ -211,6 +211,12 @@ export default function GuidePage() {
                     Vehicle Fuel Efficiency Table
                   </AccordionTrigger>
                   <AccordionContent>
+                    <p className="mb-2 text-sm text-muted-foreground">
+                      Default values of the vehicle catalog. Edit them, or add new
+                      tonnages, under Settings → Vehicle Types. Renaming a type
+                      renames it in the market data and cost variables too; a
+                      type still in use cannot be deleted.
+                    </p>
                     <div className="grid grid-cols-3 gap-2 text-xs">
                       {[
                         ["1t", "8.0 km/L"],
@@ -231,17 +237,93 @@ export default function GuidePage() {
                     </div>
                   </AccordionContent>
                 </AccordionItem>
+                <AccordionItem value="toll">
+                  <AccordionTrigger className="text-sm">
+                    Expressway Toll by Vehicle Class
+                  </AccordionTrigger>
+                  <AccordionContent>
+                    <p className="mb-2 text-sm text-muted-foreground">
+                      The toll follows the vehicle&apos;s toll class (1–5, by axle count). Each
+                      loaded trip on a toll road pays the class base fee once — every stop leaves
+                      the expressway, so each leg counts — plus the per-km rate on its tolled
+                      distance. Rates and discounts are edited under Settings → Tolls; a class with
+                      no rate falls back to the average toll_rate with no base fee.
+                    </p>
+                    <div className="grid grid-cols-3 gap-2 text-xs">
+                      {[
+                        ["Class 1 (1t)", "900 + 44.3/km"],
+                        ["Class 2 (2.5–3.5t)", "900 + 45.2/km"],
+                        ["Class 3 (5–11t)", "900 + 47.0/km"],
+                        ["Class 4 (15–18t)", "900 + 62.9/km"],
+                        ["Class 5 (25t)", "900 + 74.4/km"],
+                      ].map(([cls, rate]) => (
+                        <div key={cls} className="flex justify-between rounded border px-2 py-1.5">
+                          <span className="font-medium">{cls}</span>
+                          <span className="text-muted-foreground">{rate}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="mt-2 text-sm text-muted-foreground">
+                      Freight night discounts match the pickup time: −30% from 21:00 to 06:00 and
+                      −50% from 00:00 to 05:00; the highest matching rule applies. The empty return
+                      leg is charged the full toll.
+                    </p>
+                  </AccordionContent>
+                </AccordionItem>
                 <AccordionItem value="distance">
                   <AccordionTrigger className="text-sm">
                     Route Distance Calculation
                   </AccordionTrigger>
                   <AccordionContent className="text-sm text-muted-foreground">
                     <p>
-                      Distance is determined by a lookup table of 35+ major Korean
+                      Locations may be typed in Korean or English, with or without the
+                      시/군/구 or 광역시/특별시 suffix (&ldquo;서울 강남구&rdquo;, &ldquo;부산광역시 해운대구&rdquo;,
+                      &ldquo;Seoul / Gangnam-gu&rdquo;). The simulators and the CSV importers convert them to
+                      one canonical Province/District name, so market data for the same place is
+                      pooled. Names that cannot be resolved are used as typed and reported as a
+                      warning (simulators) or under Unresolved Locations (imports).
+                    </p>
+                    <p>
+                      Full street addresses (&ldquo;경기도 평택시 포승읍 평택항로 184&rdquo;) and 5-digit
+                      postal codes work too: building numbers are ignored and the si/gun/gu in the
+                      address is used. A postal code alone locates the district in Seoul, Busan,
+                      Incheon, Sejong and Jeju, and the province elsewhere; such a location is
+                      flagged with a warning, since it is priced from province-level market data.
+                      Add the si/gun/gu to the address to price the exact district.
+                    </p>
+                    <p>
+                      Distances measured by dispatch can be entered (or imported from CSV)
+                      under Settings → Road Distances. An override always wins over the
+                      estimates below and covers the reverse direction unless marked
+                      one-way; the breakdown then shows the source as &ldquo;manual override&rdquo;.
+                    </p>
+                    <p>
+                      When both ends are given as Province/District (e.g. Gyeonggi/Pyeongtaek),
+                      the route is found on a built-in expressway and national-road graph:
+                      each district centroid (from a gazetteer of every si/gun/gu) connects
+                      to its nearest interchanges, and the fastest path is taken. The path
+                      gives the distance, the expressway segments, the tolled distance used
+                      for the toll cost, and the driving time of an empty return.
+                    </p>
+                    <p>
+                      Trips within one district fall back to the Haversine formula between
+                      district centroids (great-circle distance multiplied by a 1.3x road
+                      factor). Routes to and from Jeju or Ulleung are not routed, since they
+                      involve a ferry.
+                    </p>
+                    <p>
+                      Otherwise distance is determined by a lookup table of 35+ major Korean
                       freight corridors. If the route is not found in the table, the
-                      system falls back to a Haversine formula (great-circle distance
-                      multiplied by a 1.3x road factor). Routes within the same
-                      province default to 30 km.
+                      system falls back to the Haversine formula between province
+                      centroids. Province-only routes within the same province default to 30 km.
+                    </p>
+                    <p>
+                      The road graph and the corridor table are two of the distance providers
+                      listed under Settings → Road Distances. A self-hosted OSRM-compatible
+                      routing service can be added and placed anywhere in the order; its answers
+                      are cached in the database (shown as &ldquo;routing service&rdquo;), and a
+                      provider that can&apos;t answer — e.g. the service is down — hands the lane
+                      to the next one.
                     </p>
                   </AccordionContent>
                 </AccordionItem>
@@ -297,22 +379,36 @@ export default function GuidePage() {
                       </li>
                     </ul>
                     <p>
-                      If province-level fallback data is used instead of exact route data,
-                      the confidence score is penalized by a 0.7x multiplier.
+                      Fallback data is penalized by level: 0.7x for province, 0.5x for
+                      regional bloc and 0.3x for the national per-km rate.
                     </p>
                   </AccordionContent>
                 </AccordionItem>
                 <AccordionItem value="fallback">
                   <AccordionTrigger className="text-sm">
-                    Province-Level Fallback Strategy
+                    Fallback Hierarchy
                   </AccordionTrigger>
                   <AccordionContent className="text-sm text-muted-foreground">
                     <p>
                       When a specific route (e.g., Seoul/Gangnam to Busan/Haeundae)
-                      has fewer than 5 data points, the system automatically aggregates
-                      all routes between the same provinces (Seoul to Busan) to form a
-                      broader market reference. This fallback is flagged in the results
-                      and carries a reduced confidence score.
+                      has fewer than 5 data points, the system widens the market
+                      reference one level at a time until a level has at least 5:
+                    </p>
+                    <ol className="list-decimal pl-4 space-y-1">
+                      <li><strong>Province:</strong> all routes between the same provinces (Seoul to Busan).</li>
+                      <li>
+                        <strong>Regional bloc:</strong> all routes between the same blocs — Capital,
+                        Chungcheong, Yeongnam, Honam, Gangwon and Jeju (Capital to Yeongnam).
+                      </li>
+                      <li>
+                        <strong>National:</strong> the median KRW/km rate of the vehicle type,
+                        multiplied by the route distance. It is taken over each lane&apos;s
+                        monthly average price, weighted by the number of records.
+                      </li>
+                    </ol>
+                    <p>
+                      The level used is shown in the results and carries a reduced
+                      confidence score.
                     </p>
                   </AccordionContent>
                 </AccordionItem>
@@ -369,6 +465,10 @@ export default function GuidePage() {
                     <span>20%</span>
                   </div>
                 </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Defaults from the FreightClass table (Settings → Freight Classes). Freight types match a
+                  class by name or alias (e.g. &quot;냉동&quot; → Refrigerated); unknown types are rejected.
+                </p>
               </div>
 
               <Accordion type="single" collapsible>
@@ -479,7 +579,7 @@ export default function GuidePage() {
               <p className="text-xs text-muted-foreground">
                 The system requires at least 5 records per route for direct
                 analysis. Below that threshold, data is aggregated at the
-                province level as a fallback.
+                province, regional bloc or national level as a fallback.
               </p>
             </CardContent>
           </Card>
@@ -509,13 +609,12 @@ export default function GuidePage() {
                   <tbody className="divide-y">
                     <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Variable</Badge></td><td className="py-1.5 pr-3 font-mono">fuel_price</td><td className="py-1.5 pr-3">1,650 KRW/L</td><td className="py-1.5 text-muted-foreground">Diesel price per liter</td></tr>
                     <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Variable</Badge></td><td className="py-1.5 pr-3 font-mono">fuel_efficiency</td><td className="py-1.5 pr-3">3.5 km/L</td><td className="py-1.5 text-muted-foreground">Default efficiency (overridden per vehicle)</td></tr>
-                    <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Variable</Badge></td><td className="py-1.5 pr-3 font-mono">toll_rate</td><td className="py-1.5 pr-3">120 KRW/km</td><td className="py-1.5 text-muted-foreground">Average toll cost per km</td></tr>
+                    <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Variable</Badge></td><td className="py-1.5 pr-3 font-mono">toll_rate</td><td className="py-1.5 pr-3">120 KRW/km</td><td className="py-1.5 text-muted-foreground">Average toll per km, for vehicle classes without a toll rate</td></tr>
                     <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Fixed</Badge></td><td className="py-1.5 pr-3 font-mono">vehicle_fixed_cost</td><td className="py-1.5 pr-3">150,000 KRW</td><td className="py-1.5 text-muted-foreground">Depreciation + insurance per trip</td></tr>
                     <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Policy</Badge></td><td className="py-1.5 pr-3 font-mono">driver_profit_rate</td><td className="py-1.5 pr-3">15%</td><td className="py-1.5 text-muted-foreground">Guaranteed driver income share</td></tr>
                     <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Policy</Badge></td><td className="py-1.5 pr-3 font-mono">company_margin_rate</td><td className="py-1.5 pr-3">8%</td><td className="py-1.5 text-muted-foreground">Dowoo Logistics profit margin</td></tr>
-                    <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Risk</Badge></td><td className="py-1.5 pr-3 font-mono">freight_risk_fragile</td><td className="py-1.5 pr-3">12%</td><td className="py-1.5 text-muted-foreground">Surcharge for fragile goods</td></tr>
-                    <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Risk</Badge></td><td className="py-1.5 pr-3 font-mono">freight_risk_refrigerated</td><td className="py-1.5 pr-3">15%</td><td className="py-1.5 text-muted-foreground">Surcharge for cold chain</td></tr>
-                    <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Risk</Badge></td><td className="py-1.5 pr-3 font-mono">freight_risk_hazardous</td><td className="py-1.5 pr-3">20%</td><td className="py-1.5 text-muted-foreground">Surcharge for dangerous goods</td></tr>
+                    <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Policy</Badge></td><td className="py-1.5 pr-3 font-mono">market_half_life_days</td><td className="py-1.5 pr-3">90 days</td><td className="py-1.5 text-muted-foreground">Market data this old counts half in Tier 2</td></tr>
+                    <tr><td className="py-1.5 pr-3"><Badge variant="outline" className="text-xs">Policy</Badge></td><td className="py-1.5 pr-3 font-mono">market_retention_months</td><td className="py-1.5 pr-3">12 months</td><td className="py-1.5 text-muted-foreground">Older market data is left out of Tier 2 and archived</td></tr>
                   </tbody>
                 </table>
               </div>
@@ -617,12 +716,36 @@ export default function GuidePage() {
                 Click &quot;Data Management&quot; in the sidebar to access the
                 import and statistics interface.
               </StepItem>
-              <StepItem step={2} title="Upload Market Data CSV">
+              <StepItem step={2} title="Upload Market Data CSV or Excel">
                 Use the &quot;Market Data&quot; tab to drag-and-drop or browse
                 for a CSV file containing historical pricing records. The system
                 accepts flexible column names (e.g., &quot;departure&quot; maps
                 to &quot;origin&quot;, &quot;fare&quot; maps to
-                &quot;unitPrice&quot;).
+                &quot;unitPrice&quot;), including Korean headers such as
+                날짜, 출발지, 도착지, 차종, 화물종류 and 운임. Values are read as
+                Korean sheets write them — &quot;11톤&quot; or &quot;11T&quot;
+                becomes 11t, &quot;2024.01.15&quot; or &quot;20240115&quot; a
+                date, &quot;85만원&quot; 850,000 KRW — and the import result
+                lists every kind of value it rewrote.
+                Excel workbooks (.xlsx) can be uploaded as they are: pick the
+                sheet, and date and number cells are read with their types.
+                Title rows and merged group headers above the column headers
+                are skipped. CSV files may be saved as UTF-8 or as EUC-KR/CP949
+                (Korean Excel&apos;s &quot;CSV&quot;); the encoding is detected,
+                quoted fields may span lines, and large exports are imported
+                while they upload.
+                Press &quot;Preview&quot; first: it shows the first rows, which
+                column feeds each field, row errors and a summary of the valid
+                rows. Reassign columns, or give a default for a column the file
+                lacks (e.g. freightType = General), re-check, then import. Save
+                the mapping as a profile named after the data source to reuse
+                it for that broker&apos;s next file.
+                Every import is recorded as a batch in the Import History. A
+                file that was already imported is refused, and rows an earlier
+                import already holds (same date, lane, vehicle, freight and
+                price) are left out and listed in the result. Identical rows
+                within one file are kept as separate shipments. Roll a batch
+                back to remove exactly the records it added.
               </StepItem>
               <StepItem step={3} title="Upload Cost Master CSV (optional)">
                 Switch to the &quot;Cost Master&quot; tab to bulk-import cost
@@ -631,7 +754,35 @@ export default function GuidePage() {
               </StepItem>
               <StepItem step={4} title="Verify statistics">
                 After import, the Statistics tab shows record counts, IQR
-                analysis results, and route coverage summaries.
+                analysis results, and route coverage summaries. If records
+                were loaded straight into the database (not through an
+                import), click &quot;Rebuild Cache&quot; to analyse them.
+              </StepItem>
+              <StepItem step={5} title="Browse and correct market data">
+                The &quot;Browse Market Data&quot; tab lists records filtered by
+                date range, origin/destination, vehicle, freight type and import
+                batch. Edit or delete single records, delete everything matching
+                the filter, or flag a record as an outlier: flagged records stay
+                in the table but are left out of the medians whatever the IQR
+                filter would make of them. Affected lanes are re-analysed right
+                away.
+              </StepItem>
+              <StepItem step={6} title="Retention and archive">
+                Tier 2 only analyses the last market_retention_months months
+                (12 by default; 0 keeps everything). &quot;Archive expired
+                records&quot; in the Retention card moves older records to the
+                archive. The Price Trend chart shows the active window, or the
+                whole history with &quot;Include archive&quot;. Clearing the
+                market data leaves the archive in place.
+              </StepItem>
+              <StepItem step={7} title="Find thin coverage">
+                The &quot;Coverage&quot; tab shows an origin × destination
+                province grid for one vehicle type. Each cell shows the number
+                of analysed samples. Green cells have route medians, darker
+                for higher confidence. Amber cells only have the province
+                median. Red cells have samples but too few for a median, and
+                grey cells have none. Click a cell to see its route results
+                and the lanes that need more broker data.
               </StepItem>
             </CardContent>
           </Card>
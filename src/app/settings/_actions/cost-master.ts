@@ -2,11 +2,13 @@
 
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
+import { MARKET_HALF_LIFE_ITEM, MARKET_RETENTION_ITEM, rebuildMarketMedians } from "@/lib/market-median";
 
 export interface CostMasterItem {
   id: number;
   category: string;
   item: string;
+  vehicleType: string | null; // null = global default
   value: number;
   unit: string;
   description: string;
@@ -14,31 +16,67 @@ export interface CostMasterItem {
 
 export async function getCostMasterItems(): Promise<CostMasterItem[]> {
   const items = await prisma.costMaster.findMany({
-    orderBy: [{ category: "asc" }, { item: "asc" }],
+    orderBy: [{ category: "asc" }, { item: "asc" }, { vehicleType: "asc" }],
   });
-  return items.map((i: { id: number; category: string; item: string; value: number; unit: string; description: string }) => ({
+  return items.map((i: { id: number; category: string; item: string; vehicleType: string | null; value: number; unit: string; description: string }) => ({
     id: i.id,
     category: i.category,
     item: i.item,
+    vehicleType: i.vehicleType,
     value: i.value,
     unit: i.unit,
     description: i.description,
   }));
 }
 
+/**
+ * Cached market medians are weighted with the half-life and limited to the
+ * retention window, so changing either invalidates the whole cache.
+ */
+async function rebuildIfHalfLife(item: string): Promise<void> {
+  if (item === MARKET_HALF_LIFE_ITEM || item === MARKET_RETENTION_ITEM) {
+    await rebuildMarketMedians();
+  }
+}
+
+/**
+ * SQLite treats NULLs as distinct in the (item, vehicleType) unique index,
+ * so a duplicate global row has to be caught here. Returns an error message
+ * if another row already holds the key, or null.
+ */
+async function findDuplicateItem(
+  item: string,
+  vehicleType: string | null,
+  excludeId?: number
+): Promise<string | null> {
+  const existing = await prisma.costMaster.findFirst({
+    where: { item, vehicleType, ...(excludeId !== undefined && { id: { not: excludeId } }) },
+  });
+  return existing ? `"${item}" already exists for ${vehicleType ?? "all vehicles"}` : null;
+}
+
 export async function updateCostMasterItem(
   id: number,
-  data: { value: number; unit?: string; description?: string }
+  data: { value: number; vehicleType?: string | null; unit?: string; description?: string }
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    await prisma.costMaster.update({
+    if (data.vehicleType !== undefined) {
+      const current = await prisma.costMaster.findUnique({ where: { id } });
+      if (!current) return { success: false, error: "Item not found" };
+      const duplicate = await findDuplicateItem(current.item, data.vehicleType || null, id);
+      if (duplicate) return { success: false, error: duplicate };
+    }
+
+    const updated = await prisma.costMaster.update({
       where: { id },
       data: {
         value: data.value,
+        ...(data.vehicleType !== undefined && { vehicleType: data.vehicleType || null }),
         ...(data.unit !== undefined && { unit: data.unit }),
         ...(data.description !== undefined && { description: data.description }),
       },
     });
+    await rebuildIfHalfLife(updated.item);
     revalidatePath("/settings");
     return { success: true };
   } catch (error) {
@@ -52,12 +90,18 @@ export async function updateCostMasterItem(
 export async function createCostMasterItem(data: {
   category: string;
   item: string;
+  vehicleType?: string | null;
   value: number;
   unit: string;
   description: string;
 }): Promise<{ success: boolean; error?: string }> {
   try {
-    await prisma.costMaster.create({ data });
+    const vehicleType = data.vehicleType || null;
+    const duplicate = await findDuplicateItem(data.item, vehicleType);
+    if (duplicate) return { success: false, error: duplicate };
+
+    await prisma.costMaster.create({ data: { ...data, vehicleType } });
+    await rebuildIfHalfLife(data.item);
     revalidatePath("/settings");
     return { success: true };
   } catch (error) {
@@ -72,7 +116,8 @@ export async function deleteCostMasterItem(
   id: number
 ): Promise<{ success: boolean; error?: string }> {
   try {
-    await prisma.costMaster.delete({ where: { id } });
+    const deleted = await prisma.costMaster.delete({ where: { id } });
+    await rebuildIfHalfLife(deleted.item);
     revalidatePath("/settings");
     return { success: true };
   } catch (error) {
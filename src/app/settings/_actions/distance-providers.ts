@@ -0,0 +1,89 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { setAppSetting } from "@/lib/app-settings";
+import {
+  clearDistanceCache,
+  DISTANCE_PROVIDER_IDS,
+  DISTANCE_PROVIDER_LABELS,
+  getDistanceCacheCount,
+  getDistanceProviderSettings,
+  PROVIDER_ORDER_SETTING,
+  ROUTING_URL_SETTING,
+  type DistanceProviderId,
+} from "@/lib/distance-providers";
+import { refreshNationalRates } from "@/lib/market-median";
+
+export interface DistanceProviderConfig {
+  order: DistanceProviderId[];
+  routingUrl: string | null;
+  providers: { id: DistanceProviderId; label: string }[];
+  cachedCount: number;
+}
+
+export async function getDistanceProviderConfig(): Promise<DistanceProviderConfig> {
+  const [settings, cachedCount] = await Promise.all([
+    getDistanceProviderSettings(),
+    getDistanceCacheCount(),
+  ]);
+  return {
+    ...settings,
+    providers: DISTANCE_PROVIDER_IDS.map((id) => ({ id, label: DISTANCE_PROVIDER_LABELS[id] })),
+    cachedCount,
+  };
+}
+
+/**
+ * National per-km market rates are computed from route distances, so they
+ * are refreshed whenever the providers change.
+ */
+async function afterChange() {
+  await refreshNationalRates();
+  revalidatePath("/settings");
+  revalidatePath("/simulator");
+}
+
+export async function updateDistanceProviders(
+  order: DistanceProviderId[],
+  routingUrl: string | null
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (order.some((id) => !DISTANCE_PROVIDER_IDS.includes(id))) {
+      return { success: false, error: "Unknown distance provider" };
+    }
+    const url = routingUrl?.trim() || null;
+    if (url && !/^https?:\/\/\S+$/.test(url)) {
+      return { success: false, error: "Routing URL must start with http:// or https://" };
+    }
+    if (order.includes("http") && !url) {
+      return { success: false, error: "Set a routing URL to enable the HTTP routing service" };
+    }
+
+    const previous = await getDistanceProviderSettings();
+    await setAppSetting(PROVIDER_ORDER_SETTING, JSON.stringify(order));
+    await setAppSetting(ROUTING_URL_SETTING, url ?? "");
+    // The old service's cached distances are no longer read; drop them
+    if (url !== previous.routingUrl) await clearDistanceCache();
+
+    await afterChange();
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function clearCachedDistances(): Promise<{ success: boolean; error?: string }> {
+  try {
+    await clearDistanceCache();
+    await afterChange();
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
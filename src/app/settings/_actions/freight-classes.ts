@@ -0,0 +1,101 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { getFreightClasses as getFreightCatalog } from "@/lib/freight-catalog";
+import { normalizeFreightKey, type FreightClassSpec } from "@/lib/freight-class";
+
+export type FreightClassInput = Omit<FreightClassSpec, "id">;
+
+export async function getFreightClasses(): Promise<FreightClassSpec[]> {
+  return getFreightCatalog();
+}
+
+/**
+ * Each name/alias must resolve to exactly one class. Returns the first
+ * spelling already used by another class, or null.
+ */
+async function findAliasConflict(
+  data: Pick<FreightClassInput, "name" | "aliases">,
+  excludeId?: number
+): Promise<string | null> {
+  const others = (await getFreightCatalog()).filter((c) => c.id !== excludeId);
+  const taken = new Map<string, string>();
+  for (const c of others) {
+    for (const spelling of [c.name, ...c.aliases]) {
+      taken.set(normalizeFreightKey(spelling), c.name);
+    }
+  }
+
+  for (const spelling of [data.name, ...data.aliases]) {
+    const owner = taken.get(normalizeFreightKey(spelling));
+    if (owner) return `"${spelling}" is already used by ${owner}`;
+  }
+  return null;
+}
+
+function toRow(data: Partial<FreightClassInput>) {
+  const { aliases, ...rest } = data;
+  return aliases === undefined ? rest : { ...rest, aliases: aliases.join(",") };
+}
+
+export async function createFreightClass(
+  data: FreightClassInput
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const conflict = await findAliasConflict({ name: data.name, aliases: data.aliases ?? [] });
+    if (conflict) return { success: false, error: conflict };
+
+    await prisma.freightClass.create({ data: { ...data, aliases: (data.aliases ?? []).join(",") } });
+    revalidatePath("/settings");
+    revalidatePath("/simulator");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function updateFreightClass(
+  id: number,
+  data: Partial<FreightClassInput>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (data.name !== undefined || data.aliases !== undefined) {
+      const current = (await getFreightCatalog()).find((c) => c.id === id);
+      const conflict = await findAliasConflict(
+        { name: data.name ?? current?.name ?? "", aliases: data.aliases ?? current?.aliases ?? [] },
+        id
+      );
+      if (conflict) return { success: false, error: conflict };
+    }
+
+    await prisma.freightClass.update({ where: { id }, data: toRow(data) });
+    revalidatePath("/settings");
+    revalidatePath("/simulator");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function deleteFreightClass(
+  id: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await prisma.freightClass.delete({ where: { id } });
+    revalidatePath("/settings");
+    revalidatePath("/simulator");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,162 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { createRouteDistanceParser, parseCsvStream, type RouteDistanceRow } from "@/lib/csv-parser";
+import { getDistanceOverrides, type RouteDistanceOverride } from "@/lib/distance-overrides";
+import { refreshNationalRates } from "@/lib/market-median";
+import { canonicalLocation } from "@/lib/location";
+import type { UploadResult } from "@/app/data/_actions/upload";
+
+export type RouteDistanceInput = RouteDistanceRow;
+
+export async function getRouteDistances(): Promise<RouteDistanceOverride[]> {
+  return getDistanceOverrides();
+}
+
+/**
+ * National per-km market rates are computed from route distances, so they
+ * are refreshed whenever an override changes.
+ */
+async function afterChange() {
+  await refreshNationalRates();
+  revalidatePath("/settings");
+  revalidatePath("/simulator");
+}
+
+/**
+ * Store the lane under canonical location ids, as the engine looks it up.
+ */
+function withCanonicalLane<T extends Partial<RouteDistanceInput>>(data: T): T {
+  return {
+    ...data,
+    ...(data.origin !== undefined ? { origin: canonicalLocation(data.origin) } : {}),
+    ...(data.destination !== undefined ? { destination: canonicalLocation(data.destination) } : {}),
+  };
+}
+
+/**
+ * Returns an error message, or null if the override is valid. Mirrors the
+ * checks of the CSV import (createRouteDistanceParser).
+ */
+function validateLane(data: Partial<RouteDistanceInput>): string | null {
+  if (data.origin !== undefined && !data.origin.trim()) return "Origin is required";
+  if (data.destination !== undefined && !data.destination.trim()) return "Destination is required";
+  if (data.origin !== undefined && data.origin === data.destination) return "Origin and destination are the same";
+  if (data.distanceKm !== undefined && !(data.distanceKm > 0 && Number.isFinite(data.distanceKm))) {
+    return "Distance must be a positive number of km";
+  }
+  return null;
+}
+
+export async function createRouteDistance(
+  input: RouteDistanceInput
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const data = withCanonicalLane(input);
+    const invalid = validateLane(data);
+    if (invalid) return { success: false, error: invalid };
+    const existing = await prisma.routeDistance.findUnique({
+      where: { origin_destination: { origin: data.origin, destination: data.destination } },
+    });
+    if (existing) {
+      return { success: false, error: `${data.origin} → ${data.destination} already has an override` };
+    }
+
+    await prisma.routeDistance.create({ data });
+    await afterChange();
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function updateRouteDistance(
+  id: number,
+  data: Partial<RouteDistanceInput>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const current = await prisma.routeDistance.findUnique({ where: { id } });
+    if (!current) return { success: false, error: "Override not found" };
+    const lane = withCanonicalLane(data);
+    // Check the lane as it will be stored, not only the fields being changed
+    const invalid = validateLane({ ...current, ...lane });
+    if (invalid) return { success: false, error: invalid };
+
+    await prisma.routeDistance.update({ where: { id }, data: lane });
+    await afterChange();
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function deleteRouteDistance(
+  id: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await prisma.routeDistance.delete({ where: { id } });
+    await afterChange();
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Import overrides from CSV. Rows for a lane that already has an override
+ * replace it.
+ */
+export async function importRouteDistances(formData: FormData): Promise<UploadResult> {
+  const file = formData.get("file") as File | null;
+  if (!file) {
+    return { success: false, importedCount: 0, errorCount: 0, errors: ["No file provided."] };
+  }
+
+  const parsed = await parseCsvStream(file.stream(), createRouteDistanceParser());
+  if (parsed.data.length === 0) {
+    return {
+      success: false,
+      importedCount: 0,
+      errorCount: parsed.errors.length,
+      errors: parsed.errors.slice(0, 20),
+    };
+  }
+
+  try {
+    await prisma.$transaction(
+      parsed.data.map((row: RouteDistanceRow) =>
+        prisma.routeDistance.upsert({
+          where: { origin_destination: { origin: row.origin, destination: row.destination } },
+          create: row,
+          update: row,
+        })
+      )
+    );
+    await afterChange();
+
+    return {
+      success: true,
+      importedCount: parsed.data.length,
+      errorCount: parsed.errors.length,
+      errors: parsed.errors.slice(0, 20),
+      warnings: parsed.warnings?.slice(0, 20),
+    };
+  } catch (error) {
+    return {
+      success: false,
+      importedCount: 0,
+      errorCount: 1,
+      errors: [`Database error: ${error instanceof Error ? error.message : "Unknown error"}`],
+    };
+  }
+}
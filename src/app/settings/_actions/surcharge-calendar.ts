@@ -0,0 +1,95 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { getSurchargeRules, parsePickupAt, SURCHARGE_KINDS, type SurchargeRule } from "@/lib/surcharge-calendar";
+
+export type SurchargeRuleInput = Omit<SurchargeRule, "id">;
+
+export async function getSurchargeCalendar(): Promise<SurchargeRule[]> {
+  return getSurchargeRules();
+}
+
+/**
+ * Dated rules need an end date for the range query; default it to the start.
+ */
+function normalizeRule<T extends Partial<SurchargeRuleInput>>(data: T): T {
+  if (data.startDate && !data.endDate) {
+    return { ...data, endDate: data.startDate };
+  }
+  return data;
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && parsePickupAt(value) !== null;
+}
+
+/**
+ * Returns an error message, or null if the rule is valid.
+ */
+function validateRule(data: Partial<SurchargeRuleInput>): string | null {
+  const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (data.kind !== undefined && !SURCHARGE_KINDS.includes(data.kind)) return `Unknown rule kind "${data.kind}"`;
+  if (data.startDate && !isDate(data.startDate)) return "Start date must be a valid YYYY-MM-DD date";
+  if (data.endDate && !isDate(data.endDate)) return "End date must be a valid YYYY-MM-DD date";
+  if (data.startDate && data.endDate && data.endDate < data.startDate) return "End date cannot be before the start date";
+  if (data.startTime && !time.test(data.startTime)) return "Start time must be HH:MM";
+  if (data.endTime && !time.test(data.endTime)) return "End time must be HH:MM";
+  if (data.daysOfWeek && data.daysOfWeek.split(",").some((d) => !/^\s*[0-6]\s*$/.test(d))) {
+    return "Days of week must be a comma list of 0–6 (0 = Sunday)";
+  }
+  if (data.rate !== undefined && !(data.rate >= 0 && data.rate <= 1)) {
+    return "Rate must be between 0 and 100%";
+  }
+  return null;
+}
+
+export async function createSurchargeRule(
+  data: SurchargeRuleInput
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const invalid = validateRule(data);
+    if (invalid) return { success: false, error: invalid };
+    await prisma.surchargeCalendar.create({ data: normalizeRule(data) });
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function updateSurchargeRule(
+  id: number,
+  data: Partial<SurchargeRuleInput>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const invalid = validateRule(data);
+    if (invalid) return { success: false, error: invalid };
+    await prisma.surchargeCalendar.update({ where: { id }, data: normalizeRule(data) });
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function deleteSurchargeRule(
+  id: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await prisma.surchargeCalendar.delete({ where: { id } });
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
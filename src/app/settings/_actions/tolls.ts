@@ -0,0 +1,113 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import {
+  getTollDiscountRules,
+  getTollRates,
+  TOLL_CLASSES,
+  type TollDiscountRule,
+  type TollRateSpec,
+} from "@/lib/toll";
+
+export type TollRateInput = Omit<TollRateSpec, "id">;
+export type TollDiscountRuleInput = Omit<TollDiscountRule, "id">;
+
+export async function getTollTariffs(): Promise<{ rates: TollRateSpec[]; rules: TollDiscountRule[] }> {
+  const [rates, rules] = await Promise.all([getTollRates(), getTollDiscountRules()]);
+  return { rates, rules };
+}
+
+/**
+ * Set the tariff of a toll class, creating its row if the class had none.
+ */
+export async function saveTollRate(
+  data: TollRateInput
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    if (!TOLL_CLASSES.includes(data.tollClass)) {
+      return { success: false, error: "Toll class must be 1–5" };
+    }
+    if (data.baseFee < 0 || data.perKmRate < 0) {
+      return { success: false, error: "Rates cannot be negative" };
+    }
+    await prisma.tollRate.upsert({
+      where: { tollClass: data.tollClass },
+      create: data,
+      update: data,
+    });
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Returns an error message, or null if the rule is valid.
+ */
+function validateRule(data: Partial<TollDiscountRuleInput>): string | null {
+  const time = /^([01]\d|2[0-3]):[0-5]\d$/;
+  if (data.startTime !== undefined && !time.test(data.startTime)) return "Start time must be HH:MM";
+  if (data.endTime !== undefined && !time.test(data.endTime)) return "End time must be HH:MM";
+  if (data.discountRate !== undefined && (data.discountRate <= 0 || data.discountRate > 1)) {
+    return "Discount must be between 0 and 100%";
+  }
+  if (data.tollClasses && data.tollClasses.split(",").some((c) => !TOLL_CLASSES.includes(Number(c)))) {
+    return "Toll classes must be a comma list of 1–5";
+  }
+  return null;
+}
+
+export async function createTollDiscountRule(
+  data: TollDiscountRuleInput
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const invalid = validateRule(data);
+    if (invalid) return { success: false, error: invalid };
+    await prisma.tollDiscountRule.create({ data });
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function updateTollDiscountRule(
+  id: number,
+  data: Partial<TollDiscountRuleInput>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const invalid = validateRule(data);
+    if (invalid) return { success: false, error: invalid };
+    await prisma.tollDiscountRule.update({ where: { id }, data });
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export async function deleteTollDiscountRule(
+  id: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await prisma.tollDiscountRule.delete({ where: { id } });
+    revalidatePath("/settings");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -0,0 +1,114 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { getVehicleCatalog, type VehicleSpec } from "@/lib/vehicle-catalog";
+
+export type VehicleTypeInput = Omit<VehicleSpec, "id">;
+
+export async function getVehicleTypes(): Promise<VehicleSpec[]> {
+  return getVehicleCatalog();
+}
+
+export async function createVehicleType(
+  data: VehicleTypeInput
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    await prisma.vehicleType.create({ data });
+    revalidatePath("/settings");
+    revalidatePath("/simulator");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Rows that refer to a vehicle type by name, per table; tables without any
+ * are left out.
+ */
+async function vehicleTypeReferences(name: string): Promise<string[]> {
+  const where = { vehicleType: name };
+  const counts = await Promise.all([
+    prisma.marketData.count({ where }).then((n) => [n, "market records"] as const),
+    prisma.marketDataArchive.count({ where }).then((n) => [n, "archived market records"] as const),
+    prisma.marketMedian.count({ where }).then((n) => [n, "market medians"] as const),
+    prisma.costMaster.count({ where }).then((n) => [n, "cost variables"] as const),
+    prisma.routeStandard.count({ where }).then((n) => [n, "route standards"] as const),
+    prisma.seasonalIndex.count({ where }).then((n) => [n, "seasonal indices"] as const),
+  ]);
+  return counts.filter(([n]) => n > 0).map(([n, label]) => `${n.toLocaleString()} ${label}`);
+}
+
+/**
+ * Update a vehicle type. A rename is carried through to every table that
+ * refers to the type by name, in the same transaction.
+ */
+export async function updateVehicleType(
+  id: number,
+  data: Partial<VehicleTypeInput>
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const current = await prisma.vehicleType.findUnique({ where: { id } });
+    if (!current) return { success: false, error: "Vehicle type not found" };
+
+    const rename = data.name !== undefined && data.name !== current.name;
+    if (rename && !data.name?.trim()) return { success: false, error: "Name is required" };
+
+    const from = { where: { vehicleType: current.name }, data: { vehicleType: data.name } };
+    await prisma.$transaction([
+      prisma.vehicleType.update({ where: { id }, data }),
+      ...(rename
+        ? [
+            prisma.marketData.updateMany(from),
+            prisma.marketDataArchive.updateMany(from),
+            prisma.marketMedian.updateMany(from),
+            prisma.costMaster.updateMany(from),
+            prisma.routeStandard.updateMany(from),
+            prisma.seasonalIndex.updateMany(from),
+          ]
+        : []),
+    ]);
+    revalidatePath("/settings");
+    revalidatePath("/simulator");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+/**
+ * Delete a vehicle type. Refused while any data still refers to it by name.
+ */
+export async function deleteVehicleType(
+  id: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const current = await prisma.vehicleType.findUnique({ where: { id } });
+    if (!current) return { success: false, error: "Vehicle type not found" };
+
+    const references = await vehicleTypeReferences(current.name);
+    if (references.length > 0) {
+      return {
+        success: false,
+        error: `${current.name} is still used by ${references.join(", ")}. Delete or move that data first.`,
+      };
+    }
+
+    await prisma.vehicleType.delete({ where: { id } });
+    revalidatePath("/settings");
+    revalidatePath("/simulator");
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
@@ -1,10 +1,32 @@
 import { getCostMasterItems } from "@/app/settings/_actions/cost-master";
+import { getVehicleTypes } from "@/app/settings/_actions/vehicle-types";
+import { getFreightClasses } from "@/app/settings/_actions/freight-classes";
+import { getSurchargeCalendar } from "@/app/settings/_actions/surcharge-calendar";
+import { getRouteDistances } from "@/app/settings/_actions/route-distances";
+import { getDistanceProviderConfig } from "@/app/settings/_actions/distance-providers";
+import { getTollTariffs } from "@/app/settings/_actions/tolls";
 import { CostMasterTable } from "@/components/cost-master-table";
+import { VehicleTypeTable } from "@/components/vehicle-type-table";
+import { FreightClassTable } from "@/components/freight-class-table";
+import { SurchargeCalendarTable } from "@/components/surcharge-calendar-table";
+import { RouteDistanceTable } from "@/components/route-distance-table";
+import { DistanceProviderSettings } from "@/components/distance-provider-settings";
+import { TollTariffTable } from "@/components/toll-tariff-table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 export const dynamic = "force-dynamic";
 
 export default async function SettingsPage() {
-  const items = await getCostMasterItems();
+  const [items, vehicles, freightClasses, surchargeRules, routeDistances, distanceProviders, tolls] =
+    await Promise.all([
+      getCostMasterItems(),
+      getVehicleTypes(),
+      getFreightClasses(),
+      getSurchargeCalendar(),
+      getRouteDistances(),
+      getDistanceProviderConfig(),
+      getTollTariffs(),
+    ]);
 
   return (
     <div className="space-y-6">
@@ -15,7 +37,38 @@ export default async function SettingsPage() {
           system policies.
         </p>
       </div>
-      <CostMasterTable initialItems={items} />
+      <Tabs defaultValue="cost" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="cost">Cost Variables</TabsTrigger>
+          <TabsTrigger value="vehicles">Vehicle Types</TabsTrigger>
+          <TabsTrigger value="freight">Freight Classes</TabsTrigger>
+          <TabsTrigger value="tolls">Tolls</TabsTrigger>
+          <TabsTrigger value="calendar">Surcharge Calendar</TabsTrigger>
+          <TabsTrigger value="distances">Road Distances</TabsTrigger>
+        </TabsList>
+        <TabsContent value="cost">
+          <CostMasterTable
+            initialItems={items}
+            vehicleTypes={vehicles.map((v) => v.name)}
+          />
+        </TabsContent>
+        <TabsContent value="vehicles">
+          <VehicleTypeTable initialVehicles={vehicles} />
+        </TabsContent>
+        <TabsContent value="freight">
+          <FreightClassTable initialClasses={freightClasses} />
+        </TabsContent>
+        <TabsContent value="tolls">
+          <TollTariffTable initialRates={tolls.rates} initialRules={tolls.rules} />
+        </TabsContent>
+        <TabsContent value="calendar">
+          <SurchargeCalendarTable initialRules={surchargeRules} />
+        </TabsContent>
+        <TabsContent value="distances" className="space-y-4">
+          <DistanceProviderSettings initialConfig={distanceProviders} />
+          <RouteDistanceTable initialDistances={routeDistances} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
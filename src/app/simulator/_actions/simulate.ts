@@ -1,6 +1,7 @@
 "use server";
 
 import { calculateFPHPrice } from "@/lib/pricing-engine";
+import { normalizeLocation, type NormalizedLocation } from "@/lib/location";
 
 /**
  * Next.js Server Action - Simulation Wrapper
@@ -40,4 +41,12 @@ export async function runBatchSimulation(
   }
 
   return { results, errors };
-}
\ No newline at end of file
+}
+
+/**
+ * Resolve a typed location, street address or postal code to the canonical
+ * id the engine will price it as.
+ */
+export async function resolveLocationInput(input: string): Promise<NormalizedLocation> {
+  return normalizeLocation(input);
+}
@@ -1,6 +1,15 @@
 import { BatchSimulator } from "@/components/batch-simulator";
+import { getVehicleTypeNames } from "@/lib/vehicle-catalog";
+import { getFreightClasses } from "@/lib/freight-catalog";
+
+export const dynamic = "force-dynamic";
+
+export default async function SimulatorPage() {
+  const [vehicleTypes, freightClasses] = await Promise.all([
+    getVehicleTypeNames(),
+    getFreightClasses(),
+  ]);
 
-export default function SimulatorPage() {
   return (
     <div className="space-y-6">
       <div>
@@ -9,7 +18,10 @@ export default function SimulatorPage() {
           Calculate single or batch prices using the FPH 3-tier framework.
         </p>
       </div>
-      <BatchSimulator />
+      <BatchSimulator
+        vehicleTypes={vehicleTypes}
+        freightClasses={freightClasses.map((c) => ({ name: c.name, aliases: c.aliases }))}
+      />
     </div>
   );
 }
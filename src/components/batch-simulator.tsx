@@ -28,14 +28,37 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { TierBreakdown } from "@/components/tier-breakdown";
 import {
+  DEFAULT_FREIGHT_CLASS,
+  resolveFreightClass,
+  type FreightClassKey,
+} from "@/lib/freight-class";
+import { decodeCsvBytes, parseCsvText } from "@/lib/csv-reader";
+import {
+  resolveLocationInput,
   runBatchSimulation,
   runSimulation,
 } from "@/app/simulator/_actions/simulate";
+import type { NormalizedLocation } from "@/lib/location";
 
 // ── Constants ──────────────────────────────────────────────────
 
-const VEHICLE_TYPES = ["1t", "2.5t", "3.5t", "5t", "8t", "11t", "15t", "18t", "25t"];
-const FREIGHT_TYPES = ["General", "Fragile", "Refrigerated", "Hazardous"];
+const DEFAULT_VEHICLE = "11t";
+
+const TRIP_MODES = [
+  { value: "one-way", label: "One-way" },
+  { value: "round-trip", label: "Round-trip" },
+  { value: "empty-return", label: "Empty return" },
+];
+
+// CSV spellings accepted for the tripMode column
+const TRIP_MODE_ALIASES: Record<string, string> = {
+  oneway: "one-way",
+  roundtrip: "round-trip",
+  return: "round-trip",
+  emptyreturn: "empty-return",
+  empty: "empty-return",
+  deadhead: "empty-return",
+};
 
 const PRESET_ROUTES = [
   { label: "Seoul/Gangnam → Busan/Haeundae", origin: "Seoul/Gangnam", destination: "Busan/Haeundae" },
@@ -51,8 +74,11 @@ interface RouteRow {
   id: string;
   origin: string;
   destination: string;
+  stops: string[];
   vehicleType: string;
   freightType: string;
+  tripMode: string;
+  pickupAt: string; // "YYYY-MM-DDTHH:MM" local time, "" if not given
   manualAdj: string;
 }
 
@@ -75,63 +101,152 @@ function confidenceBadge(score: number) {
   return <Badge variant="destructive">{pct}</Badge>;
 }
 
-function createEmptyRow(): RouteRow {
+/**
+ * The canonical location an origin/destination input resolved to.
+ */
+function LocationHint({ location }: { location: NormalizedLocation | null }) {
+  if (!location) return null;
+  if (location.issue) {
+    return (
+      <p className="mt-1 flex items-center gap-1 text-xs text-amber-600">
+        <AlertTriangle className="h-3 w-3 shrink-0" />
+        {location.issue}
+      </p>
+    );
+  }
+  return (
+    <p className="mt-1 text-xs text-muted-foreground">
+      → {location.id}
+      {location.source === "postal-code" && " (from postal code)"}
+    </p>
+  );
+}
+
+function createEmptyRow(vehicleType = DEFAULT_VEHICLE): RouteRow {
   return {
     id: crypto.randomUUID(),
     origin: "",
     destination: "",
-    vehicleType: "11t",
-    freightType: "General",
+    stops: [],
+    vehicleType,
+    freightType: DEFAULT_FREIGHT_CLASS,
+    tripMode: "one-way",
+    pickupAt: "",
     manualAdj: "0",
   };
 }
 
+/**
+ * Split a stops cell such as "Daejeon/Yuseong; Daegu/Dalseo" into stops.
+ * ";", "|" and ">" are accepted as separators ("," is the CSV delimiter).
+ */
+function parseStops(value: string): string[] {
+  return value
+    .split(/[;|>]/)
+    .map((s) => s.trim())
+    .filter((s) => s.length > 0);
+}
+
+function cleanStops(stops: string[]): string[] {
+  return stops.map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
+/**
+ * Normalise a pickup cell ("2026-09-25 08:00", "2026-09-25T08:00" or just a
+ * date) to the datetime-local format. A bare date is taken as a 09:00 pickup so
+ * that night rules do not apply. Returns null if it is not a date.
+ */
+function parsePickupCell(value: string): string | null {
+  const match = /^(\d{4})[-./](\d{1,2})[-./](\d{1,2})(?:[T ](\d{1,2}):(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+  const [, y, m, d, hh, mm] = match;
+  const date = `${y}-${m.padStart(2, "0")}-${d.padStart(2, "0")}`;
+  return hh !== undefined ? `${date}T${hh.padStart(2, "0")}:${mm}` : `${date}T09:00`;
+}
+
 // ── CSV parsing for simulation requests ────────────────────────
 
-function parseSimulationCsv(text: string): { rows: RouteRow[]; errors: string[] } {
-  const lines = text
-    .split(/\r?\n/)
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0);
+function parseSimulationCsv(
+  text: string,
+  vehicleTypes: string[],
+  freightClasses: FreightClassKey[],
+  defaultVehicle: string
+): { rows: RouteRow[]; errors: string[] } {
+  // Records with their 1-based row numbers; blank lines are skipped
+  const lines = parseCsvText(text)
+    .map((fields, i) => ({ fields: fields.map((f) => f.trim()), rowNum: i + 1 }))
+    .filter(({ fields }) => fields.some((f) => f.length > 0));
 
   if (lines.length < 2) {
     return { rows: [], errors: ["CSV is empty or has no data rows."] };
   }
 
-  const headers = lines[0].split(",").map((h) => h.trim().toLowerCase().replace(/[^a-z0-9]/g, ""));
+  const headers = lines[0].fields.map((h) => h.toLowerCase().replace(/[^a-z0-9]/g, ""));
   const originIdx = headers.findIndex((h) => ["origin", "departure", "from"].includes(h));
   const destIdx = headers.findIndex((h) => ["destination", "arrival", "to"].includes(h));
   const vehicleIdx = headers.findIndex((h) => ["vehicletype", "vehicle", "ton", "tontype"].includes(h));
   const freightIdx = headers.findIndex((h) => ["freighttype", "freight", "cargo", "cargotype"].includes(h));
   const adjIdx = headers.findIndex((h) => ["adjustment", "adj", "manualadjustment", "discount"].includes(h));
+  const tripIdx = headers.findIndex((h) => ["tripmode", "trip", "mode"].includes(h));
+  const stopsIdx = headers.findIndex((h) => ["stops", "via", "waypoints"].includes(h));
+  const pickupIdx = headers.findIndex((h) => ["pickupat", "pickup", "pickupdate", "date"].includes(h));
 
   if (originIdx === -1 || destIdx === -1) {
-    return { rows: [], errors: [`Missing required columns: origin, destination. Found: ${lines[0]}`] };
+    return { rows: [], errors: [`Missing required columns: origin, destination. Found: ${lines[0].fields.join(", ")}`] };
   }
 
   const rows: RouteRow[] = [];
   const errors: string[] = [];
 
-  for (let i = 1; i < lines.length; i++) {
-    const fields = lines[i].split(",").map((f) => f.trim());
+  for (const { fields, rowNum } of lines.slice(1)) {
     const origin = fields[originIdx] ?? "";
     const destination = fields[destIdx] ?? "";
 
     if (!origin || !destination) {
-      errors.push(`Row ${i + 1}: Missing origin or destination`);
+      errors.push(`Row ${rowNum}: Missing origin or destination`);
       continue;
     }
 
-    const vehicleType = vehicleIdx >= 0 ? (fields[vehicleIdx] || "11t") : "11t";
-    const freightType = freightIdx >= 0 ? (fields[freightIdx] || "General") : "General";
+    const vehicleType = vehicleIdx >= 0 ? (fields[vehicleIdx] || defaultVehicle) : defaultVehicle;
+    const rawFreight = freightIdx >= 0 ? (fields[freightIdx] || DEFAULT_FREIGHT_CLASS) : DEFAULT_FREIGHT_CLASS;
     const manualAdj = adjIdx >= 0 ? (fields[adjIdx] || "0") : "0";
+    const stops = stopsIdx >= 0 ? parseStops(fields[stopsIdx] ?? "") : [];
+    const rawTrip = tripIdx >= 0 ? (fields[tripIdx] ?? "").toLowerCase().replace(/[^a-z]/g, "") : "";
+    const tripMode = rawTrip ? TRIP_MODE_ALIASES[rawTrip] : "one-way";
+
+    if (!tripMode) {
+      errors.push(`Row ${rowNum}: Unknown tripMode "${fields[tripIdx]}" (one-way, round-trip, empty-return)`);
+      continue;
+    }
+
+    const rawPickup = pickupIdx >= 0 ? (fields[pickupIdx] ?? "") : "";
+    const pickupAt = rawPickup ? parsePickupCell(rawPickup) : "";
+    if (pickupAt === null) {
+      errors.push(`Row ${rowNum}: Invalid pickupAt "${rawPickup}" (expected YYYY-MM-DD HH:MM)`);
+      continue;
+    }
+
+    if (!vehicleTypes.includes(vehicleType)) {
+      errors.push(`Row ${rowNum}: Unknown vehicleType "${vehicleType}" (not in vehicle catalog)`);
+      continue;
+    }
+
+    // Resolve aliases ("냉동", "frozen") to the canonical class name
+    const freightClass = resolveFreightClass(rawFreight, freightClasses);
+    if (!freightClass) {
+      errors.push(`Row ${rowNum}: Unknown freightType "${rawFreight}" (not in freight classes)`);
+      continue;
+    }
 
     rows.push({
       id: crypto.randomUUID(),
       origin,
       destination,
-      vehicleType: VEHICLE_TYPES.includes(vehicleType) ? vehicleType : "11t",
-      freightType: FREIGHT_TYPES.includes(freightType) ? freightType : "General",
+      stops,
+      vehicleType,
+      freightType: freightClass.name,
+      tripMode,
+      pickupAt,
       manualAdj,
     });
   }
@@ -145,14 +260,19 @@ function exportResultsToCsv(results: any[]) {
   const headers = [
     "Origin",
     "Destination",
+    "Stops",
     "Vehicle",
     "Freight",
+    "Trip Mode",
+    "Pickup",
     "Distance (km)",
+    "Deadhead (KRW)",
     "Tier 1 - Cost Base (KRW)",
     "Tier 2 - Market Adjusted (KRW)",
     "Tier 3 - Final Price (KRW)",
     "Company Margin (KRW)",
     "Freight Risk (KRW)",
+    "Calendar Surcharge (KRW)",
     "Manual Adj (KRW)",
     "Confidence (%)",
     "Market Samples",
@@ -162,18 +282,23 @@ function exportResultsToCsv(results: any[]) {
   const rows = results.map((r: any) => [
     r.input.origin,
     r.input.destination,
+    (r.input.stops ?? []).join(" > "),
     r.input.vehicleType,
-    r.input.freightType ?? "General",
+    r.tier3.freightClass ?? r.input.freightType ?? DEFAULT_FREIGHT_CLASS,
+    r.tier1.tripMode,
+    (r.input.pickupAt ?? "").replace("T", " "),
     r.tier1.distanceKm,
+    r.tier1.deadhead?.charged ?? 0,
     r.summary.tier1_base,
     r.summary.tier2_adjusted,
     r.summary.tier3_final,
     r.tier3.companyMargin,
     r.tier3.freightRiskSurcharge,
+    r.tier3.calendarSurcharge ?? 0,
     r.tier3.manualAdjustment,
     Math.round(r.summary.overallConfidence * 100),
     r.tier2.sampleSize,
-    r.tier2.isFallback ? "Yes" : "No",
+    r.tier2.isFallback ? r.tier2.fallbackLevel : "No",
   ]);
 
   const csvContent =
@@ -193,15 +318,27 @@ function exportResultsToCsv(results: any[]) {
 
 // ── Component ──────────────────────────────────────────────────
 
-export function BatchSimulator() {
+interface BatchSimulatorProps {
+  vehicleTypes: string[]; // names from the VehicleType catalog
+  freightClasses: FreightClassKey[]; // names + aliases from the FreightClass table
+}
+
+export function BatchSimulator({ vehicleTypes, freightClasses }: BatchSimulatorProps) {
+  const defaultVehicle = vehicleTypes.includes(DEFAULT_VEHICLE)
+    ? DEFAULT_VEHICLE
+    : vehicleTypes[0] ?? DEFAULT_VEHICLE;
   const [mode, setMode] = useState<"single" | "batch">("single");
 
   // Single mode state
-  const [singleRow, setSingleRow] = useState<RouteRow>(createEmptyRow());
+  const [singleRow, setSingleRow] = useState<RouteRow>(() => createEmptyRow(defaultVehicle));
   const [singleResult, setSingleResult] = useState<any | null>(null);
+  const [resolved, setResolved] = useState<Record<"origin" | "destination", NormalizedLocation | null>>({
+    origin: null,
+    destination: null,
+  });
 
   // Batch mode state
-  const [rows, setRows] = useState<RouteRow[]>([createEmptyRow()]);
+  const [rows, setRows] = useState<RouteRow[]>(() => [createEmptyRow(defaultVehicle)]);
   const [batchResults, setBatchResults] = useState<any[]>([]);
   const [batchErrors, setBatchErrors] = useState<BatchError[]>([]);
   const [expandedIdx, setExpandedIdx] = useState<number | null>(null);
@@ -217,31 +354,63 @@ export function BatchSimulator() {
     const preset = PRESET_ROUTES.find((p) => p.label === value);
     if (preset) {
       setSingleRow((r) => ({ ...r, origin: preset.origin, destination: preset.destination }));
+      setResolved({ origin: null, destination: null });
     }
   }
 
+  function updateSingleLocation(field: "origin" | "destination", value: string) {
+    setSingleRow((r) => ({ ...r, [field]: value }));
+    setResolved((prev) => ({ ...prev, [field]: null }));
+  }
+
+  async function resolveSingleLocation(field: "origin" | "destination") {
+    const value = singleRow[field].trim();
+    if (!value) return;
+    const location = await resolveLocationInput(value);
+    setResolved((prev) => ({ ...prev, [field]: location }));
+  }
+
   function handleSingleSubmit() {
     if (!singleRow.origin.trim() || !singleRow.destination.trim()) return;
     startTransition(async () => {
       const res = await runSimulation({
         origin: singleRow.origin.trim(),
         destination: singleRow.destination.trim(),
+        stops: cleanStops(singleRow.stops),
         vehicleType: singleRow.vehicleType,
         freightType: singleRow.freightType,
+        tripMode: singleRow.tripMode,
+        pickupAt: singleRow.pickupAt || undefined,
         manualAdjustmentRate: parseFloat(singleRow.manualAdj) / 100 || 0,
       });
       setSingleResult(res);
     });
   }
 
+  function addSingleStop() {
+    setSingleRow((r) => ({ ...r, stops: [...r.stops, ""] }));
+  }
+
+  function updateSingleStop(index: number, value: string) {
+    setSingleRow((r) => ({ ...r, stops: r.stops.map((s, i) => (i === index ? value : s)) }));
+  }
+
+  function removeSingleStop(index: number) {
+    setSingleRow((r) => ({ ...r, stops: r.stops.filter((_, i) => i !== index) }));
+  }
+
   // ── Batch mode handlers ───────────────────────────────────
 
-  function updateRow(id: string, field: keyof RouteRow, value: string) {
+  function updateRow(id: string, field: Exclude<keyof RouteRow, "stops">, value: string) {
     setRows((prev) => prev.map((r) => (r.id === id ? { ...r, [field]: value } : r)));
   }
 
+  function updateRowStops(id: string, value: string) {
+    setRows((prev) => prev.map((r) => (r.id === id ? { ...r, stops: parseStops(value) } : r)));
+  }
+
   function addRow() {
-    setRows((prev) => [...prev, createEmptyRow()]);
+    setRows((prev) => [...prev, createEmptyRow(defaultVehicle)]);
   }
 
   function removeRow(id: string) {
@@ -261,14 +430,15 @@ export function BatchSimulator() {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (ev) => {
-      const text = ev.target?.result as string;
-      const { rows: parsed, errors } = parseSimulationCsv(text);
+      // Decoded as UTF-8 or EUC-KR, whichever the file is in
+      const text = decodeCsvBytes(new Uint8Array(ev.target?.result as ArrayBuffer));
+      const { rows: parsed, errors } = parseSimulationCsv(text, vehicleTypes, freightClasses, defaultVehicle);
       setCsvErrors(errors);
       if (parsed.length > 0) {
         setRows(parsed);
       }
     };
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
     // reset input so same file can be re-uploaded
     e.target.value = "";
   }
@@ -281,8 +451,11 @@ export function BatchSimulator() {
       const inputs = validRows.map((r) => ({
         origin: r.origin.trim(),
         destination: r.destination.trim(),
+        stops: cleanStops(r.stops),
         vehicleType: r.vehicleType,
         freightType: r.freightType,
+        tripMode: r.tripMode,
+        pickupAt: r.pickupAt || undefined,
         manualAdjustmentRate: parseFloat(r.manualAdj) / 100 || 0,
       }));
 
@@ -343,28 +516,61 @@ export function BatchSimulator() {
 
               <div className="grid gap-4 md:grid-cols-2">
                 <div>
-                  <Label htmlFor="s-origin">Origin (City/District)</Label>
+                  <Label htmlFor="s-origin">Origin (district, address or postal code)</Label>
                   <Input
                     id="s-origin"
-                    placeholder="e.g. Seoul/Gangnam"
+                    placeholder="e.g. Seoul/Gangnam or 서울 강남구"
                     value={singleRow.origin}
-                    onChange={(e) => setSingleRow((r) => ({ ...r, origin: e.target.value }))}
+                    onChange={(e) => updateSingleLocation("origin", e.target.value)}
+                    onBlur={() => resolveSingleLocation("origin")}
                     className="mt-1"
                   />
+                  <LocationHint location={resolved.origin} />
                 </div>
                 <div>
-                  <Label htmlFor="s-dest">Destination (City/District)</Label>
+                  <Label htmlFor="s-dest">Destination (district, address or postal code)</Label>
                   <Input
                     id="s-dest"
-                    placeholder="e.g. Busan/Haeundae"
+                    placeholder="e.g. Busan/Haeundae or 부산 해운대구"
                     value={singleRow.destination}
-                    onChange={(e) => setSingleRow((r) => ({ ...r, destination: e.target.value }))}
+                    onChange={(e) => updateSingleLocation("destination", e.target.value)}
+                    onBlur={() => resolveSingleLocation("destination")}
                     className="mt-1"
                   />
+                  <LocationHint location={resolved.destination} />
                 </div>
               </div>
 
-              <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Stops (in visiting order)</Label>
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={addSingleStop}>
+                    <Plus className="mr-1 h-3 w-3" />
+                    Add Stop
+                  </Button>
+                </div>
+                {singleRow.stops.map((stop, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <span className="w-6 text-xs text-muted-foreground">{i + 1}.</span>
+                    <Input
+                      placeholder="e.g. Daejeon/Yuseong"
+                      value={stop}
+                      onChange={(e) => updateSingleStop(i, e.target.value)}
+                      className="h-8 text-sm"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => removeSingleStop(i)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid gap-4 md:grid-cols-5">
                 <div>
                   <Label>Vehicle Type</Label>
                   <Select
@@ -375,7 +581,7 @@ export function BatchSimulator() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {VEHICLE_TYPES.map((v) => (
+                      {vehicleTypes.map((v) => (
                         <SelectItem key={v} value={v}>{v}</SelectItem>
                       ))}
                     </SelectContent>
@@ -391,12 +597,41 @@ export function BatchSimulator() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {FREIGHT_TYPES.map((f) => (
-                        <SelectItem key={f} value={f}>{f}</SelectItem>
+                      {freightClasses.map((f) => (
+                        <SelectItem key={f.name} value={f.name}>{f.name}</SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <Label>Trip Mode</Label>
+                  <Select
+                    value={singleRow.tripMode}
+                    onValueChange={(v) => setSingleRow((r) => ({ ...r, tripMode: v }))}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TRIP_MODES.map((t) => (
+                        <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="s-pickup">Pickup</Label>
+                  <Input
+                    id="s-pickup"
+                    type="datetime-local"
+                    value={singleRow.pickupAt}
+                    onChange={(e) => setSingleRow((r) => ({ ...r, pickupAt: e.target.value }))}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Holiday / weekend / night surcharges
+                  </p>
+                </div>
                 <div>
                   <Label htmlFor="s-adj">Strategic Adjustment (%)</Label>
                   <Input
@@ -489,16 +724,20 @@ export function BatchSimulator() {
               )}
 
               <p className="text-xs text-muted-foreground">
-                CSV format: <code>origin, destination, vehicleType, freightType, adjustment</code>
-                &nbsp;(vehicleType, freightType, adjustment are optional)
+                CSV format: <code>origin, destination, stops, vehicleType, freightType, tripMode, pickupAt, adjustment</code>
+                &nbsp;(all but origin and destination are optional; separate stops with &quot;;&quot;).
+                Locations may be districts, street addresses or postal codes — quote addresses that contain commas.
               </p>
 
               {/* Column headers */}
-              <div className="hidden md:grid md:grid-cols-[1fr_1fr_100px_110px_80px_36px] gap-2 text-xs font-medium text-muted-foreground px-1">
+              <div className="hidden md:grid md:grid-cols-[1fr_1fr_1fr_100px_110px_120px_170px_80px_36px] gap-2 text-xs font-medium text-muted-foreground px-1">
                 <span>Origin</span>
                 <span>Destination</span>
+                <span>Stops</span>
                 <span>Vehicle</span>
                 <span>Freight</span>
+                <span>Trip</span>
+                <span>Pickup</span>
                 <span>Adj %</span>
                 <span />
               </div>
@@ -507,7 +746,7 @@ export function BatchSimulator() {
               {rows.map((row) => (
                 <div
                   key={row.id}
-                  className="grid grid-cols-1 md:grid-cols-[1fr_1fr_100px_110px_80px_36px] gap-2 items-center rounded-md border p-2 md:p-1"
+                  className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_100px_110px_120px_170px_80px_36px] gap-2 items-center rounded-md border p-2 md:p-1"
                 >
                   <Input
                     placeholder="Origin"
@@ -521,6 +760,12 @@ export function BatchSimulator() {
                     onChange={(e) => updateRow(row.id, "destination", e.target.value)}
                     className="h-8 text-sm"
                   />
+                  <Input
+                    placeholder="Stops (a; b)"
+                    defaultValue={row.stops.join("; ")}
+                    onBlur={(e) => updateRowStops(row.id, e.target.value)}
+                    className="h-8 text-sm"
+                  />
                   <Select
                     value={row.vehicleType}
                     onValueChange={(v) => updateRow(row.id, "vehicleType", v)}
@@ -529,7 +774,7 @@ export function BatchSimulator() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {VEHICLE_TYPES.map((v) => (
+                      {vehicleTypes.map((v) => (
                         <SelectItem key={v} value={v}>{v}</SelectItem>
                       ))}
                     </SelectContent>
@@ -542,11 +787,30 @@ export function BatchSimulator() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      {FREIGHT_TYPES.map((f) => (
-                        <SelectItem key={f} value={f}>{f}</SelectItem>
+                      {freightClasses.map((f) => (
+                        <SelectItem key={f.name} value={f.name}>{f.name}</SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  <Select
+                    value={row.tripMode}
+                    onValueChange={(v) => updateRow(row.id, "tripMode", v)}
+                  >
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TRIP_MODES.map((t) => (
+                        <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="datetime-local"
+                    value={row.pickupAt}
+                    onChange={(e) => updateRow(row.id, "pickupAt", e.target.value)}
+                    className="h-8 text-sm"
+                  />
                   <Input
                     type="number"
                     step="0.5"
@@ -579,7 +843,7 @@ export function BatchSimulator() {
                     onClick={() => {
                       setRows((prev) => [
                         ...prev,
-                        { ...createEmptyRow(), origin: p.origin, destination: p.destination },
+                        { ...createEmptyRow(defaultVehicle), origin: p.origin, destination: p.destination },
                       ]);
                     }}
                   >
@@ -669,18 +933,28 @@ export function BatchSimulator() {
                                 {r.input.origin.split("/")[0]} → {r.input.destination.split("/")[0]}
                               </div>
                               <div className="text-xs text-muted-foreground">
-                                {r.input.origin} → {r.input.destination}
+                                {[r.input.origin, ...(r.input.stops ?? []), r.input.destination].join(" → ")}
                               </div>
                             </td>
                             <td className="py-2 pr-3">
                               <Badge variant="outline" className="text-xs">
                                 {r.input.vehicleType}
                               </Badge>
-                              {r.input.freightType && r.input.freightType !== "General" && (
+                              {r.tier3.freightClass && r.tier3.freightClass !== DEFAULT_FREIGHT_CLASS && (
                                 <Badge variant="secondary" className="text-xs ml-1">
-                                  {r.input.freightType}
+                                  {r.tier3.freightClass}
                                 </Badge>
                               )}
+                              {r.tier1.tripMode !== "one-way" && (
+                                <Badge variant="secondary" className="text-xs ml-1">
+                                  {TRIP_MODES.find((t) => t.value === r.tier1.tripMode)?.label}
+                                </Badge>
+                              )}
+                              {r.summary.warnings?.length > 0 && (
+                                <span title={r.summary.warnings.join("\n")}>
+                                  <AlertTriangle className="inline h-3.5 w-3.5 ml-1 text-amber-500" />
+                                </span>
+                              )}
                             </td>
                             <td className="py-2 pr-3 text-right font-mono text-indigo-600">
                               {formatKRW(r.summary.tier1_base)}
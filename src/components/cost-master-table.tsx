@@ -30,9 +30,11 @@ import {
 
 interface CostMasterTableProps {
   initialItems: CostMasterItem[];
+  vehicleTypes: string[];
 }
 
 const CATEGORIES = ["Variable", "Fixed", "Policy", "Risk"];
+const ALL_VEHICLES = "__all__"; // Radix Select cannot use "" as an item value
 
 function categoryBadge(category: string) {
   switch (category) {
@@ -56,23 +58,27 @@ function formatValue(value: number, unit: string): string {
   return new Intl.NumberFormat("ko-KR").format(value);
 }
 
-export function CostMasterTable({ initialItems }: CostMasterTableProps) {
+export function CostMasterTable({ initialItems, vehicleTypes }: CostMasterTableProps) {
   const [items, setItems] = useState(initialItems);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editValue, setEditValue] = useState("");
+  const [editVehicle, setEditVehicle] = useState(ALL_VEHICLES);
   const [editUnit, setEditUnit] = useState("");
   const [editDesc, setEditDesc] = useState("");
   const [showAdd, setShowAdd] = useState(false);
   const [newCategory, setNewCategory] = useState("Variable");
   const [newItem, setNewItem] = useState("");
+  const [newVehicle, setNewVehicle] = useState(ALL_VEHICLES);
   const [newValue, setNewValue] = useState("");
   const [newUnit, setNewUnit] = useState("");
   const [newDesc, setNewDesc] = useState("");
+  const [error, setError] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
 
   function startEdit(item: CostMasterItem) {
     setEditingId(item.id);
     setEditValue(String(item.value));
+    setEditVehicle(item.vehicleType ?? ALL_VEHICLES);
     setEditUnit(item.unit);
     setEditDesc(item.description);
   }
@@ -88,6 +94,7 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
     startTransition(async () => {
       const res = await updateCostMasterItem(id, {
         value: val,
+        vehicleType: editVehicle === ALL_VEHICLES ? null : editVehicle,
         unit: editUnit,
         description: editDesc,
       });
@@ -95,6 +102,9 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
         const updated = await getCostMasterItems();
         setItems(updated);
         setEditingId(null);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to save");
       }
     });
   }
@@ -118,6 +128,7 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
       const res = await createCostMasterItem({
         category: newCategory,
         item: newItem.trim(),
+        vehicleType: newVehicle === ALL_VEHICLES ? null : newVehicle,
         value: val,
         unit: newUnit.trim(),
         description: newDesc.trim() || newItem.trim(),
@@ -127,13 +138,33 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
         setItems(updated);
         setShowAdd(false);
         setNewItem("");
+        setNewVehicle(ALL_VEHICLES);
         setNewValue("");
         setNewUnit("");
         setNewDesc("");
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to add");
       }
     });
   }
 
+  function vehicleSelect(value: string, onChange: (v: string) => void, className?: string) {
+    return (
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger className={className}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_VEHICLES}>All vehicles</SelectItem>
+          {vehicleTypes.map((v) => (
+            <SelectItem key={v} value={v}>{v}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    );
+  }
+
   // Group by category
   const grouped = CATEGORIES.map((cat) => ({
     category: cat,
@@ -144,7 +175,7 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <p className="text-sm text-muted-foreground">
-          {items.length} variables configured. Changes take effect immediately in the pricing engine.
+          {items.length} variables configured. Vehicle-specific rows override the global value for that vehicle type.
         </p>
         <Button size="sm" variant="outline" onClick={() => setShowAdd(!showAdd)}>
           <Plus className="mr-1 h-3 w-3" />
@@ -156,7 +187,7 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
       {showAdd && (
         <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
           <p className="text-sm font-medium">New Cost Variable</p>
-          <div className="grid gap-3 md:grid-cols-5">
+          <div className="grid gap-3 md:grid-cols-6">
             <Select value={newCategory} onValueChange={setNewCategory}>
               <SelectTrigger>
                 <SelectValue />
@@ -168,6 +199,7 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
               </SelectContent>
             </Select>
             <Input placeholder="item_key" value={newItem} onChange={(e) => setNewItem(e.target.value)} />
+            {vehicleSelect(newVehicle, setNewVehicle)}
             <Input placeholder="Value" type="number" step="any" value={newValue} onChange={(e) => setNewValue(e.target.value)} />
             <Input placeholder="Unit (KRW/L, %)" value={newUnit} onChange={(e) => setNewUnit(e.target.value)} />
             <Input placeholder="Description" value={newDesc} onChange={(e) => setNewDesc(e.target.value)} />
@@ -182,6 +214,8 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
         </div>
       )}
 
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
       {/* Table */}
       <div className="rounded-lg border">
         <Table>
@@ -189,6 +223,7 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
             <TableRow>
               <TableHead className="w-28">Category</TableHead>
               <TableHead>Item</TableHead>
+              <TableHead className="w-24">Vehicle</TableHead>
               <TableHead className="text-right">Value</TableHead>
               <TableHead>Unit</TableHead>
               <TableHead>Description</TableHead>
@@ -209,6 +244,7 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
 
                   {editingId === item.id ? (
                     <>
+                      <TableCell>{vehicleSelect(editVehicle, setEditVehicle, "h-8 w-24")}</TableCell>
                       <TableCell className="text-right">
                         <Input
                           type="number"
@@ -244,6 +280,13 @@ export function CostMasterTable({ initialItems }: CostMasterTableProps) {
                     </>
                   ) : (
                     <>
+                      <TableCell>
+                        {item.vehicleType ? (
+                          <Badge variant="outline">{item.vehicleType}</Badge>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">All</span>
+                        )}
+                      </TableCell>
                       <TableCell className="text-right font-mono">
                         {formatValue(item.value, item.unit)}
                       </TableCell>
@@ -0,0 +1,251 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Grid3x3, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { getCoverage, getCoverageCell } from "@/app/data/_actions/coverage";
+import type { CoverageCell, CoverageDetail, CoverageMatrix as Matrix } from "@/lib/market-coverage";
+
+interface CoverageMatrixProps {
+  vehicleTypes: string[];
+  initialMatrix: Matrix | null; // first vehicle type
+}
+
+function formatKRW(n: number): string {
+  return new Intl.NumberFormat("ko-KR").format(Math.round(n));
+}
+
+function cellKey(origin: string, destination: string): string {
+  return `${origin}||${destination}`;
+}
+
+function cellColor(cell: CoverageCell | undefined): string {
+  if (!cell || cell.status === "none") return "bg-muted/40 text-muted-foreground";
+  if (cell.status === "thin") return "bg-red-100 text-red-900";
+  if (cell.status === "fallback") return "bg-amber-100 text-amber-900";
+  const score = cell.confidence ?? 0;
+  if (score >= 0.7) return "bg-green-500 text-white";
+  if (score >= 0.4) return "bg-green-300 text-green-950";
+  return "bg-green-100 text-green-900";
+}
+
+function cellTitle(cell: CoverageCell | undefined, origin: string, destination: string): string {
+  const lane = `${origin} → ${destination}`;
+  if (!cell) return `${lane}: no data`;
+  const parts = [`${lane}: ${cell.sampleSize} samples`];
+  if (cell.exactRoutes > 0) parts.push(`${cell.exactRoutes} route medians`);
+  if (cell.fallbackRoutes > 0) parts.push("province median");
+  if (cell.confidence !== null) parts.push(`confidence ${(cell.confidence * 100).toFixed(0)}%`);
+  return parts.join(", ");
+}
+
+const LEGEND = [
+  { label: "Route medians, confidence ≥ 70%", className: "bg-green-500" },
+  { label: "Route medians, 40–70%", className: "bg-green-300" },
+  { label: "Route medians, < 40%", className: "bg-green-100" },
+  { label: "Province median only", className: "bg-amber-100" },
+  { label: "Too few samples", className: "bg-red-100" },
+  { label: "No data", className: "bg-muted/40" },
+];
+
+const LEVEL_LABELS: Record<string, string> = {
+  district: "Route",
+  province: "Province",
+};
+
+export function CoverageMatrix({ vehicleTypes, initialMatrix }: CoverageMatrixProps) {
+  const [vehicleType, setVehicleType] = useState(initialMatrix?.vehicleType ?? vehicleTypes[0] ?? "");
+  const [matrix, setMatrix] = useState<Matrix | null>(initialMatrix);
+  const [selected, setSelected] = useState<CoverageCell | null>(null);
+  const [detail, setDetail] = useState<CoverageDetail | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const cells = new Map((matrix?.cells ?? []).map((c) => [cellKey(c.originProvince, c.destinationProvince), c]));
+
+  function handleVehicleChange(value: string) {
+    setVehicleType(value);
+    setSelected(null);
+    setDetail(null);
+    startTransition(async () => {
+      setMatrix(await getCoverage(value));
+    });
+  }
+
+  function handleSelect(cell: CoverageCell | undefined) {
+    if (!cell) return;
+    setSelected(cell);
+    startTransition(async () => {
+      setDetail(await getCoverageCell(vehicleType, cell.originProvince, cell.destinationProvince));
+    });
+  }
+
+  if (vehicleTypes.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-sm text-muted-foreground">No market data yet.</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Grid3x3 className="h-4 w-4" />
+            Market Data Coverage
+          </CardTitle>
+          <CardDescription>
+            Origin province (rows) × destination province (columns). Numbers are analysed samples in the
+            retention window; colours show how the market tier can price the pair. Click a cell for its routes.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Select value={vehicleType} onValueChange={handleVehicleChange}>
+            <SelectTrigger className="h-8 w-32 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {vehicleTypes.map((v) => (
+                <SelectItem key={v} value={v}>
+                  {v}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {matrix && (
+          <div className="overflow-x-auto">
+            <table className="border-separate border-spacing-0.5 text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {matrix.provinces.map((p) => (
+                    <th key={p} className="h-20 w-10 align-bottom font-medium">
+                      <span className="inline-block -rotate-45 whitespace-nowrap">{p}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.provinces.map((origin) => (
+                  <tr key={origin}>
+                    <th className="pr-2 text-right font-medium whitespace-nowrap">{origin}</th>
+                    {matrix.provinces.map((destination) => {
+                      const cell = cells.get(cellKey(origin, destination));
+                      const isSelected =
+                        selected?.originProvince === origin && selected?.destinationProvince === destination;
+                      return (
+                        <td
+                          key={destination}
+                          title={cellTitle(cell, origin, destination)}
+                          onClick={() => handleSelect(cell)}
+                          className={`h-8 w-10 rounded text-center tabular-nums ${cellColor(cell)} ${
+                            cell ? "cursor-pointer hover:ring-2 hover:ring-primary" : ""
+                          } ${isSelected ? "ring-2 ring-primary" : ""}`}
+                        >
+                          {cell && cell.sampleSize > 0 ? cell.sampleSize : ""}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {LEGEND.map((l) => (
+            <span key={l.label} className="flex items-center gap-1">
+              <span className={`inline-block h-3 w-3 rounded ${l.className}`} />
+              {l.label}
+            </span>
+          ))}
+        </div>
+
+        {selected && detail && (
+          <div className="space-y-3 rounded-md border p-4">
+            <h4 className="text-sm font-medium">
+              {selected.originProvince} → {selected.destinationProvince} · {vehicleType}
+            </h4>
+            {detail.routes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No market median for this pair; quotes fall back to the region or national rate.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Route</TableHead>
+                    <TableHead>Level</TableHead>
+                    <TableHead className="text-right">Median</TableHead>
+                    <TableHead className="text-right">Samples</TableHead>
+                    <TableHead className="text-right">Age (days)</TableHead>
+                    <TableHead className="text-right">Confidence</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.routes.map((r) => (
+                    <TableRow key={`${r.fallbackLevel}||${r.origin}||${r.destination}`}>
+                      <TableCell className="font-medium">
+                        {r.origin} → {r.destination}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={r.fallbackLevel === "district" ? "default" : "secondary"}>
+                          {LEVEL_LABELS[r.fallbackLevel] ?? r.fallbackLevel}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">₩{formatKRW(r.median)}</TableCell>
+                      <TableCell className="text-right">
+                        {r.filteredSize}
+                        {r.filteredSize !== r.sampleSize && (
+                          <span className="text-xs text-muted-foreground"> / {r.sampleSize}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{Math.round(r.effectiveAgeDays)}</TableCell>
+                      <TableCell className="text-right">{(r.confidenceScore * 100).toFixed(0)}%</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {detail.thinLanes.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">
+                  Lanes without a median of their own (more samples needed):
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {detail.thinLanes.map((l) => (
+                    <Badge key={`${l.origin}||${l.destination}`} variant="outline" className="font-normal">
+                      {l.origin} → {l.destination} · {l.sampleSize}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,31 +1,73 @@
 "use client";
 
 import { useRef, useState, useTransition } from "react";
-import { Upload, FileText, X, Loader2 } from "lucide-react";
+import { Upload, FileText, FileSpreadsheet, Eye, X, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import type { UploadResult } from "@/app/data/_actions/upload";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getWorkbookSheets, type UploadResult } from "@/app/data/_actions/upload";
 
 interface CsvUploadProps {
   title: string;
   description: string;
   expectedColumns: string;
-  onUpload: (formData: FormData) => Promise<UploadResult>;
-  onComplete: (result: UploadResult) => void;
+  onUpload?: (formData: FormData) => Promise<UploadResult>;
+  onComplete?: (result: UploadResult) => void;
+  // Two-step import: hand the file to a preview instead of importing it
+  onPreview?: (formData: FormData) => Promise<void>;
 }
 
-export function CsvUpload({ title, description, expectedColumns, onUpload, onComplete }: CsvUploadProps) {
+function isSpreadsheet(f: File): boolean {
+  return /\.xlsx$/i.test(f.name);
+}
+
+export function CsvUpload({
+  title,
+  description,
+  expectedColumns,
+  onUpload,
+  onComplete,
+  onPreview,
+}: CsvUploadProps) {
   const [file, setFile] = useState<File | null>(null);
+  const [sheets, setSheets] = useState<string[]>([]);
+  const [sheet, setSheet] = useState<string>("");
+  const [sheetError, setSheetError] = useState<string | null>(null);
   const [isPending, startTransition] = useTransition();
   const [dragOver, setDragOver] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
   function handleFileChange(f: File | null) {
-    if (f && !f.name.endsWith(".csv")) {
-      alert("Please upload a .csv file.");
+    if (f && !/\.(csv|xlsx)$/i.test(f.name)) {
+      alert("Please upload a .csv or .xlsx file.");
       return;
     }
     setFile(f);
+    setSheets([]);
+    setSheet("");
+    setSheetError(null);
+    if (f && isSpreadsheet(f)) {
+      const formData = new FormData();
+      formData.append("file", f);
+      startTransition(async () => {
+        const res = await getWorkbookSheets(formData);
+        setSheets(res.sheets);
+        setSheet(res.sheets[0] ?? "");
+        setSheetError(res.error ?? null);
+      });
+    }
+  }
+
+  function clearFile() {
+    handleFileChange(null);
+    if (inputRef.current) inputRef.current.value = "";
   }
 
   function handleDrop(e: React.DragEvent) {
@@ -39,12 +81,17 @@ export function CsvUpload({ title, description, expectedColumns, onUpload, onCom
     if (!file) return;
     const formData = new FormData();
     formData.append("file", file);
+    if (sheet) formData.append("sheet", sheet);
 
     startTransition(async () => {
+      if (onPreview) {
+        await onPreview(formData);
+        return;
+      }
+      if (!onUpload) return;
       const result = await onUpload(formData);
-      onComplete(result);
-      setFile(null);
-      if (inputRef.current) inputRef.current.value = "";
+      onComplete?.(result);
+      clearFile();
     });
   }
 
@@ -65,7 +112,11 @@ export function CsvUpload({ title, description, expectedColumns, onUpload, onCom
         >
           {file ? (
             <div className="flex items-center gap-3">
-              <FileText className="h-8 w-8 text-muted-foreground" />
+              {isSpreadsheet(file) ? (
+                <FileSpreadsheet className="h-8 w-8 text-muted-foreground" />
+              ) : (
+                <FileText className="h-8 w-8 text-muted-foreground" />
+              )}
               <div className="text-sm">
                 <p className="font-medium">{file.name}</p>
                 <p className="text-muted-foreground">
@@ -76,10 +127,7 @@ export function CsvUpload({ title, description, expectedColumns, onUpload, onCom
                 variant="ghost"
                 size="icon"
                 className="h-6 w-6"
-                onClick={() => {
-                  setFile(null);
-                  if (inputRef.current) inputRef.current.value = "";
-                }}
+                onClick={clearFile}
               >
                 <X className="h-4 w-4" />
               </Button>
@@ -88,7 +136,7 @@ export function CsvUpload({ title, description, expectedColumns, onUpload, onCom
             <>
               <Upload className="mb-2 h-8 w-8 text-muted-foreground" />
               <p className="text-sm text-muted-foreground">
-                Drag & drop a CSV file, or{" "}
+                Drag & drop a CSV or Excel (.xlsx) file, or{" "}
                 <button
                   type="button"
                   className="font-medium text-primary underline underline-offset-4"
@@ -102,22 +150,44 @@ export function CsvUpload({ title, description, expectedColumns, onUpload, onCom
           <input
             ref={inputRef}
             type="file"
-            accept=".csv"
+            accept=".csv,.xlsx"
             className="hidden"
             onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
           />
         </div>
 
+        {sheets.length > 1 && (
+          <div className="space-y-1">
+            <Label>Sheet</Label>
+            <Select value={sheet} onValueChange={setSheet}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sheets.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        {sheetError && <p className="text-sm text-destructive">{sheetError}</p>}
+
         <p className="text-xs text-muted-foreground">
           Expected columns: <code className="rounded bg-muted px-1 py-0.5">{expectedColumns}</code>
         </p>
 
-        <Button onClick={handleSubmit} disabled={!file || isPending} className="w-full">
+        <Button onClick={handleSubmit} disabled={!file || isPending || sheetError !== null} className="w-full">
           {isPending ? (
             <>
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               Processing...
             </>
+          ) : onPreview ? (
+            <>
+              <Eye className="mr-2 h-4 w-4" />
+              Preview
+            </>
           ) : (
             <>
               <Upload className="mr-2 h-4 w-4" />
@@ -3,44 +3,83 @@
 import { useState, useTransition } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { CsvUpload } from "@/components/csv-upload";
+import { MarketDataImport } from "@/components/market-data-import";
+import { ImportHistory } from "@/components/import-history";
+import { MarketDataBrowser } from "@/components/market-data-browser";
+import { MarketRetentionPanel } from "@/components/market-retention-panel";
+import { CoverageMatrix } from "@/components/coverage-matrix";
 import { UploadResultDisplay } from "@/components/upload-result";
 import { DataStatsDisplay } from "@/components/data-stats";
 import {
-  uploadMarketData,
   uploadCostMaster,
   getDataStats,
   clearMarketData,
+  rebuildMarketCache,
   type UploadResult,
   type DataStats,
 } from "@/app/data/_actions/upload";
+import type { ImportMappingProfile } from "@/app/data/_actions/mapping-profiles";
+import { getImportBatches, type ImportBatchSummary } from "@/app/data/_actions/import-batches";
+import type { MarketDataFilterOptions, MarketDataPage } from "@/app/data/_actions/market-data";
+import type { RetentionStatus } from "@/lib/market-archive";
+import type { CoverageMatrix as CoverageMatrixData } from "@/lib/market-coverage";
 
 interface DataPageClientProps {
   initialStats: DataStats;
+  mappingProfiles: ImportMappingProfile[];
+  initialBatches: ImportBatchSummary[];
+  initialMarketPage: MarketDataPage;
+  marketFilterOptions: MarketDataFilterOptions;
+  retention: RetentionStatus;
+  coverageVehicleTypes: string[];
+  initialCoverage: CoverageMatrixData | null;
 }
 
-export function DataPageClient({ initialStats }: DataPageClientProps) {
+export function DataPageClient({
+  initialStats,
+  mappingProfiles,
+  initialBatches,
+  initialMarketPage,
+  marketFilterOptions,
+  retention,
+  coverageVehicleTypes,
+  initialCoverage,
+}: DataPageClientProps) {
   const [stats, setStats] = useState<DataStats>(initialStats);
+  const [batches, setBatches] = useState<ImportBatchSummary[]>(initialBatches);
   const [marketResult, setMarketResult] = useState<UploadResult | null>(null);
   const [costResult, setCostResult] = useState<UploadResult | null>(null);
   const [isRefreshing, startRefresh] = useTransition();
 
   function handleRefresh() {
     startRefresh(async () => {
-      const newStats = await getDataStats();
+      const [newStats, newBatches] = await Promise.all([getDataStats(), getImportBatches()]);
       setStats(newStats);
+      setBatches(newBatches);
     });
   }
 
   function handleClearMarketData() {
-    if (!confirm("Are you sure you want to delete all market data records?")) return;
+    if (!confirm("Are you sure you want to delete all market data records? Archived records are kept.")) return;
     startRefresh(async () => {
       await clearMarketData();
-      const newStats = await getDataStats();
+      const [newStats, newBatches] = await Promise.all([getDataStats(), getImportBatches()]);
       setStats(newStats);
+      setBatches(newBatches);
       setMarketResult(null);
     });
   }
 
+  function handleRebuildCache() {
+    startRefresh(async () => {
+      const res = await rebuildMarketCache();
+      if (!res.success) alert(res.error ?? "Rebuild failed");
+      const [newStats, newBatches] = await Promise.all([getDataStats(), getImportBatches()]);
+      setStats(newStats);
+      setBatches(newBatches);
+    });
+  }
+
   return (
     <div className="space-y-6">
       {/* Database stats */}
@@ -48,6 +87,7 @@ export function DataPageClient({ initialStats }: DataPageClientProps) {
         stats={stats}
         onRefresh={handleRefresh}
         onClearMarketData={handleClearMarketData}
+        onRebuildCache={handleRebuildCache}
         isRefreshing={isRefreshing}
       />
 
@@ -56,14 +96,13 @@ export function DataPageClient({ initialStats }: DataPageClientProps) {
         <TabsList>
           <TabsTrigger value="market">Market Data (Tier 2)</TabsTrigger>
           <TabsTrigger value="cost">Cost Variables (Tier 1)</TabsTrigger>
+          <TabsTrigger value="browse">Browse Market Data</TabsTrigger>
+          <TabsTrigger value="coverage">Coverage</TabsTrigger>
         </TabsList>
 
         <TabsContent value="market" className="space-y-4">
-          <CsvUpload
-            title="Import Market Data"
-            description="Upload historical freight pricing data (1-year CSV). Records will be appended to existing data."
-            expectedColumns="date, origin, destination, vehicleType, freightType, unitPrice"
-            onUpload={uploadMarketData}
+          <MarketDataImport
+            initialProfiles={mappingProfiles}
             onComplete={(result) => {
               setMarketResult(result);
               handleRefresh();
@@ -72,13 +111,15 @@ export function DataPageClient({ initialStats }: DataPageClientProps) {
           {marketResult && (
             <UploadResultDisplay result={marketResult} type="MarketData" />
           )}
+          <ImportHistory batches={batches} onChange={handleRefresh} />
+          <MarketRetentionPanel initialStatus={retention} onChange={handleRefresh} />
         </TabsContent>
 
         <TabsContent value="cost" className="space-y-4">
           <CsvUpload
             title="Import Cost Variables"
-            description="Upload cost master data. Existing items will be updated (upsert by item name)."
-            expectedColumns="category, item, value, unit, description"
+            description="Upload cost master data. Existing items will be updated (upsert by item name + vehicle type)."
+            expectedColumns="category, item, value, unit, description, vehicleType (optional)"
             onUpload={uploadCostMaster}
             onComplete={(result) => {
               setCostResult(result);
@@ -89,6 +130,18 @@ export function DataPageClient({ initialStats }: DataPageClientProps) {
             <UploadResultDisplay result={costResult} type="CostMaster" />
           )}
         </TabsContent>
+
+        <TabsContent value="browse" className="space-y-4">
+          <MarketDataBrowser
+            initialPage={initialMarketPage}
+            initialOptions={marketFilterOptions}
+            onChange={handleRefresh}
+          />
+        </TabsContent>
+
+        <TabsContent value="coverage" className="space-y-4">
+          <CoverageMatrix vehicleTypes={coverageVehicleTypes} initialMatrix={initialCoverage} />
+        </TabsContent>
       </Tabs>
     </div>
   );
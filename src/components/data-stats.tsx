@@ -1,6 +1,6 @@
 "use client";
 
-import { Database, DollarSign, Route, RefreshCw, Loader2, Trash2 } from "lucide-react";
+import { Database, DatabaseZap, DollarSign, Route, RefreshCw, Loader2, Trash2 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import type { DataStats } from "@/app/data/_actions/upload";
@@ -9,15 +9,22 @@ interface DataStatsDisplayProps {
   stats: DataStats;
   onRefresh: () => void;
   onClearMarketData: () => void;
+  onRebuildCache: () => void;
   isRefreshing: boolean;
 }
 
-export function DataStatsDisplay({ stats, onRefresh, onClearMarketData, isRefreshing }: DataStatsDisplayProps) {
+export function DataStatsDisplay({ stats, onRefresh, onClearMarketData, onRebuildCache, isRefreshing }: DataStatsDisplayProps) {
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
         <h3 className="text-sm font-medium text-muted-foreground">Current Database</h3>
         <div className="flex gap-2">
+          {stats.marketDataCount > 0 && (
+            <Button variant="outline" size="sm" onClick={onRebuildCache} disabled={isRefreshing}>
+              <DatabaseZap className="mr-1 h-3 w-3" />
+              Rebuild Cache
+            </Button>
+          )}
           {stats.marketDataCount > 0 && (
             <Button variant="outline" size="sm" onClick={onClearMarketData}>
               <Trash2 className="mr-1 h-3 w-3" />
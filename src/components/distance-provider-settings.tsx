@@ -0,0 +1,170 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { ArrowDown, ArrowUp, Loader2, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  clearCachedDistances,
+  getDistanceProviderConfig,
+  updateDistanceProviders,
+  type DistanceProviderConfig,
+} from "@/app/settings/_actions/distance-providers";
+import type { DistanceProviderId } from "@/lib/distance-providers";
+
+interface DistanceProviderSettingsProps {
+  initialConfig: DistanceProviderConfig;
+}
+
+interface ProviderRow {
+  id: DistanceProviderId;
+  label: string;
+  enabled: boolean;
+}
+
+/**
+ * Enabled providers in their configured order, then the disabled ones.
+ */
+function toRows(config: DistanceProviderConfig): ProviderRow[] {
+  const enabled = config.order.map((id) => ({
+    id,
+    label: config.providers.find((p) => p.id === id)?.label ?? id,
+    enabled: true,
+  }));
+  const disabled = config.providers
+    .filter((p) => !config.order.includes(p.id))
+    .map((p) => ({ ...p, enabled: false }));
+  return [...enabled, ...disabled];
+}
+
+export function DistanceProviderSettings({ initialConfig }: DistanceProviderSettingsProps) {
+  const [config, setConfig] = useState(initialConfig);
+  const [rows, setRows] = useState(() => toRows(initialConfig));
+  const [routingUrl, setRoutingUrl] = useState(initialConfig.routingUrl ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [isPending, startTransition] = useTransition();
+
+  function move(index: number, delta: number) {
+    const target = index + delta;
+    if (target < 0 || target >= rows.length) return;
+    const next = [...rows];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRows(next);
+    setSaved(false);
+  }
+
+  function toggle(id: DistanceProviderId) {
+    setRows(rows.map((r) => (r.id === id ? { ...r, enabled: !r.enabled } : r)));
+    setSaved(false);
+  }
+
+  async function reload() {
+    const next = await getDistanceProviderConfig();
+    setConfig(next);
+    setRows(toRows(next));
+    setRoutingUrl(next.routingUrl ?? "");
+  }
+
+  function handleSave() {
+    const order = rows.filter((r) => r.enabled).map((r) => r.id);
+    startTransition(async () => {
+      const res = await updateDistanceProviders(order, routingUrl);
+      if (res.success) {
+        await reload();
+        setError(null);
+        setSaved(true);
+      } else {
+        setError(res.error ?? "Failed to save");
+      }
+    });
+  }
+
+  function handleClearCache() {
+    if (!confirm("Clear all cached distances? They are fetched again on next use.")) return;
+    startTransition(async () => {
+      const res = await clearCachedDistances();
+      if (res.success) await reload();
+      else setError(res.error ?? "Failed to clear cache");
+    });
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <div>
+        <p className="text-sm font-medium">Distance Providers</p>
+        <p className="text-xs text-muted-foreground">
+          Asked top to bottom until one knows the lane; manual overrides below always
+          come first, and the corridor table answers if every enabled provider declines.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        {rows.map((r, i) => (
+          <div key={r.id} className="flex items-center gap-2 rounded border px-3 py-2">
+            <span className="w-5 text-xs text-muted-foreground">{r.enabled ? i + 1 : "–"}</span>
+            <span className={`flex-1 text-sm ${r.enabled ? "" : "text-muted-foreground line-through"}`}>
+              {r.label}
+            </span>
+            <Button
+              size="sm"
+              variant={r.enabled ? "secondary" : "outline"}
+              className="h-7 text-xs"
+              onClick={() => toggle(r.id)}
+            >
+              {r.enabled ? "Enabled" : "Disabled"}
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => move(i, -1)} disabled={i === 0}>
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => move(i, 1)}
+              disabled={i === rows.length - 1}
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-[1fr_auto] md:items-end">
+        <div>
+          <Label htmlFor="routing-url">Routing service URL (OSRM-compatible)</Label>
+          <Input
+            id="routing-url"
+            placeholder="e.g. http://localhost:5000"
+            value={routingUrl}
+            onChange={(e) => {
+              setRoutingUrl(e.target.value);
+              setSaved(false);
+            }}
+            className="mt-1"
+          />
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={isPending}>
+          {isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+          Save Providers
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {saved && !error && <p className="text-sm text-muted-foreground">Saved. National per-km rates were refreshed.</p>}
+
+      <div className="flex items-center justify-between border-t pt-3">
+        <p className="text-xs text-muted-foreground">
+          <Badge variant="outline" className="mr-2 font-mono font-normal">{config.cachedCount}</Badge>
+          distances cached from the routing service
+        </p>
+        <Button size="sm" variant="outline" onClick={handleClearCache} disabled={isPending || config.cachedCount === 0}>
+          <Trash2 className="mr-1 h-3 w-3" />
+          Clear Cache
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Pencil, Save, X, Trash2, Plus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  createFreightClass,
+  updateFreightClass,
+  deleteFreightClass,
+  getFreightClasses,
+  type FreightClassInput,
+} from "@/app/settings/_actions/freight-classes";
+import { parseAliases, type FreightClassSpec } from "@/lib/freight-class";
+
+interface FreightClassTableProps {
+  initialClasses: FreightClassSpec[];
+}
+
+const BODY_TYPES = ["Cargo", "Wing", "Box", "Refrigerated", "Flatbed", "Tanker"];
+// Radix Select cannot use "" as a value
+const ANY_BODY = "__any__";
+
+interface FreightForm {
+  name: string;
+  aliases: string;
+  rate: string; // percent
+  requiredBodyType: string;
+  hazmatUnClass: string;
+  description: string;
+}
+
+const EMPTY_FORM: FreightForm = {
+  name: "",
+  aliases: "",
+  rate: "",
+  requiredBodyType: ANY_BODY,
+  hazmatUnClass: "",
+  description: "",
+};
+
+function toForm(c: FreightClassSpec): FreightForm {
+  return {
+    name: c.name,
+    aliases: c.aliases.join(", "),
+    rate: String(Math.round(c.surchargeRate * 10000) / 100),
+    requiredBodyType: c.requiredBodyType ?? ANY_BODY,
+    hazmatUnClass: c.hazmatUnClass ?? "",
+    description: c.description ?? "",
+  };
+}
+
+/**
+ * Validate and convert form strings. Returns null if the name or rate is missing.
+ */
+function fromForm(f: FreightForm): FreightClassInput | null {
+  const rate = parseFloat(f.rate) / 100;
+  if (!f.name.trim() || isNaN(rate)) return null;
+  return {
+    name: f.name.trim(),
+    aliases: parseAliases(f.aliases),
+    surchargeRate: rate,
+    requiredBodyType: f.requiredBodyType === ANY_BODY ? null : f.requiredBodyType,
+    hazmatUnClass: f.hazmatUnClass.trim() || null,
+    description: f.description.trim() || null,
+  };
+}
+
+export function FreightClassTable({ initialClasses }: FreightClassTableProps) {
+  const [classes, setClasses] = useState(initialClasses);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<FreightForm>(EMPTY_FORM);
+  const [showAdd, setShowAdd] = useState(false);
+  const [newForm, setNewForm] = useState<FreightForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function startEdit(c: FreightClassSpec) {
+    setEditingId(c.id);
+    setEditForm(toForm(c));
+  }
+
+  function handleSave(id: number) {
+    const data = fromForm(editForm);
+    if (!data) {
+      setError("Name and surcharge rate are required.");
+      return;
+    }
+
+    startTransition(async () => {
+      const res = await updateFreightClass(id, data);
+      if (res.success) {
+        setClasses(await getFreightClasses());
+        setEditingId(null);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to save");
+      }
+    });
+  }
+
+  function handleDelete(id: number) {
+    if (!confirm("Delete this freight class? Routes using it can no longer be priced.")) return;
+    startTransition(async () => {
+      const res = await deleteFreightClass(id);
+      if (res.success) {
+        setClasses(await getFreightClasses());
+      }
+    });
+  }
+
+  function handleAdd() {
+    const data = fromForm(newForm);
+    if (!data) {
+      setError("Name and surcharge rate are required.");
+      return;
+    }
+
+    startTransition(async () => {
+      const res = await createFreightClass(data);
+      if (res.success) {
+        setClasses(await getFreightClasses());
+        setShowAdd(false);
+        setNewForm(EMPTY_FORM);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to add");
+      }
+    });
+  }
+
+  function formFields(form: FreightForm, setForm: (f: FreightForm) => void) {
+    return (
+      <>
+        <Input placeholder="Name (e.g. Refrigerated)" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+        <Input
+          placeholder="Aliases (냉동, frozen, ...)"
+          value={form.aliases}
+          onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+          className="md:col-span-2"
+        />
+        <Input placeholder="Surcharge (%)" type="number" step="0.5" value={form.rate} onChange={(e) => setForm({ ...form, rate: e.target.value })} />
+        <Select value={form.requiredBodyType} onValueChange={(v) => setForm({ ...form, requiredBodyType: v })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_BODY}>Any body</SelectItem>
+            {BODY_TYPES.map((b) => (
+              <SelectItem key={b} value={b}>{b}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input placeholder="UN class" value={form.hazmatUnClass} onChange={(e) => setForm({ ...form, hazmatUnClass: e.target.value })} />
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {classes.length} freight classes. Freight types are matched by name or alias; unknown types are rejected.
+        </p>
+        <Button size="sm" variant="outline" onClick={() => setShowAdd(!showAdd)}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add Class
+        </Button>
+      </div>
+
+      {showAdd && (
+        <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
+          <p className="text-sm font-medium">New Freight Class</p>
+          <div className="grid gap-3 md:grid-cols-6">
+            {formFields(newForm, setNewForm)}
+          </div>
+          <Input
+            placeholder="Description"
+            value={newForm.description}
+            onChange={(e) => setNewForm({ ...newForm, description: e.target.value })}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleAdd} disabled={isPending}>
+              {isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowAdd(false)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Aliases</TableHead>
+              <TableHead className="text-right">Surcharge</TableHead>
+              <TableHead>Required Body</TableHead>
+              <TableHead>UN Class</TableHead>
+              <TableHead className="w-24 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {classes.map((c) =>
+              editingId === c.id ? (
+                <TableRow key={c.id}>
+                  <TableCell colSpan={5}>
+                    <div className="grid gap-2 md:grid-cols-6">
+                      {formFields(editForm, setEditForm)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleSave(c.id)} disabled={isPending}>
+                        {isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <TableRow key={c.id}>
+                  <TableCell>
+                    <p className="text-sm font-medium">{c.name}</p>
+                    {c.description && <p className="text-xs text-muted-foreground">{c.description}</p>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {c.aliases.map((a) => (
+                        <Badge key={a} variant="outline" className="text-xs font-normal">{a}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right font-mono">+{(c.surchargeRate * 100).toFixed(1)}%</TableCell>
+                  <TableCell className="text-sm">
+                    {c.requiredBodyType ?? <span className="text-muted-foreground">Any</span>}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {c.hazmatUnClass ? <Badge variant="destructive">UN {c.hazmatUnClass}</Badge> : <span className="text-muted-foreground">—</span>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEdit(c)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(c.id)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useTransition } from "react";
+import { History, Loader2, Undo2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { rollbackImportBatch, type ImportBatchSummary } from "@/app/data/_actions/import-batches";
+
+interface ImportHistoryProps {
+  batches: ImportBatchSummary[];
+  onChange: () => void; // after a rollback
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString("ko-KR", { dateStyle: "short", timeStyle: "short" });
+}
+
+export function ImportHistory({ batches, onChange }: ImportHistoryProps) {
+  const [isPending, startTransition] = useTransition();
+
+  function handleRollback(batch: ImportBatchSummary) {
+    if (!confirm(`Roll back batch #${batch.id} (${batch.fileName})? Its ${batch.currentCount} records will be deleted.`)) {
+      return;
+    }
+    startTransition(async () => {
+      const res = await rollbackImportBatch(batch.id);
+      if (!res.success) alert(res.error ?? "Rollback failed");
+      onChange();
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Import History
+        </CardTitle>
+        <CardDescription>
+          Each market data upload is a batch. Rolling a batch back deletes exactly the records it added.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {batches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No imports yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead>Imported</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead className="text-right">Records</TableHead>
+                <TableHead className="text-right">Duplicates</TableHead>
+                <TableHead className="text-right">Errors</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((b) => (
+                <TableRow key={b.id}>
+                  <TableCell className="text-muted-foreground">{b.id}</TableCell>
+                  <TableCell className="font-medium">
+                    {b.fileName}
+                    {b.sheetName && <Badge variant="outline" className="ml-2">{b.sheetName}</Badge>}
+                  </TableCell>
+                  <TableCell className="text-xs">{formatDateTime(b.createdAt)}</TableCell>
+                  <TableCell className="text-xs">{b.uploader ?? "—"}</TableCell>
+                  <TableCell className="text-right">
+                    {b.currentCount.toLocaleString()}
+                    {b.currentCount !== b.rowCount && (
+                      <span className="text-xs text-muted-foreground"> / {b.rowCount.toLocaleString()}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{b.skippedCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{b.errorCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleRollback(b)} disabled={isPending}>
+                      {isPending ? (
+                        <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                      ) : (
+                        <Undo2 className="mr-1 h-3 w-3" />
+                      )}
+                      Roll back
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
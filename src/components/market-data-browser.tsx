@@ -0,0 +1,415 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Flag,
+  FlagOff,
+  Loader2,
+  Pencil,
+  Save,
+  Search,
+  Trash2,
+  X,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  deleteMarketDataByFilter,
+  deleteMarketDataRow,
+  getMarketDataFilterOptions,
+  getMarketDataPage,
+  setMarketDataOutlier,
+  updateMarketDataRow,
+  type MarketDataFilter,
+  type MarketDataFilterOptions,
+  type MarketDataPage,
+  type MarketDataRecord,
+} from "@/app/data/_actions/market-data";
+
+interface MarketDataBrowserProps {
+  initialPage: MarketDataPage;
+  initialOptions: MarketDataFilterOptions;
+  onChange: () => void; // after rows were changed or deleted
+}
+
+// Radix Select items cannot use "" as a value
+const ANY = "__any__";
+const NO_BATCH = "__none__";
+
+interface FilterForm {
+  dateFrom: string;
+  dateTo: string;
+  origin: string;
+  destination: string;
+  vehicleType: string;
+  freightType: string;
+  batch: string;
+  outlier: string;
+}
+
+const EMPTY_FILTER: FilterForm = {
+  dateFrom: "",
+  dateTo: "",
+  origin: "",
+  destination: "",
+  vehicleType: ANY,
+  freightType: ANY,
+  batch: ANY,
+  outlier: ANY,
+};
+
+interface RowForm {
+  date: string;
+  origin: string;
+  destination: string;
+  vehicleType: string;
+  freightType: string;
+  unitPrice: string;
+}
+
+function toFilter(f: FilterForm): MarketDataFilter {
+  return {
+    ...(f.dateFrom ? { dateFrom: f.dateFrom } : {}),
+    ...(f.dateTo ? { dateTo: f.dateTo } : {}),
+    ...(f.origin.trim() ? { origin: f.origin.trim() } : {}),
+    ...(f.destination.trim() ? { destination: f.destination.trim() } : {}),
+    ...(f.vehicleType !== ANY ? { vehicleType: f.vehicleType } : {}),
+    ...(f.freightType !== ANY ? { freightType: f.freightType } : {}),
+    ...(f.batch !== ANY ? { batchId: f.batch === NO_BATCH ? null : Number(f.batch) } : {}),
+    ...(f.outlier !== ANY ? { outlier: f.outlier as "flagged" | "unflagged" } : {}),
+  };
+}
+
+function formatKRW(n: number): string {
+  return new Intl.NumberFormat("ko-KR").format(Math.round(n));
+}
+
+export function MarketDataBrowser({ initialPage, initialOptions, onChange }: MarketDataBrowserProps) {
+  const [data, setData] = useState<MarketDataPage>(initialPage);
+  const [options, setOptions] = useState<MarketDataFilterOptions>(initialOptions);
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTER);
+  const [filter, setFilter] = useState<MarketDataFilter>({}); // the filter the table shows
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [rowForm, setRowForm] = useState<RowForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const pageCount = Math.max(1, Math.ceil(data.total / data.pageSize));
+  const filtered = Object.keys(filter).length > 0;
+
+  async function load(nextFilter: MarketDataFilter, page: number) {
+    const [next, nextOptions] = await Promise.all([
+      getMarketDataPage(nextFilter, page),
+      getMarketDataFilterOptions(),
+    ]);
+    // A delete can leave the current page past the end
+    if (next.rows.length === 0 && next.total > 0 && page > 1) {
+      setData(await getMarketDataPage(nextFilter, Math.ceil(next.total / next.pageSize)));
+    } else {
+      setData(next);
+    }
+    setOptions(nextOptions);
+  }
+
+  function handleSearch() {
+    const next = toFilter(form);
+    setFilter(next);
+    setEditingId(null);
+    startTransition(() => load(next, 1));
+  }
+
+  function handleReset() {
+    setForm(EMPTY_FILTER);
+    setFilter({});
+    startTransition(() => load({}, 1));
+  }
+
+  function goToPage(page: number) {
+    setEditingId(null);
+    startTransition(() => load(filter, page));
+  }
+
+  function startEdit(row: MarketDataRecord) {
+    setEditingId(row.id);
+    setRowForm({
+      date: row.date,
+      origin: row.origin,
+      destination: row.destination,
+      vehicleType: row.vehicleType,
+      freightType: row.freightType,
+      unitPrice: String(row.unitPrice),
+    });
+  }
+
+  function handleSave(id: number) {
+    if (!rowForm) return;
+    const unitPrice = parseFloat(rowForm.unitPrice.replace(/,/g, ""));
+    if (isNaN(unitPrice)) {
+      setError("Unit price must be a number.");
+      return;
+    }
+    startTransition(async () => {
+      const res = await updateMarketDataRow(id, { ...rowForm, unitPrice });
+      if (res.success) {
+        setEditingId(null);
+        setError(null);
+        await load(filter, data.page);
+        onChange();
+      } else {
+        setError(res.error ?? "Failed to save");
+      }
+    });
+  }
+
+  function handleToggleOutlier(row: MarketDataRecord) {
+    startTransition(async () => {
+      const res = await setMarketDataOutlier(row.id, !row.isOutlier);
+      if (res.success) {
+        await load(filter, data.page);
+        onChange();
+      } else {
+        setError(res.error ?? "Failed to update");
+      }
+    });
+  }
+
+  function handleDelete(id: number) {
+    if (!confirm("Delete this record?")) return;
+    startTransition(async () => {
+      const res = await deleteMarketDataRow(id);
+      if (res.success) {
+        await load(filter, data.page);
+        onChange();
+      } else {
+        setError(res.error ?? "Failed to delete");
+      }
+    });
+  }
+
+  function handleDeleteMatching() {
+    if (!confirm(`Delete all ${data.total.toLocaleString()} records matching the filter?`)) return;
+    startTransition(async () => {
+      const res = await deleteMarketDataByFilter(filter);
+      if (res.success) {
+        setError(null);
+        await load(filter, 1);
+        onChange();
+      } else {
+        setError(res.error ?? "Failed to delete");
+      }
+    });
+  }
+
+  function optionSelect(
+    label: string,
+    value: string,
+    onValueChange: (v: string) => void,
+    items: { value: string; label: string }[]
+  ) {
+    return (
+      <div className="space-y-1">
+        <Label className="text-xs">{label}</Label>
+        <Select value={value} onValueChange={onValueChange}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            {items.map((item) => (
+              <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Browse Market Data</CardTitle>
+        <CardDescription>
+          Find, correct or delete records. Rows flagged as outliers stay in the table but are left out of
+          the market analysis.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1">
+            <Label className="text-xs">From</Label>
+            <Input className="h-8" type="date" value={form.dateFrom} onChange={(e) => setForm({ ...form, dateFrom: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">To</Label>
+            <Input className="h-8" type="date" value={form.dateTo} onChange={(e) => setForm({ ...form, dateTo: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Origin</Label>
+            <Input className="h-8" placeholder="e.g. Seoul" value={form.origin} onChange={(e) => setForm({ ...form, origin: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Destination</Label>
+            <Input className="h-8" placeholder="e.g. Busan/Haeundae" value={form.destination} onChange={(e) => setForm({ ...form, destination: e.target.value })} />
+          </div>
+          {optionSelect("Vehicle", form.vehicleType, (v) => setForm({ ...form, vehicleType: v }),
+            options.vehicleTypes.map((v) => ({ value: v, label: v })))}
+          {optionSelect("Freight type", form.freightType, (v) => setForm({ ...form, freightType: v }),
+            options.freightTypes.map((f) => ({ value: f, label: f })))}
+          {optionSelect("Import batch", form.batch, (v) => setForm({ ...form, batch: v }), [
+            { value: NO_BATCH, label: "Not imported (seed data)" },
+            ...options.batches.map((b) => ({ value: String(b.id), label: `#${b.id} ${b.fileName}` })),
+          ])}
+          {optionSelect("Outlier flag", form.outlier, (v) => setForm({ ...form, outlier: v }), [
+            { value: "flagged", label: "Flagged" },
+            { value: "unflagged", label: "Not flagged" },
+          ])}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={handleSearch} disabled={isPending}>
+            {isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Search className="mr-1 h-3 w-3" />}
+            Apply
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleReset} disabled={isPending}>
+            Reset
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            {data.total.toLocaleString()} record{data.total === 1 ? "" : "s"}
+          </span>
+          {filtered && data.total > 0 && (
+            <Button size="sm" variant="destructive" className="ml-auto" onClick={handleDeleteMatching} disabled={isPending}>
+              <Trash2 className="mr-1 h-3 w-3" />
+              Delete {data.total.toLocaleString()} matching
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {/* Records */}
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Origin</TableHead>
+                <TableHead>Destination</TableHead>
+                <TableHead>Vehicle</TableHead>
+                <TableHead>Freight</TableHead>
+                <TableHead className="text-right">Price (KRW)</TableHead>
+                <TableHead>Batch</TableHead>
+                <TableHead className="w-[120px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-sm text-muted-foreground">
+                    No records.
+                  </TableCell>
+                </TableRow>
+              )}
+              {data.rows.map((row) =>
+                editingId === row.id && rowForm ? (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      <Input className="h-8" type="date" value={rowForm.date} onChange={(e) => setRowForm({ ...rowForm, date: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input className="h-8" value={rowForm.origin} onChange={(e) => setRowForm({ ...rowForm, origin: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input className="h-8" value={rowForm.destination} onChange={(e) => setRowForm({ ...rowForm, destination: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input className="h-8 w-20" value={rowForm.vehicleType} onChange={(e) => setRowForm({ ...rowForm, vehicleType: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input className="h-8 w-28" value={rowForm.freightType} onChange={(e) => setRowForm({ ...rowForm, freightType: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input className="h-8 w-28 text-right" value={rowForm.unitPrice} onChange={(e) => setRowForm({ ...rowForm, unitPrice: e.target.value })} />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{row.batchId ?? "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleSave(row.id)} disabled={isPending}>
+                        <Save className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <TableRow key={row.id} className={row.isOutlier ? "text-muted-foreground" : undefined}>
+                    <TableCell className="whitespace-nowrap">{row.date}</TableCell>
+                    <TableCell>{row.origin}</TableCell>
+                    <TableCell>{row.destination}</TableCell>
+                    <TableCell>{row.vehicleType}</TableCell>
+                    <TableCell>{row.freightType}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {formatKRW(row.unitPrice)}
+                      {row.isOutlier && <Badge variant="destructive" className="ml-2">outlier</Badge>}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{row.batchId ?? "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEdit(row)} disabled={isPending}>
+                        <Pencil className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        title={row.isOutlier ? "Clear outlier flag" : "Flag as outlier"}
+                        onClick={() => handleToggleOutlier(row)}
+                        disabled={isPending}
+                      >
+                        {row.isOutlier ? <FlagOff className="h-3.5 w-3.5" /> : <Flag className="h-3.5 w-3.5" />}
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(row.id)} disabled={isPending}>
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Page {data.page} of {pageCount}
+          </span>
+          <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => goToPage(data.page - 1)} disabled={isPending || data.page <= 1}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => goToPage(data.page + 1)} disabled={isPending || data.page >= pageCount}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,453 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { AlertTriangle, Info, Loader2, RefreshCw, Save, Trash2, Upload, XCircle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CsvUpload } from "@/components/csv-upload";
+import {
+  previewMarketData,
+  uploadMarketData,
+  type MarketDataPreview,
+  type UploadResult,
+} from "@/app/data/_actions/upload";
+import {
+  deleteMappingProfile,
+  getMappingProfiles,
+  saveMappingProfile,
+  type ImportMappingProfile,
+} from "@/app/data/_actions/mapping-profiles";
+
+interface MarketDataImportProps {
+  initialProfiles: ImportMappingProfile[];
+  onComplete: (result: UploadResult) => void;
+}
+
+// Radix Select items cannot use "" as a value
+const NO_COLUMN = "__none__";
+const AUTO_PROFILE = "__auto__";
+
+function formatKRW(value: number): string {
+  return new Intl.NumberFormat("ko-KR").format(value);
+}
+
+export function MarketDataImport({ initialProfiles, onComplete }: MarketDataImportProps) {
+  const [profiles, setProfiles] = useState<ImportMappingProfile[]>(initialProfiles);
+  const [profileId, setProfileId] = useState<string>(AUTO_PROFILE);
+  const [profileName, setProfileName] = useState("");
+  const [uploader, setUploader] = useState("");
+  const [upload, setUpload] = useState<FormData | null>(null); // file (+ sheet) being previewed
+  const [uploadKey, setUploadKey] = useState(0);
+  const [preview, setPreview] = useState<MarketDataPreview | null>(null);
+  const [columns, setColumns] = useState<Record<string, string | null>>({});
+  const [defaults, setDefaults] = useState<Record<string, string>>({});
+  const [explicit, setExplicit] = useState(false); // columns chosen by hand or by a profile
+  const [dirty, setDirty] = useState(false);       // mapping changed since the last preview
+  const [message, setMessage] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function withMapping(
+    base: FormData,
+    cols: Record<string, string | null>,
+    defs: Record<string, string>,
+    useColumns: boolean
+  ): FormData {
+    const formData = new FormData();
+    base.forEach((value, key) => formData.append(key, value));
+    formData.set("mapping", JSON.stringify({ ...(useColumns ? { columns: cols } : {}), defaults: defs }));
+    if (uploader.trim()) formData.set("uploader", uploader.trim());
+    return formData;
+  }
+
+  async function runPreview(
+    base: FormData,
+    cols: Record<string, string | null>,
+    defs: Record<string, string>,
+    useColumns: boolean
+  ) {
+    const result = await previewMarketData(withMapping(base, cols, defs, useColumns));
+    setPreview(result);
+    setColumns(result.detected);
+    setDirty(false);
+  }
+
+  async function handlePreview(formData: FormData) {
+    setUpload(formData);
+    setMessage(null);
+    await runPreview(formData, columns, defaults, explicit);
+  }
+
+  function handleRecheck() {
+    if (!upload) return;
+    startTransition(() => runPreview(upload, columns, defaults, explicit));
+  }
+
+  function handleImport() {
+    if (!upload) return;
+    startTransition(async () => {
+      const result = await uploadMarketData(withMapping(upload, columns, defaults, explicit));
+      onComplete(result);
+      if (result.success) {
+        setUpload(null);
+        setPreview(null);
+        setUploadKey((k) => k + 1);
+      }
+    });
+  }
+
+  function setColumn(field: string, value: string) {
+    setColumns((prev) => ({ ...prev, [field]: value === NO_COLUMN ? null : value }));
+    setExplicit(true);
+    setDirty(true);
+  }
+
+  function setDefault(field: string, value: string) {
+    setDefaults((prev) => {
+      const next = { ...prev };
+      if (value) next[field] = value;
+      else delete next[field];
+      return next;
+    });
+    setDirty(true);
+  }
+
+  function handleProfileChange(value: string) {
+    setProfileId(value);
+    setMessage(null);
+    const profile = profiles.find((p) => String(p.id) === value);
+    const cols = profile?.columns ?? {};
+    const defs = profile?.defaults ?? {};
+    setColumns(cols);
+    setDefaults(defs);
+    setExplicit(profile !== undefined);
+    setProfileName(profile?.name ?? "");
+    if (upload) startTransition(() => runPreview(upload, cols, defs, profile !== undefined));
+  }
+
+  function handleSaveProfile() {
+    startTransition(async () => {
+      const res = await saveMappingProfile(profileName, { columns, defaults });
+      if (!res.success) {
+        setMessage(res.error ?? "Could not save profile");
+        return;
+      }
+      const next = await getMappingProfiles();
+      setProfiles(next);
+      const saved = next.find((p) => p.name === profileName.trim());
+      if (saved) setProfileId(String(saved.id));
+      setExplicit(true);
+      setMessage(`Saved mapping profile "${profileName.trim()}".`);
+    });
+  }
+
+  function handleDeleteProfile() {
+    const profile = profiles.find((p) => String(p.id) === profileId);
+    if (!profile || !confirm(`Delete mapping profile "${profile.name}"?`)) return;
+    startTransition(async () => {
+      const res = await deleteMappingProfile(profile.id);
+      if (!res.success) {
+        setMessage(res.error ?? "Could not delete profile");
+        return;
+      }
+      setProfiles(await getMappingProfiles());
+      setProfileId(AUTO_PROFILE);
+      setProfileName("");
+      setMessage(null);
+    });
+  }
+
+  const sampleValue = (field: string): string => {
+    const header = columns[field];
+    if (!preview || !header) return "";
+    const index = preview.headers.indexOf(header);
+    return index >= 0 ? preview.sampleRows[0]?.[index] ?? "" : "";
+  };
+
+  const headerOptions = preview ? Array.from(new Set(preview.headers.filter((h) => h.trim() !== ""))) : [];
+
+  return (
+    <div className="space-y-4">
+      <CsvUpload
+        key={uploadKey}
+        title="Import Market Data"
+        description="Upload historical freight pricing data (CSV or Excel workbook). Preview the column mapping, then import; records are appended to existing data."
+        expectedColumns="date, origin, destination, vehicleType, freightType, unitPrice"
+        onPreview={handlePreview}
+      />
+
+      {/* Mapping profile */}
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label>Mapping profile</Label>
+          <Select value={profileId} onValueChange={handleProfileChange}>
+            <SelectTrigger className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTO_PROFILE}>Detect from headers</SelectItem>
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={String(p.id)}>{p.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {profileId !== AUTO_PROFILE && (
+          <Button variant="ghost" size="icon" onClick={handleDeleteProfile} disabled={isPending}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        {preview && !preview.fileError && (
+          <>
+            <Input
+              className="w-56"
+              placeholder="Data source, e.g. Broker A"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+            <Button variant="outline" onClick={handleSaveProfile} disabled={isPending || !profileName.trim()}>
+              <Save className="mr-2 h-4 w-4" />
+              Save mapping
+            </Button>
+          </>
+        )}
+      </div>
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      {preview?.fileError && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertTitle>Cannot read file</AlertTitle>
+          <AlertDescription>{preview.fileError}</AlertDescription>
+        </Alert>
+      )}
+
+      {preview?.duplicateOf && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertTitle>Already imported</AlertTitle>
+          <AlertDescription>
+            This file was imported as batch #{preview.duplicateOf.id} ({preview.duplicateOf.fileName},{" "}
+            {preview.duplicateOf.createdAt.slice(0, 10)}). Roll that batch back in the import history to
+            import it again.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {preview && !preview.fileError && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Preview</CardTitle>
+            <CardDescription>
+              Header found on row {preview.headerRowNum}. Reassign columns or set defaults for
+              columns the file lacks, then re-check before importing.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Column mapping */}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Field</TableHead>
+                  <TableHead>Source column</TableHead>
+                  <TableHead>Default</TableHead>
+                  <TableHead>First value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.fields.map(({ field, required }) => (
+                  <TableRow key={field}>
+                    <TableCell className="font-mono text-xs">
+                      {field}
+                      {required && <span className="text-destructive"> *</span>}
+                      {preview.missingFields.includes(field) && (
+                        <Badge variant="destructive" className="ml-2">missing</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select value={columns[field] ?? NO_COLUMN} onValueChange={(v) => setColumn(field, v)}>
+                        <SelectTrigger className="h-8 w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_COLUMN}>(none)</SelectItem>
+                          {headerOptions.map((h) => (
+                            <SelectItem key={h} value={h}>{h}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        className="h-8 w-40"
+                        placeholder={field === "freightType" ? "e.g. General" : ""}
+                        value={defaults[field] ?? ""}
+                        onChange={(e) => setDefault(field, e.target.value)}
+                      />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{sampleValue(field)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {/* Summary of the valid rows */}
+            {preview.missingFields.length === 0 && (
+              <div className="grid gap-2 text-sm sm:grid-cols-2 lg:grid-cols-4">
+                <div>
+                  <p className="text-muted-foreground">Valid rows</p>
+                  <p className="font-medium">
+                    {preview.validCount.toLocaleString()}
+                    {preview.errorCount > 0 && (
+                      <span className="text-destructive"> ({preview.errorCount.toLocaleString()} with errors)</span>
+                    )}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Date range</p>
+                  <p className="font-medium">
+                    {preview.summary.dateFrom ? `${preview.summary.dateFrom} – ${preview.summary.dateTo}` : "—"}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Lanes</p>
+                  <p className="font-medium">{preview.summary.laneCount.toLocaleString()}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Unit price</p>
+                  <p className="font-medium">
+                    {preview.summary.minPrice !== null
+                      ? `₩${formatKRW(preview.summary.minPrice)} – ₩${formatKRW(preview.summary.maxPrice ?? 0)}`
+                      : "—"}
+                  </p>
+                </div>
+                {preview.summary.vehicleTypes.length > 0 && (
+                  <div className="flex flex-wrap gap-1 sm:col-span-2 lg:col-span-4">
+                    {preview.summary.vehicleTypes.map((v) => (
+                      <Badge key={v.name} variant="secondary">{v.name}: {v.count.toLocaleString()}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {preview.errors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Row errors (these rows will be skipped)</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 list-disc pl-4 text-xs">
+                    {preview.errors.map((err, i) => (
+                      <li key={i}>{err}</li>
+                    ))}
+                  </ul>
+                  {preview.errorCount > preview.errors.length && (
+                    <p className="mt-1 text-xs">...and {preview.errorCount - preview.errors.length} more</p>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {preview.normalizations.length > 0 && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertTitle>Values that will be normalized</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 list-disc pl-4 text-xs">
+                    {preview.normalizations.map((n, i) => (
+                      <li key={i}>{n}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {preview.warnings.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Warnings</AlertTitle>
+                <AlertDescription>
+                  <ul className="mt-2 list-disc pl-4 text-xs">
+                    {preview.warnings.map((w, i) => (
+                      <li key={i}>{w}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* First rows as written */}
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {preview.headers.map((h, i) => {
+                      const field = Object.keys(columns).find((f) => columns[f] === h);
+                      return (
+                        <TableHead key={i} className="whitespace-nowrap">
+                          {h}
+                          {field && <Badge variant="outline" className="ml-1 font-mono">{field}</Badge>}
+                        </TableHead>
+                      );
+                    })}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.sampleRows.map((row, r) => (
+                    <TableRow key={r}>
+                      {preview.headers.map((_, c) => (
+                        <TableCell key={c} className="whitespace-nowrap text-xs">{row[c] ?? ""}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                className="w-40"
+                placeholder="Imported by"
+                value={uploader}
+                onChange={(e) => setUploader(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleRecheck} disabled={isPending}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Re-check
+              </Button>
+              <Button onClick={handleImport} disabled={isPending || dirty || !preview.success} className="flex-1">
+                {isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Upload className="mr-2 h-4 w-4" />
+                )}
+                Import {preview.validCount.toLocaleString()} rows
+              </Button>
+            </div>
+            {dirty && (
+              <p className="text-xs text-muted-foreground">Mapping changed — re-check before importing.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Archive, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { getMarketRetention, runMarketRetention } from "@/app/data/_actions/retention";
+import type { RetentionStatus } from "@/lib/market-archive";
+
+interface MarketRetentionPanelProps {
+  initialStatus: RetentionStatus;
+  onChange: () => void; // after rows were archived
+}
+
+export function MarketRetentionPanel({ initialStatus, onChange }: MarketRetentionPanelProps) {
+  const [status, setStatus] = useState(initialStatus);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleArchive() {
+    startTransition(async () => {
+      const res = await runMarketRetention();
+      setMessage(res.success ? `Archived ${res.archived?.toLocaleString() ?? 0} records.` : res.error ?? "Archiving failed");
+      setStatus(await getMarketRetention());
+      if (res.success) onChange();
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Archive className="h-4 w-4" />
+          Retention
+        </CardTitle>
+        <CardDescription>
+          {status.months > 0
+            ? `Tier 2 analyses the last ${status.months} months (since ${status.cutoff?.slice(0, 10)}). Older records are ignored and can be moved to the archive.`
+            : "Retention is off (market_retention_months = 0): every record is analysed."}{" "}
+          Set the window with the market_retention_months cost variable.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">In window</p>
+            <p className="font-medium">{status.activeCount.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Expired</p>
+            <p className="font-medium">{status.expiredCount.toLocaleString()}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Archived</p>
+            <p className="font-medium">{status.archivedCount.toLocaleString()}</p>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleArchive} disabled={isPending || status.expiredCount === 0}>
+          {isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Archive className="mr-1 h-3 w-3" />}
+          Archive expired records
+        </Button>
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      </CardContent>
+    </Card>
+  );
+}
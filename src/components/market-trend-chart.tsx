@@ -0,0 +1,136 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getCorridorTrend } from "@/app/data/_actions/retention";
+import type { MarketPartition } from "@/lib/market-median";
+import type { TrendPoint } from "@/lib/market-archive";
+
+interface MarketTrendChartProps {
+  corridors: MarketPartition[];
+  initialTrend: TrendPoint[]; // first corridor, active window
+}
+
+const ACTIVE = "active";
+const WITH_ARCHIVE = "archive";
+
+function corridorKey(p: MarketPartition): string {
+  return `${p.originProvince}||${p.destinationProvince}||${p.vehicleType}`;
+}
+
+function formatKRW(n: number): string {
+  return new Intl.NumberFormat("ko-KR").format(Math.round(n));
+}
+
+export function MarketTrendChart({ corridors, initialTrend }: MarketTrendChartProps) {
+  const [selected, setSelected] = useState(corridors[0] ? corridorKey(corridors[0]) : "");
+  const [range, setRange] = useState(ACTIVE);
+  const [trend, setTrend] = useState(initialTrend);
+  const [isPending, startTransition] = useTransition();
+
+  function load(key: string, nextRange: string) {
+    const partition = corridors.find((c) => corridorKey(c) === key);
+    if (!partition) return;
+    startTransition(async () => {
+      setTrend(await getCorridorTrend(partition, nextRange === WITH_ARCHIVE));
+    });
+  }
+
+  if (corridors.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <div>
+          <CardTitle className="text-sm">Price Trend</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Monthly median price of a corridor. The analysis only uses the retention window; include the
+            archive to see the long-term trend.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Select
+            value={range}
+            onValueChange={(v) => {
+              setRange(v);
+              load(selected, v);
+            }}
+          >
+            <SelectTrigger className="h-8 w-40 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ACTIVE}>Active window</SelectItem>
+              <SelectItem value={WITH_ARCHIVE}>Include archive</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={selected}
+            onValueChange={(v) => {
+              setSelected(v);
+              load(v, range);
+            }}
+          >
+            <SelectTrigger className="h-8 w-64 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {corridors.map((c) => (
+                <SelectItem key={corridorKey(c)} value={corridorKey(c)}>
+                  {c.originProvince} → {c.destinationProvince} · {c.vehicleType}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {trend.length > 0 ? (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend} margin={{ top: 20, right: 20, bottom: 10, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="month" tick={{ fontSize: 11 }} className="fill-muted-foreground" />
+                <YAxis
+                  tickFormatter={(v: number) => `${Math.round(v / 10000)}만`}
+                  tick={{ fontSize: 11 }}
+                  className="fill-muted-foreground"
+                />
+                <Tooltip
+                  formatter={(value, _name, item) => [
+                    `₩${formatKRW(Number(value))} (${item.payload.sampleCount} samples${item.payload.archived ? ", archived" : ""})`,
+                    "Median",
+                  ]}
+                  contentStyle={{ fontSize: 12 }}
+                />
+                <Line type="monotone" dataKey="median" stroke="#3b82f6" strokeWidth={2} dot={{ r: 3 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No market data for this selection yet.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
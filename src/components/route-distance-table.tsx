@@ -0,0 +1,311 @@
+"use client";
+
+import { useRef, useState, useTransition } from "react";
+import { Pencil, Save, X, Trash2, Plus, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  createRouteDistance,
+  updateRouteDistance,
+  deleteRouteDistance,
+  getRouteDistances,
+  importRouteDistances,
+  type RouteDistanceInput,
+} from "@/app/settings/_actions/route-distances";
+import type { RouteDistanceOverride } from "@/lib/distance-overrides";
+
+interface RouteDistanceTableProps {
+  initialDistances: RouteDistanceOverride[];
+}
+
+interface DistanceForm {
+  origin: string;
+  destination: string;
+  distanceKm: string;
+  symmetric: boolean;
+  sourceNote: string;
+  updatedBy: string;
+}
+
+const EMPTY_FORM: DistanceForm = {
+  origin: "",
+  destination: "",
+  distanceKm: "",
+  symmetric: true,
+  sourceNote: "",
+  updatedBy: "",
+};
+
+function toForm(d: RouteDistanceOverride): DistanceForm {
+  return {
+    origin: d.origin,
+    destination: d.destination,
+    distanceKm: String(d.distanceKm),
+    symmetric: d.symmetric,
+    sourceNote: d.sourceNote ?? "",
+    updatedBy: d.updatedBy ?? "",
+  };
+}
+
+/**
+ * Validate and convert form strings. Returns null if the lane or distance is missing.
+ */
+function fromForm(f: DistanceForm): RouteDistanceInput | null {
+  const distanceKm = parseFloat(f.distanceKm);
+  if (!f.origin.trim() || !f.destination.trim() || isNaN(distanceKm) || distanceKm <= 0) return null;
+  return {
+    origin: f.origin.trim(),
+    destination: f.destination.trim(),
+    distanceKm,
+    symmetric: f.symmetric,
+    sourceNote: f.sourceNote.trim() || null,
+    updatedBy: f.updatedBy.trim() || null,
+  };
+}
+
+export function RouteDistanceTable({ initialDistances }: RouteDistanceTableProps) {
+  const [distances, setDistances] = useState(initialDistances);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<DistanceForm>(EMPTY_FORM);
+  const [showAdd, setShowAdd] = useState(false);
+  const [newForm, setNewForm] = useState<DistanceForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [importMessages, setImportMessages] = useState<string[]>([]);
+  const [isPending, startTransition] = useTransition();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  function startEdit(d: RouteDistanceOverride) {
+    setEditingId(d.id);
+    setEditForm(toForm(d));
+  }
+
+  function handleSave(id: number) {
+    const data = fromForm(editForm);
+    if (!data) {
+      setError("Origin, destination and a positive distance are required.");
+      return;
+    }
+
+    startTransition(async () => {
+      const res = await updateRouteDistance(id, data);
+      if (res.success) {
+        setDistances(await getRouteDistances());
+        setEditingId(null);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to save");
+      }
+    });
+  }
+
+  function handleDelete(id: number) {
+    if (!confirm("Delete this override? The lane goes back to the estimated distance.")) return;
+    startTransition(async () => {
+      const res = await deleteRouteDistance(id);
+      if (res.success) {
+        setDistances(await getRouteDistances());
+      }
+    });
+  }
+
+  function handleAdd() {
+    const data = fromForm(newForm);
+    if (!data) {
+      setError("Origin, destination and a positive distance are required.");
+      return;
+    }
+
+    startTransition(async () => {
+      const res = await createRouteDistance(data);
+      if (res.success) {
+        setDistances(await getRouteDistances());
+        setShowAdd(false);
+        setNewForm(EMPTY_FORM);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to add");
+      }
+    });
+  }
+
+  function handleImport(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const formData = new FormData();
+    formData.append("file", file);
+
+    startTransition(async () => {
+      const res = await importRouteDistances(formData);
+      setImportMessages([
+        res.success ? `Imported ${res.importedCount} distances.` : "Import failed.",
+        ...res.errors,
+        ...(res.warnings ?? []),
+      ]);
+      if (res.success) setDistances(await getRouteDistances());
+    });
+    e.target.value = "";
+  }
+
+  function formFields(form: DistanceForm, setForm: (f: DistanceForm) => void) {
+    return (
+      <>
+        <Input placeholder="Origin (e.g. Gyeonggi/Pyeongtaek)" value={form.origin} onChange={(e) => setForm({ ...form, origin: e.target.value })} />
+        <Input placeholder="Destination" value={form.destination} onChange={(e) => setForm({ ...form, destination: e.target.value })} />
+        <Input placeholder="km" type="number" step="1" value={form.distanceKm} onChange={(e) => setForm({ ...form, distanceKm: e.target.value })} />
+        <Select
+          value={form.symmetric ? "both" : "one-way"}
+          onValueChange={(v) => setForm({ ...form, symmetric: v === "both" })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="both">Both directions</SelectItem>
+            <SelectItem value="one-way">One-way</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input placeholder="Source note" value={form.sourceNote} onChange={(e) => setForm({ ...form, sourceNote: e.target.value })} />
+        <Input placeholder="Updated by" value={form.updatedBy} onChange={(e) => setForm({ ...form, updatedBy: e.target.value })} />
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {distances.length} measured distances. These override the estimated distance for the lane
+          (CSV columns: origin, destination, distanceKm, symmetric, sourceNote, updatedBy).
+        </p>
+        <div className="flex gap-2">
+          <input ref={fileInputRef} type="file" accept=".csv" className="hidden" onChange={handleImport} />
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isPending}>
+            <Upload className="mr-1 h-3 w-3" />
+            Import CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setShowAdd(!showAdd)}>
+            <Plus className="mr-1 h-3 w-3" />
+            Add Distance
+          </Button>
+        </div>
+      </div>
+
+      {importMessages.length > 0 && (
+        <div className="rounded-lg border p-3 text-sm">
+          <p className="font-medium">{importMessages[0]}</p>
+          {importMessages.slice(1).map((m) => (
+            <p key={m} className="text-xs text-destructive">{m}</p>
+          ))}
+        </div>
+      )}
+
+      {showAdd && (
+        <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
+          <p className="text-sm font-medium">New Distance Override</p>
+          <div className="grid gap-3 md:grid-cols-6">
+            {formFields(newForm, setNewForm)}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleAdd} disabled={isPending}>
+              {isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowAdd(false)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Origin</TableHead>
+              <TableHead>Destination</TableHead>
+              <TableHead className="text-right">Distance</TableHead>
+              <TableHead>Direction</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>Updated</TableHead>
+              <TableHead className="w-24 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {distances.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} className="py-6 text-center text-sm text-muted-foreground">
+                  No overrides yet — all distances are estimated.
+                </TableCell>
+              </TableRow>
+            )}
+            {distances.map((d) =>
+              editingId === d.id ? (
+                <TableRow key={d.id}>
+                  <TableCell colSpan={6}>
+                    <div className="grid gap-2 md:grid-cols-6">
+                      {formFields(editForm, setEditForm)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleSave(d.id)} disabled={isPending}>
+                        {isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <TableRow key={d.id}>
+                  <TableCell className="text-sm font-medium">{d.origin}</TableCell>
+                  <TableCell className="text-sm">{d.destination}</TableCell>
+                  <TableCell className="text-right font-mono">{d.distanceKm} km</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs font-normal">
+                      {d.symmetric ? "Both ways" : "One-way"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {d.sourceNote ?? <span className="text-muted-foreground">—</span>}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {new Date(d.updatedAt).toLocaleDateString("ko-KR")}
+                    {d.updatedBy && ` · ${d.updatedBy}`}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEdit(d)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(d.id)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
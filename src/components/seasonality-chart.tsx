@@ -0,0 +1,137 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  LabelList,
+  Cell,
+} from "recharts";
+import { Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getSeasonality } from "@/app/data/_actions/seasonality";
+import type { MarketPartition } from "@/lib/market-median";
+import type { SeasonalProfile } from "@/lib/seasonality";
+
+interface SeasonalityChartProps {
+  corridors: MarketPartition[];
+  initialProfile: SeasonalProfile; // national
+}
+
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+// Radix Select cannot use "" as a value
+const NATIONAL = "__national__";
+// Months below this many samples are not used by the engine (MIN_SEASONAL_SAMPLES)
+const THIN_SAMPLE = 3;
+// Corridors with fewer well-sampled months use the national index (MIN_CORRIDOR_MONTHS)
+const MIN_COVERED_MONTHS = 9;
+
+function corridorKey(p: MarketPartition): string {
+  return `${p.originProvince}||${p.destinationProvince}||${p.vehicleType}`;
+}
+
+export function SeasonalityChart({ corridors, initialProfile }: SeasonalityChartProps) {
+  const [selected, setSelected] = useState(NATIONAL);
+  const [profile, setProfile] = useState(initialProfile);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSelect(value: string) {
+    setSelected(value);
+    const partition = corridors.find((c) => corridorKey(c) === value) ?? null;
+    startTransition(async () => {
+      setProfile(await getSeasonality(partition));
+    });
+  }
+
+  const chartData = profile.months.map((m) => ({
+    label: MONTH_LABELS[m.month - 1],
+    index: m.index ?? 0,
+    hasIndex: m.index !== null,
+    sampleCount: m.sampleCount,
+    samples: `n=${m.sampleCount}`,
+  }));
+  const hasData = profile.months.some((m) => m.index !== null);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <div>
+          <CardTitle className="text-sm">Seasonality Index</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Monthly price level vs. the route median (1.0 = average). Faded months have fewer than{" "}
+            {THIN_SAMPLE} samples and fall back to the national index, as does a corridor with
+            fewer than {MIN_COVERED_MONTHS} well-sampled months.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          <Select value={selected} onValueChange={handleSelect}>
+            <SelectTrigger className="h-8 w-64 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NATIONAL}>National (all corridors)</SelectItem>
+              {corridors.map((c) => (
+                <SelectItem key={corridorKey(c)} value={corridorKey(c)}>
+                  {c.originProvince} → {c.destinationProvince} · {c.vehicleType}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {hasData ? (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 20, right: 20, bottom: 10, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} className="fill-muted-foreground" />
+                <YAxis
+                  domain={[(min: number) => Math.min(0.8, Math.floor(min * 10) / 10), "auto"]}
+                  tick={{ fontSize: 11 }}
+                  className="fill-muted-foreground"
+                />
+                <Tooltip
+                  formatter={(value, _name, item) => [
+                    `${value} (${item.payload.sampleCount} samples)`,
+                    "Index",
+                  ]}
+                  contentStyle={{ fontSize: 12 }}
+                />
+                <ReferenceLine y={1} stroke="#94a3b8" strokeDasharray="4 4" />
+                <Bar dataKey="index" radius={[4, 4, 0, 0]} maxBarSize={40}>
+                  {chartData.map((entry) => (
+                    <Cell
+                      key={entry.label}
+                      fill="#22c55e"
+                      fillOpacity={entry.hasIndex && entry.sampleCount >= THIN_SAMPLE ? 1 : 0.35}
+                    />
+                  ))}
+                  <LabelList dataKey="samples" position="top" style={{ fontSize: 10 }} className="fill-muted-foreground" />
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        ) : (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No market data for this selection yet.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
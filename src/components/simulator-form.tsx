@@ -16,9 +16,7 @@ import {
 import { TierBreakdown } from "@/components/tier-breakdown";
 import { runSimulation } from "@/app/simulator/_actions/simulate";
 import type { FPHResult } from "@/lib/pricing-engine";
-
-const VEHICLE_TYPES = ["1t", "2.5t", "3.5t", "5t", "8t", "11t", "15t", "18t", "25t"];
-const FREIGHT_TYPES = ["General", "Fragile", "Refrigerated", "Hazardous"];
+import { DEFAULT_FREIGHT_CLASS } from "@/lib/freight-class";
 
 const PRESET_ROUTES = [
   { label: "Seoul/Gangnam → Busan/Haeundae", origin: "Seoul/Gangnam", destination: "Busan/Haeundae" },
@@ -28,11 +26,18 @@ const PRESET_ROUTES = [
   { label: "Gyeonggi/Pyeongtaek → Gyeongnam/Changwon", origin: "Gyeonggi/Pyeongtaek", destination: "Gyeongnam/Changwon" },
 ];
 
-export function SimulatorForm() {
+interface SimulatorFormProps {
+  vehicleTypes: string[]; // names from the VehicleType catalog
+  freightClasses: string[]; // canonical names from the FreightClass table
+}
+
+export function SimulatorForm({ vehicleTypes, freightClasses }: SimulatorFormProps) {
   const [origin, setOrigin] = useState("");
   const [destination, setDestination] = useState("");
-  const [vehicleType, setVehicleType] = useState("11t");
-  const [freightType, setFreightType] = useState("General");
+  const [vehicleType, setVehicleType] = useState(
+    vehicleTypes.includes("11t") ? "11t" : vehicleTypes[0] ?? "11t"
+  );
+  const [freightType, setFreightType] = useState(DEFAULT_FREIGHT_CLASS);
   const [manualAdj, setManualAdj] = useState("0");
   const [result, setResult] = useState<FPHResult | null>(null);
   const [isPending, startTransition] = useTransition();
@@ -89,7 +94,7 @@ export function SimulatorForm() {
               <Label htmlFor="origin">Origin (City/District)</Label>
               <Input
                 id="origin"
-                placeholder="e.g. Seoul/Gangnam"
+                placeholder="e.g. Seoul/Gangnam or 서울 강남구"
                 value={origin}
                 onChange={(e) => setOrigin(e.target.value)}
                 className="mt-1"
@@ -99,7 +104,7 @@ export function SimulatorForm() {
               <Label htmlFor="destination">Destination (City/District)</Label>
               <Input
                 id="destination"
-                placeholder="e.g. Busan/Haeundae"
+                placeholder="e.g. Busan/Haeundae or 부산 해운대구"
                 value={destination}
                 onChange={(e) => setDestination(e.target.value)}
                 className="mt-1"
@@ -115,7 +120,7 @@ export function SimulatorForm() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {VEHICLE_TYPES.map((v) => (
+                  {vehicleTypes.map((v) => (
                     <SelectItem key={v} value={v}>
                       {v}
                     </SelectItem>
@@ -130,7 +135,7 @@ export function SimulatorForm() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {FREIGHT_TYPES.map((f) => (
+                  {freightClasses.map((f) => (
                     <SelectItem key={f} value={f}>
                       {f}
                     </SelectItem>
@@ -0,0 +1,357 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Pencil, Save, X, Trash2, Plus, Loader2, Power } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  createSurchargeRule,
+  updateSurchargeRule,
+  deleteSurchargeRule,
+  getSurchargeCalendar,
+  type SurchargeRuleInput,
+} from "@/app/settings/_actions/surcharge-calendar";
+import type { SurchargeKind, SurchargeRule } from "@/lib/surcharge-calendar";
+
+interface SurchargeCalendarTableProps {
+  initialRules: SurchargeRule[];
+}
+
+const KINDS: SurchargeKind[] = ["Holiday", "Peak", "Weekend", "Night"];
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface RuleForm {
+  name: string;
+  kind: SurchargeKind;
+  startDate: string;
+  endDate: string;
+  daysOfWeek: string;
+  startTime: string;
+  endTime: string;
+  rate: string; // percent
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: "",
+  kind: "Holiday",
+  startDate: "",
+  endDate: "",
+  daysOfWeek: "0,6",
+  startTime: "22:00",
+  endTime: "06:00",
+  rate: "",
+};
+
+function kindBadge(kind: string) {
+  switch (kind) {
+    case "Holiday":
+      return <Badge variant="destructive">{kind}</Badge>;
+    case "Peak":
+      return <Badge className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-300">{kind}</Badge>;
+    case "Weekend":
+      return <Badge variant="secondary">{kind}</Badge>;
+    default:
+      return <Badge className="bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-300">{kind}</Badge>;
+  }
+}
+
+function describeWhen(rule: SurchargeRule): string {
+  switch (rule.kind) {
+    case "Holiday":
+    case "Peak":
+      return rule.endDate && rule.endDate !== rule.startDate
+        ? `${rule.startDate} ~ ${rule.endDate}`
+        : rule.startDate ?? "";
+    case "Weekend":
+      return (rule.daysOfWeek ?? "")
+        .split(",")
+        .map((d) => WEEKDAYS[Number(d)] ?? d)
+        .join(", ");
+    case "Night":
+      return `${rule.startTime} ~ ${rule.endTime}`;
+    default:
+      return "";
+  }
+}
+
+function toForm(rule: SurchargeRule): RuleForm {
+  return {
+    name: rule.name,
+    kind: rule.kind,
+    startDate: rule.startDate ?? "",
+    endDate: rule.endDate ?? "",
+    daysOfWeek: rule.daysOfWeek ?? "",
+    startTime: rule.startTime ?? "",
+    endTime: rule.endTime ?? "",
+    rate: String(Math.round(rule.rate * 10000) / 100),
+  };
+}
+
+/**
+ * Convert the form to a rule, keeping only the fields its kind uses.
+ * Returns null if required fields are missing.
+ */
+function fromForm(f: RuleForm, isActive: boolean): SurchargeRuleInput | null {
+  const rate = parseFloat(f.rate) / 100;
+  if (!f.name.trim() || isNaN(rate)) return null;
+
+  const dated = f.kind === "Holiday" || f.kind === "Peak";
+  if (dated && !f.startDate) return null;
+  if (f.kind === "Weekend" && !f.daysOfWeek.trim()) return null;
+  if (f.kind === "Night" && (!f.startTime || !f.endTime)) return null;
+
+  return {
+    name: f.name.trim(),
+    kind: f.kind,
+    startDate: dated ? f.startDate : null,
+    endDate: dated ? f.endDate || f.startDate : null,
+    daysOfWeek: f.kind === "Weekend" ? f.daysOfWeek.replace(/\s/g, "") : null,
+    startTime: f.kind === "Night" ? f.startTime : null,
+    endTime: f.kind === "Night" ? f.endTime : null,
+    rate,
+    isActive,
+  };
+}
+
+export function SurchargeCalendarTable({ initialRules }: SurchargeCalendarTableProps) {
+  const [rules, setRules] = useState(initialRules);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<RuleForm>(EMPTY_FORM);
+  const [showAdd, setShowAdd] = useState(false);
+  const [newForm, setNewForm] = useState<RuleForm>(EMPTY_FORM);
+  const [kindFilter, setKindFilter] = useState<string>("all");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function refresh() {
+    startTransition(async () => {
+      setRules(await getSurchargeCalendar());
+    });
+  }
+
+  function handleSave(rule: SurchargeRule) {
+    const data = fromForm(editForm, rule.isActive);
+    if (!data) {
+      setError("Name, rate and the fields for this kind are required.");
+      return;
+    }
+    startTransition(async () => {
+      const res = await updateSurchargeRule(rule.id, data);
+      if (res.success) {
+        setRules(await getSurchargeCalendar());
+        setEditingId(null);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to save");
+      }
+    });
+  }
+
+  function handleToggle(rule: SurchargeRule) {
+    startTransition(async () => {
+      const res = await updateSurchargeRule(rule.id, { isActive: !rule.isActive });
+      if (res.success) setRules(await getSurchargeCalendar());
+    });
+  }
+
+  function handleDelete(id: number) {
+    if (!confirm("Delete this surcharge rule?")) return;
+    startTransition(async () => {
+      const res = await deleteSurchargeRule(id);
+      if (res.success) refresh();
+    });
+  }
+
+  function handleAdd() {
+    const data = fromForm(newForm, true);
+    if (!data) {
+      setError("Name, rate and the fields for this kind are required.");
+      return;
+    }
+    startTransition(async () => {
+      const res = await createSurchargeRule(data);
+      if (res.success) {
+        setRules(await getSurchargeCalendar());
+        setShowAdd(false);
+        setNewForm(EMPTY_FORM);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to add");
+      }
+    });
+  }
+
+  function formFields(form: RuleForm, setForm: (f: RuleForm) => void) {
+    return (
+      <>
+        <Input placeholder="Name (e.g. Chuseok 2026)" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+        <Select value={form.kind} onValueChange={(v) => setForm({ ...form, kind: v as SurchargeKind })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {KINDS.map((k) => (
+              <SelectItem key={k} value={k}>{k}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {(form.kind === "Holiday" || form.kind === "Peak") && (
+          <>
+            <Input type="date" value={form.startDate} onChange={(e) => setForm({ ...form, startDate: e.target.value })} />
+            <Input type="date" value={form.endDate} onChange={(e) => setForm({ ...form, endDate: e.target.value })} />
+          </>
+        )}
+        {form.kind === "Weekend" && (
+          <Input
+            placeholder="Days (0=Sun … 6=Sat, e.g. 0,6)"
+            value={form.daysOfWeek}
+            onChange={(e) => setForm({ ...form, daysOfWeek: e.target.value })}
+            className="md:col-span-2"
+          />
+        )}
+        {form.kind === "Night" && (
+          <>
+            <Input type="time" value={form.startTime} onChange={(e) => setForm({ ...form, startTime: e.target.value })} />
+            <Input type="time" value={form.endTime} onChange={(e) => setForm({ ...form, endTime: e.target.value })} />
+          </>
+        )}
+        <Input placeholder="Rate (%)" type="number" step="0.5" value={form.rate} onChange={(e) => setForm({ ...form, rate: e.target.value })} />
+      </>
+    );
+  }
+
+  const visible = kindFilter === "all" ? rules : rules.filter((r) => r.kind === kindFilter);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Applied in Tier 3 from the pickup date/time. Day rules (holiday, peak, weekend) take the
+          highest match; night rules add on top.
+        </p>
+        <div className="flex gap-2">
+          <Select value={kindFilter} onValueChange={setKindFilter}>
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All kinds</SelectItem>
+              {KINDS.map((k) => (
+                <SelectItem key={k} value={k}>{k}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={() => setShowAdd(!showAdd)}>
+            <Plus className="mr-1 h-3 w-3" />
+            Add Rule
+          </Button>
+        </div>
+      </div>
+
+      {showAdd && (
+        <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
+          <p className="text-sm font-medium">New Surcharge Rule</p>
+          <div className="grid gap-3 md:grid-cols-5">
+            {formFields(newForm, setNewForm)}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleAdd} disabled={isPending}>
+              {isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowAdd(false)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-28">Kind</TableHead>
+              <TableHead>Name</TableHead>
+              <TableHead>When</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead className="w-32 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {visible.map((rule) =>
+              editingId === rule.id ? (
+                <TableRow key={rule.id}>
+                  <TableCell colSpan={4}>
+                    <div className="grid gap-2 md:grid-cols-5">
+                      {formFields(editForm, setEditForm)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleSave(rule)} disabled={isPending}>
+                        {isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <TableRow key={rule.id} className={rule.isActive ? "" : "opacity-50"}>
+                  <TableCell>{kindBadge(rule.kind)}</TableCell>
+                  <TableCell className="text-sm font-medium">{rule.name}</TableCell>
+                  <TableCell className="font-mono text-xs text-muted-foreground">{describeWhen(rule)}</TableCell>
+                  <TableCell className="text-right font-mono">+{(rule.rate * 100).toFixed(1)}%</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        onClick={() => handleToggle(rule)}
+                        title={rule.isActive ? "Disable" : "Enable"}
+                      >
+                        <Power className={`h-3 w-3 ${rule.isActive ? "text-green-600" : ""}`} />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        onClick={() => {
+                          setEditingId(rule.id);
+                          setEditForm(toForm(rule));
+                        }}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(rule.id)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
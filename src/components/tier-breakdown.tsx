@@ -39,6 +39,29 @@ function confidenceBadge(score: number) {
 
 const TIER_COLORS = ["#6366f1", "#22c55e", "#f59e0b"];
 
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const TRIP_MODE_LABELS: Record<string, string> = {
+  "one-way": "One-way",
+  "round-trip": "Round-trip",
+  "empty-return": "Empty return",
+};
+
+/**
+ * "Class 3 · 900 + 47/km", or the average rate when the class has no tariff.
+ */
+function tollTariffLabel(toll: FPHResult["tier1"]["toll"]): string {
+  const perKm = `${toll.perKmRate.toFixed(1)}/km`;
+  if (toll.source === "average") return `Average · ${perKm}`;
+  return `Class ${toll.tollClass} · ${formatKRW(toll.baseFee)} + ${perKm}`;
+}
+
+const FALLBACK_LABELS: Record<string, string> = {
+  province: "province-level aggregation",
+  region: "regional bloc aggregation",
+  national: "the national per-km rate × route distance",
+};
+
 export function TierBreakdown({ result }: TierBreakdownProps) {
   const { input, tier1, tier2, tier3, summary } = result;
 
@@ -58,10 +81,11 @@ export function TierBreakdown({ result }: TierBreakdownProps) {
               <TruckIcon className="h-6 w-6 text-muted-foreground" />
               <div>
                 <p className="text-lg font-semibold">
-                  {input.origin} → {input.destination}
+                  {[input.origin, ...(input.stops ?? []), input.destination].join(" → ")}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  {input.vehicleType} · {input.freightType ?? "General"}
+                  {input.vehicleType} · {tier3.freightClass ?? input.freightType ?? "General"} · {TRIP_MODE_LABELS[tier1.tripMode] ?? tier1.tripMode}
+                  {input.pickupAt && <> · Pickup {input.pickupAt.replace("T", " ")}</>}
                 </p>
               </div>
             </div>
@@ -89,11 +113,19 @@ export function TierBreakdown({ result }: TierBreakdownProps) {
         </div>
       </div>
 
+      {summary.warnings?.map((w) => (
+        <Alert key={w} variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{w}</AlertDescription>
+        </Alert>
+      ))}
+
       {tier2.isFallback && tier2.hasMarketData && (
         <Alert>
           <AlertTriangle className="h-4 w-4" />
           <AlertDescription>
-            Exact route data insufficient. Market price based on <strong>province-level</strong> aggregation (lower confidence).
+            Exact route data insufficient. Market price based on{" "}
+            <strong>{FALLBACK_LABELS[tier2.fallbackLevel ?? "province"]}</strong> (lower confidence).
           </AlertDescription>
         </Alert>
       )}
@@ -155,13 +187,62 @@ export function TierBreakdown({ result }: TierBreakdownProps) {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-2 text-sm">
-            <Row label="Distance" value={`${tier1.distanceKm} km`} sub={tier1.distanceSource} />
+            <Row label="Distance" value={`${tier1.distanceKm} km`} sub={tier1.distanceSource.replace(/-/g, " ")} />
+            {tier1.legs.length > 1 &&
+              tier1.legs.map((leg, i) => (
+                <Row
+                  key={i}
+                  label={`Leg ${i + 1}`}
+                  value={`${leg.distanceKm} km`}
+                  sub={`${leg.origin.split("/")[0]} → ${leg.destination.split("/")[0]}`}
+                  className="text-xs"
+                />
+              ))}
+            {tier1.segments
+              .filter((seg) => seg.kind !== "local")
+              .map((seg, i) => (
+                <Row
+                  key={`seg-${i}`}
+                  label={seg.road}
+                  value={`${seg.km} km`}
+                  sub={`${seg.from} → ${seg.to}`}
+                  className="text-xs"
+                />
+              ))}
             <Row label="Fuel Cost" value={formatKRW(tier1.fuelCost)} />
-            <Row label="Toll Cost" value={formatKRW(tier1.tollCost)} />
+            <Row
+              label="Toll Cost"
+              value={formatKRW(tier1.tollCost)}
+              sub={tier1.tolledKm !== tier1.distanceKm ? `${tier1.tolledKm} km tolled` : undefined}
+            />
+            <Row label="Toll Tariff" value={tollTariffLabel(tier1.toll)} className="text-xs" />
+            {tier1.toll.discount > 0 && (
+              <Row
+                label={`${tier1.toll.discountRule} (−${(tier1.toll.discountRate * 100).toFixed(0)}%)`}
+                value={`−${formatKRW(tier1.toll.discount)}`}
+                className="text-xs"
+              />
+            )}
             <Row label="Fixed Cost" value={formatKRW(tier1.fixedCost)} />
+            {tier1.stopCount > 0 && (
+              <Row label={`Stop Handling (${tier1.stopCount})`} value={formatKRW(tier1.stopHandlingFee)} />
+            )}
             <div className="border-t pt-2">
               <Row label="Driver Profit" value={formatKRW(tier1.driverProfit)} highlight />
             </div>
+            {tier1.deadhead && (
+              <div className="border-t pt-2 space-y-2">
+                <Row label="Empty Return" value={`${tier1.deadhead.distanceKm} km`} />
+                <Row label="Return Fuel" value={formatKRW(tier1.deadhead.fuelCost)} />
+                <Row label="Return Toll" value={formatKRW(tier1.deadhead.tollCost)} />
+                <Row label="Return Time" value={formatKRW(tier1.deadhead.timeCost)} />
+                <Row
+                  label={`Deadhead (${(tier1.deadhead.chargeRate * 100).toFixed(0)}%)`}
+                  value={`+${formatKRW(tier1.deadhead.charged)}`}
+                  highlight
+                />
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -178,9 +259,26 @@ export function TierBreakdown({ result }: TierBreakdownProps) {
           <CardContent className="space-y-2 text-sm">
             {tier2.hasMarketData ? (
               <>
-                <Row label="Market Median" value={formatKRW(tier2.marketMedian!)} />
+                <Row
+                  label="Market Median"
+                  value={formatKRW(tier2.marketMedian!)}
+                  sub={tier2.legMedians.length > 0 ? (tier2.marketBasis === "legs" ? "sum of legs" : "whole trip + stops") : undefined}
+                />
+                {tier2.seasonalMonth !== null && (
+                  <Row
+                    label={`Seasonal (${MONTH_LABELS[tier2.seasonalMonth - 1]})`}
+                    value={`×${tier2.seasonalIndex}`}
+                    sub={tier2.seasonalScope === "corridor" ? "corridor index" : "national index"}
+                  />
+                )}
                 <Row label="Adjustment" value={`×${tier2.adjustmentFactor}`} />
+                {tier2.deadheadPassThrough > 0 && (
+                  <Row label="Deadhead (pass-through)" value={`+${formatKRW(tier2.deadheadPassThrough)}`} />
+                )}
                 <Row label="Samples" value={String(tier2.sampleSize)} />
+                {tier2.effectiveAgeDays !== null && (
+                  <Row label="Effective Age" value={`${Math.round(tier2.effectiveAgeDays)} days`} sub="recency-weighted" />
+                )}
                 <Row
                   label="Confidence"
                   value={`${(tier2.confidenceScore * 100).toFixed(0)}%`}
@@ -188,7 +286,7 @@ export function TierBreakdown({ result }: TierBreakdownProps) {
                 />
                 {tier2.isFallback && (
                   <div className="flex items-center gap-1 text-xs text-yellow-600">
-                    <AlertTriangle className="h-3 w-3" /> Province fallback
+                    <AlertTriangle className="h-3 w-3" /> {tier2.fallbackLevel} fallback
                   </div>
                 )}
               </>
@@ -215,10 +313,16 @@ export function TierBreakdown({ result }: TierBreakdownProps) {
             />
             {tier3.freightRiskRate > 0 && (
               <Row
-                label={`Freight Risk (${(tier3.freightRiskRate * 100).toFixed(0)}%)`}
+                label={`Freight: ${tier3.freightClass}${tier3.hazmatUnClass ? ` (UN ${tier3.hazmatUnClass})` : ""} (${(tier3.freightRiskRate * 100).toFixed(0)}%)`}
                 value={`+${formatKRW(tier3.freightRiskSurcharge)}`}
               />
             )}
+            {tier3.calendarSurchargeRate > 0 && (
+              <Row
+                label={`Calendar: ${tier3.calendarRules.join(" + ")} (${(tier3.calendarSurchargeRate * 100).toFixed(0)}%)`}
+                value={`+${formatKRW(tier3.calendarSurcharge)}`}
+              />
+            )}
             {tier3.manualAdjustmentRate !== 0 && (
               <Row
                 label={`Manual (${(tier3.manualAdjustmentRate * 100).toFixed(1)}%)`}
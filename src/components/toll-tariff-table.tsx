@@ -0,0 +1,380 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Pencil, Save, X, Trash2, Plus, Loader2, Power } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  createTollDiscountRule,
+  deleteTollDiscountRule,
+  getTollTariffs,
+  saveTollRate,
+  updateTollDiscountRule,
+  type TollDiscountRuleInput,
+} from "@/app/settings/_actions/tolls";
+import type { TollDiscountRule, TollRateSpec } from "@/lib/toll";
+
+interface TollTariffTableProps {
+  initialRates: TollRateSpec[];
+  initialRules: TollDiscountRule[];
+}
+
+const TOLL_CLASSES = [1, 2, 3, 4, 5];
+
+interface RateForm {
+  baseFee: string;
+  perKmRate: string;
+  description: string;
+}
+
+interface RuleForm {
+  name: string;
+  startTime: string;
+  endTime: string;
+  discountRate: string; // percent
+  tollClasses: string;  // blank = every class
+}
+
+const EMPTY_RULE: RuleForm = {
+  name: "",
+  startTime: "21:00",
+  endTime: "06:00",
+  discountRate: "",
+  tollClasses: "",
+};
+
+function formatKRW(n: number): string {
+  return new Intl.NumberFormat("ko-KR").format(Math.round(n));
+}
+
+function toRuleForm(rule: TollDiscountRule): RuleForm {
+  return {
+    name: rule.name,
+    startTime: rule.startTime,
+    endTime: rule.endTime,
+    discountRate: String(Math.round(rule.discountRate * 10000) / 100),
+    tollClasses: rule.tollClasses ?? "",
+  };
+}
+
+/**
+ * Returns null if required fields are missing.
+ */
+function fromRuleForm(f: RuleForm, isActive: boolean): TollDiscountRuleInput | null {
+  const discountRate = parseFloat(f.discountRate) / 100;
+  if (!f.name.trim() || !f.startTime || !f.endTime || isNaN(discountRate)) return null;
+  return {
+    name: f.name.trim(),
+    startTime: f.startTime,
+    endTime: f.endTime,
+    discountRate,
+    tollClasses: f.tollClasses.replace(/\s/g, "") || null,
+    isActive,
+  };
+}
+
+export function TollTariffTable({ initialRates, initialRules }: TollTariffTableProps) {
+  const [rates, setRates] = useState(initialRates);
+  const [rules, setRules] = useState(initialRules);
+  const [editingClass, setEditingClass] = useState<number | null>(null);
+  const [rateForm, setRateForm] = useState<RateForm>({ baseFee: "", perKmRate: "", description: "" });
+  const [editingRuleId, setEditingRuleId] = useState<number | null>(null);
+  const [editRule, setEditRule] = useState<RuleForm>(EMPTY_RULE);
+  const [showAdd, setShowAdd] = useState(false);
+  const [newRule, setNewRule] = useState<RuleForm>(EMPTY_RULE);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  async function reload() {
+    const next = await getTollTariffs();
+    setRates(next.rates);
+    setRules(next.rules);
+  }
+
+  function startEditRate(tollClass: number) {
+    const rate = rates.find((r) => r.tollClass === tollClass);
+    setEditingClass(tollClass);
+    setRateForm({
+      baseFee: rate ? String(rate.baseFee) : "",
+      perKmRate: rate ? String(rate.perKmRate) : "",
+      description: rate?.description ?? "",
+    });
+  }
+
+  function handleSaveRate(tollClass: number) {
+    const baseFee = parseFloat(rateForm.baseFee);
+    const perKmRate = parseFloat(rateForm.perKmRate);
+    if (isNaN(baseFee) || isNaN(perKmRate)) {
+      setError("Base fee and per-km rate are required.");
+      return;
+    }
+    startTransition(async () => {
+      const res = await saveTollRate({
+        tollClass,
+        baseFee,
+        perKmRate,
+        description: rateForm.description.trim() || null,
+      });
+      if (res.success) {
+        await reload();
+        setEditingClass(null);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to save");
+      }
+    });
+  }
+
+  function handleSaveRule(rule: TollDiscountRule) {
+    const data = fromRuleForm(editRule, rule.isActive);
+    if (!data) {
+      setError("Name, time window and discount are required.");
+      return;
+    }
+    startTransition(async () => {
+      const res = await updateTollDiscountRule(rule.id, data);
+      if (res.success) {
+        await reload();
+        setEditingRuleId(null);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to save");
+      }
+    });
+  }
+
+  function handleToggleRule(rule: TollDiscountRule) {
+    startTransition(async () => {
+      const res = await updateTollDiscountRule(rule.id, { isActive: !rule.isActive });
+      if (res.success) await reload();
+    });
+  }
+
+  function handleDeleteRule(id: number) {
+    if (!confirm("Delete this discount rule?")) return;
+    startTransition(async () => {
+      const res = await deleteTollDiscountRule(id);
+      if (res.success) await reload();
+    });
+  }
+
+  function handleAddRule() {
+    const data = fromRuleForm(newRule, true);
+    if (!data) {
+      setError("Name, time window and discount are required.");
+      return;
+    }
+    startTransition(async () => {
+      const res = await createTollDiscountRule(data);
+      if (res.success) {
+        await reload();
+        setShowAdd(false);
+        setNewRule(EMPTY_RULE);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to add");
+      }
+    });
+  }
+
+  function ruleFields(form: RuleForm, setForm: (f: RuleForm) => void) {
+    return (
+      <>
+        <Input placeholder="Name (e.g. Freight night)" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+        <Input type="time" value={form.startTime} onChange={(e) => setForm({ ...form, startTime: e.target.value })} />
+        <Input type="time" value={form.endTime} onChange={(e) => setForm({ ...form, endTime: e.target.value })} />
+        <Input placeholder="Discount (%)" type="number" step="5" value={form.discountRate} onChange={(e) => setForm({ ...form, discountRate: e.target.value })} />
+        <Input placeholder="Classes (blank = all)" value={form.tollClasses} onChange={(e) => setForm({ ...form, tollClasses: e.target.value })} />
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Tier 1 toll per loaded trip: base fee + per-km rate × tolled km, by the vehicle&apos;s toll
+          class (set under Vehicle Types). Classes without a rate use the average toll_rate cost variable.
+        </p>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-24">Class</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Base Fee</TableHead>
+                <TableHead className="text-right">KRW / km</TableHead>
+                <TableHead className="text-right">300 km Trip</TableHead>
+                <TableHead className="w-24 text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {TOLL_CLASSES.map((tollClass) => {
+                const rate = rates.find((r) => r.tollClass === tollClass);
+                return editingClass === tollClass ? (
+                  <TableRow key={tollClass}>
+                    <TableCell className="text-sm font-medium">Class {tollClass}</TableCell>
+                    <TableCell>
+                      <Input className="h-8" placeholder="Description" value={rateForm.description} onChange={(e) => setRateForm({ ...rateForm, description: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input className="h-8 text-right" type="number" step="any" value={rateForm.baseFee} onChange={(e) => setRateForm({ ...rateForm, baseFee: e.target.value })} />
+                    </TableCell>
+                    <TableCell>
+                      <Input className="h-8 text-right" type="number" step="any" value={rateForm.perKmRate} onChange={(e) => setRateForm({ ...rateForm, perKmRate: e.target.value })} />
+                    </TableCell>
+                    <TableCell />
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleSaveRate(tollClass)} disabled={isPending}>
+                          {isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingClass(null)}>
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <TableRow key={tollClass}>
+                    <TableCell className="text-sm font-medium">Class {tollClass}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {rate ? rate.description : <Badge variant="outline">average toll_rate</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{rate ? formatKRW(rate.baseFee) : "—"}</TableCell>
+                    <TableCell className="text-right font-mono">{rate ? rate.perKmRate.toFixed(1) : "—"}</TableCell>
+                    <TableCell className="text-right font-mono text-muted-foreground">
+                      {rate ? formatKRW(rate.baseFee + rate.perKmRate * 300) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEditRate(tollClass)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <p className="text-sm font-medium">Discount Rules</p>
+            <p className="text-xs text-muted-foreground">
+              Matched on the pickup time; the highest matching discount applies to loaded legs.
+              The empty return leg always pays the full toll.
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => setShowAdd(!showAdd)}>
+            <Plus className="mr-1 h-3 w-3" />
+            Add Rule
+          </Button>
+        </div>
+
+        {showAdd && (
+          <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
+            <p className="text-sm font-medium">New Discount Rule</p>
+            <div className="grid gap-3 md:grid-cols-5">
+              {ruleFields(newRule, setNewRule)}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleAddRule} disabled={isPending}>
+                {isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+                Save
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setShowAdd(false)}>Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Window</TableHead>
+                <TableHead>Classes</TableHead>
+                <TableHead className="text-right">Discount</TableHead>
+                <TableHead className="w-32 text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) =>
+                editingRuleId === rule.id ? (
+                  <TableRow key={rule.id}>
+                    <TableCell colSpan={4}>
+                      <div className="grid gap-2 md:grid-cols-5">
+                        {ruleFields(editRule, setEditRule)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleSaveRule(rule)} disabled={isPending}>
+                          {isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingRuleId(null)}>
+                          <X className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  <TableRow key={rule.id} className={rule.isActive ? "" : "opacity-50"}>
+                    <TableCell className="text-sm font-medium">{rule.name}</TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">
+                      {rule.startTime} ~ {rule.endTime}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{rule.tollClasses ?? "All"}</TableCell>
+                    <TableCell className="text-right font-mono">−{(rule.discountRate * 100).toFixed(0)}%</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => handleToggleRule(rule)}
+                          title={rule.isActive ? "Disable" : "Enable"}
+                        >
+                          <Power className={`h-3 w-3 ${rule.isActive ? "text-green-600" : ""}`} />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-7 w-7"
+                          onClick={() => {
+                            setEditingRuleId(rule.id);
+                            setEditRule(toRuleForm(rule));
+                          }}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDeleteRule(rule.id)}>
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </div>
+  );
+}
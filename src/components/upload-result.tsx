@@ -53,7 +53,9 @@ export function UploadResultDisplay({ result, type }: UploadResultDisplayProps)
         <AlertTitle>Import Successful</AlertTitle>
         <AlertDescription>
           {result.importedCount} records imported
-          {result.errorCount > 0 && ` (${result.errorCount} rows skipped)`}.
+          {result.errorCount > 0 && ` (${result.errorCount} rows skipped)`}
+          {result.skippedCount ? `; ${result.skippedCount} rows were already imported by an earlier batch and left out` : ""}
+          {result.batchId !== undefined && ` as batch #${result.batchId}`}.
         </AlertDescription>
       </Alert>
 
@@ -72,6 +74,51 @@ export function UploadResultDisplay({ result, type }: UploadResultDisplayProps)
         </Alert>
       )}
 
+      {/* Rows an earlier import already holds */}
+      {result.skippedRows && result.skippedRows.length > 0 && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertTitle>Already Imported</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 list-disc pl-4 text-sm">
+              {result.skippedRows.map((row, i) => (
+                <li key={i}>{row}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Locations that could not be normalised */}
+      {result.warnings && result.warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Unresolved Locations</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 list-disc pl-4 text-sm">
+              {result.warnings.map((w, i) => (
+                <li key={i}>{w}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Values rewritten to the canonical format */}
+      {result.normalizations && result.normalizations.length > 0 && (
+        <Alert>
+          <Info className="h-4 w-4" />
+          <AlertTitle>Normalized Values</AlertTitle>
+          <AlertDescription>
+            <ul className="mt-2 list-disc pl-4 text-sm">
+              {result.normalizations.map((n, i) => (
+                <li key={i}>{n}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Analysis results (MarketData only) */}
       {type === "MarketData" && result.analysis && (
         <div className="space-y-3">
@@ -81,10 +128,12 @@ export function UploadResultDisplay({ result, type }: UploadResultDisplayProps)
           </div>
 
           {/* Stats row */}
-          <div className="grid grid-cols-4 gap-3">
+          <div className="grid grid-cols-3 gap-3 md:grid-cols-6">
             <StatCard label="Total Routes" value={String(result.analysis.totalRoutes)} />
             <StatCard label="Exact Match" value={String(result.analysis.exactRoutes)} />
             <StatCard label="Province Fallback" value={String(result.analysis.fallbackRoutes)} />
+            <StatCard label="Region Fallback" value={String(result.analysis.regionRoutes)} />
+            <StatCard label="National Rates" value={String(result.analysis.nationalRates)} />
             <StatCard label="Avg Confidence" value={`${(result.analysis.avgConfidence * 100).toFixed(0)}%`} />
           </div>
 
@@ -112,6 +161,7 @@ export function UploadResultDisplay({ result, type }: UploadResultDisplayProps)
                       <TableCell>{route.vehicleType}</TableCell>
                       <TableCell className="text-right font-mono">
                         {formatKRW(route.median)}
+                        {route.fallbackLevel === "national" && "/km"}
                       </TableCell>
                       <TableCell className="text-right">
                         {route.filteredSize}/{route.sampleSize}
@@ -126,7 +176,7 @@ export function UploadResultDisplay({ result, type }: UploadResultDisplayProps)
                       </TableCell>
                       <TableCell className="text-center">
                         {route.isFallback ? (
-                          <Badge variant="outline">Fallback</Badge>
+                          <Badge variant="outline" className="capitalize">{route.fallbackLevel}</Badge>
                         ) : (
                           <Badge variant="secondary">Exact</Badge>
                         )}
@@ -0,0 +1,285 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Pencil, Save, X, Trash2, Plus, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  createVehicleType,
+  updateVehicleType,
+  deleteVehicleType,
+  getVehicleTypes,
+  type VehicleTypeInput,
+} from "@/app/settings/_actions/vehicle-types";
+import type { VehicleSpec } from "@/lib/vehicle-catalog";
+
+interface VehicleTypeTableProps {
+  initialVehicles: VehicleSpec[];
+}
+
+const BODY_TYPES = ["Cargo", "Wing", "Box", "Refrigerated", "Flatbed", "Tanker"];
+const TOLL_CLASSES = ["1", "2", "3", "4", "5"];
+
+interface VehicleForm {
+  name: string;
+  tonnage: string;
+  payloadKg: string;
+  fuelEfficiency: string;
+  bodyType: string;
+  tollClass: string;
+  fixedCostPerTrip: string;
+}
+
+const EMPTY_FORM: VehicleForm = {
+  name: "",
+  tonnage: "",
+  payloadKg: "",
+  fuelEfficiency: "",
+  bodyType: "Cargo",
+  tollClass: "1",
+  fixedCostPerTrip: "",
+};
+
+function toForm(v: VehicleSpec): VehicleForm {
+  return {
+    name: v.name,
+    tonnage: String(v.tonnage),
+    payloadKg: String(v.payloadKg),
+    fuelEfficiency: String(v.fuelEfficiency),
+    bodyType: v.bodyType,
+    tollClass: String(v.tollClass),
+    fixedCostPerTrip: String(v.fixedCostPerTrip),
+  };
+}
+
+/**
+ * Validate and convert form strings. Returns null if any number is invalid.
+ */
+function fromForm(f: VehicleForm): VehicleTypeInput | null {
+  const parsed = {
+    name: f.name.trim(),
+    tonnage: parseFloat(f.tonnage),
+    payloadKg: parseFloat(f.payloadKg),
+    fuelEfficiency: parseFloat(f.fuelEfficiency),
+    bodyType: f.bodyType,
+    tollClass: parseInt(f.tollClass, 10),
+    fixedCostPerTrip: parseFloat(f.fixedCostPerTrip),
+  };
+  if (!parsed.name) return null;
+  if ([parsed.tonnage, parsed.payloadKg, parsed.fuelEfficiency, parsed.fixedCostPerTrip].some(isNaN)) return null;
+  if (parsed.fuelEfficiency <= 0) return null;
+  return parsed;
+}
+
+function formatNumber(n: number): string {
+  return new Intl.NumberFormat("ko-KR").format(n);
+}
+
+export function VehicleTypeTable({ initialVehicles }: VehicleTypeTableProps) {
+  const [vehicles, setVehicles] = useState(initialVehicles);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editForm, setEditForm] = useState<VehicleForm>(EMPTY_FORM);
+  const [showAdd, setShowAdd] = useState(false);
+  const [newForm, setNewForm] = useState<VehicleForm>(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function startEdit(v: VehicleSpec) {
+    setEditingId(v.id);
+    setEditForm(toForm(v));
+  }
+
+  function handleSave(id: number) {
+    const data = fromForm(editForm);
+    if (!data) {
+      setError("All numeric fields are required.");
+      return;
+    }
+
+    startTransition(async () => {
+      const res = await updateVehicleType(id, data);
+      if (res.success) {
+        setVehicles(await getVehicleTypes());
+        setEditingId(null);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to save");
+      }
+    });
+  }
+
+  function handleDelete(id: number) {
+    if (!confirm("Delete this vehicle type? It can only be deleted once no data refers to it.")) return;
+    startTransition(async () => {
+      const res = await deleteVehicleType(id);
+      if (res.success) {
+        setVehicles(await getVehicleTypes());
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to delete");
+      }
+    });
+  }
+
+  function handleAdd() {
+    const data = fromForm(newForm);
+    if (!data) {
+      setError("All numeric fields are required.");
+      return;
+    }
+
+    startTransition(async () => {
+      const res = await createVehicleType(data);
+      if (res.success) {
+        setVehicles(await getVehicleTypes());
+        setShowAdd(false);
+        setNewForm(EMPTY_FORM);
+        setError(null);
+      } else {
+        setError(res.error ?? "Failed to add");
+      }
+    });
+  }
+
+  function formFields(form: VehicleForm, setForm: (f: VehicleForm) => void) {
+    return (
+      <>
+        <Input placeholder="Name (e.g. 4.5t)" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+        <Input placeholder="Tonnage" type="number" step="any" value={form.tonnage} onChange={(e) => setForm({ ...form, tonnage: e.target.value })} />
+        <Input placeholder="Payload (kg)" type="number" step="any" value={form.payloadKg} onChange={(e) => setForm({ ...form, payloadKg: e.target.value })} />
+        <Input placeholder="km/L" type="number" step="any" value={form.fuelEfficiency} onChange={(e) => setForm({ ...form, fuelEfficiency: e.target.value })} />
+        <Select value={form.bodyType} onValueChange={(v) => setForm({ ...form, bodyType: v })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BODY_TYPES.map((b) => (
+              <SelectItem key={b} value={b}>{b}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={form.tollClass} onValueChange={(v) => setForm({ ...form, tollClass: v })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TOLL_CLASSES.map((c) => (
+              <SelectItem key={c} value={c}>Class {c}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input placeholder="Fixed cost / trip" type="number" step="any" value={form.fixedCostPerTrip} onChange={(e) => setForm({ ...form, fixedCostPerTrip: e.target.value })} />
+      </>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {vehicles.length} vehicle types. Used by the simulator, CSV imports and Tier 1 fuel / fixed costs.
+        </p>
+        <Button size="sm" variant="outline" onClick={() => setShowAdd(!showAdd)}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add Vehicle
+        </Button>
+      </div>
+
+      {showAdd && (
+        <div className="rounded-lg border bg-muted/50 p-4 space-y-3">
+          <p className="text-sm font-medium">New Vehicle Type</p>
+          <div className="grid gap-3 md:grid-cols-7">
+            {formFields(newForm, setNewForm)}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleAdd} disabled={isPending}>
+              {isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Save className="mr-1 h-3 w-3" />}
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowAdd(false)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Tonnage</TableHead>
+              <TableHead className="text-right">Payload (kg)</TableHead>
+              <TableHead className="text-right">Fuel (km/L)</TableHead>
+              <TableHead>Body</TableHead>
+              <TableHead>Toll Class</TableHead>
+              <TableHead className="text-right">Fixed Cost / Trip</TableHead>
+              <TableHead className="w-24 text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {vehicles.map((v) =>
+              editingId === v.id ? (
+                <TableRow key={v.id}>
+                  <TableCell colSpan={7}>
+                    <div className="grid gap-2 md:grid-cols-7">
+                      {formFields(editForm, setEditForm)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => handleSave(v.id)} disabled={isPending}>
+                        {isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Save className="h-3 w-3" />}
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => setEditingId(null)}>
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                <TableRow key={v.id}>
+                  <TableCell className="font-mono text-sm font-medium">{v.name}</TableCell>
+                  <TableCell className="text-right font-mono">{v.tonnage}</TableCell>
+                  <TableCell className="text-right font-mono">{formatNumber(v.payloadKg)}</TableCell>
+                  <TableCell className="text-right font-mono">{v.fuelEfficiency}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{v.bodyType}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">Class {v.tollClass}</TableCell>
+                  <TableCell className="text-right font-mono">{formatNumber(v.fixedCostPerTrip)}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => startEdit(v)}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => handleDelete(v.id)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Address & Postal Code Parser
+ *
+ * Customers send street addresses ("경기도 평택시 포승읍 평택항로 184") and
+ * 5-digit postal codes (국가기초구역번호, in use since 2015) rather than
+ * "Province/District" ids. This module separates the postal code from the
+ * text of an address and maps postal codes to a location offline;
+ * normalizeLocation (location.ts) does the rest.
+ *
+ * The first two digits of a postal code identify the province. Districts
+ * are mapped by the first three digits for Seoul, Busan, Incheon, Sejong and
+ * Jeju; elsewhere a postal code alone only locates the province.
+ */
+
+export interface ParsedAddress {
+  text: string;              // address words without postal code, numbers or (…)
+  postalCode: string | null; // 5-digit postal code, if the input had one
+}
+
+// ── Province by the first two digits ─────────────────────────────
+
+const POSTAL_PROVINCES: [from: number, to: number, province: string][] = [
+  [1, 9, "Seoul"],
+  [10, 20, "Gyeonggi"],
+  [21, 23, "Incheon"],
+  [24, 26, "Gangwon"],
+  [27, 29, "Chungbuk"],
+  [30, 30, "Sejong"],
+  [31, 33, "Chungnam"],
+  [34, 35, "Daejeon"],
+  [36, 40, "Gyeongbuk"],
+  [41, 43, "Daegu"],
+  [44, 45, "Ulsan"],
+  [46, 49, "Busan"],
+  [50, 53, "Gyeongnam"],
+  [54, 56, "Jeonbuk"],
+  [57, 60, "Jeonnam"],
+  [61, 62, "Gwangju"],
+  [63, 63, "Jeju"],
+];
+
+// ── District by the first three digits ───────────────────────────
+
+const POSTAL_DISTRICTS: [from: number, to: number, id: string][] = [
+  // Seoul
+  [10, 12, "Seoul/Gangbuk"],
+  [13, 15, "Seoul/Dobong"],
+  [16, 19, "Seoul/Nowon"],
+  [20, 23, "Seoul/Jungnang"],
+  [24, 26, "Seoul/Dongdaemun"],
+  [27, 29, "Seoul/Seongbuk"],
+  [30, 32, "Seoul/Jongno"],
+  [33, 35, "Seoul/Eunpyeong"],
+  [36, 38, "Seoul/Seodaemun"],
+  [39, 41, "Seoul/Mapo"],
+  [43, 44, "Seoul/Yongsan"],
+  [45, 46, "Seoul/Jung"],
+  [47, 48, "Seoul/Seongdong"],
+  [49, 50, "Seoul/Gwangjin"],
+  [52, 53, "Seoul/Gangdong"],
+  [54, 58, "Seoul/Songpa"],
+  [60, 64, "Seoul/Gangnam"],
+  [65, 68, "Seoul/Seocho"],
+  [69, 70, "Seoul/Dongjak"],
+  [72, 74, "Seoul/Yeongdeungpo"],
+  [75, 78, "Seoul/Gangseo"],
+  [79, 81, "Seoul/Yangcheon"],
+  [82, 84, "Seoul/Guro"],
+  [85, 86, "Seoul/Geumcheon"],
+  [87, 88, "Seoul/Gwanak"],
+
+  // Incheon
+  [210, 211, "Incheon/Gyeyang"],
+  [213, 214, "Incheon/Bupyeong"],
+  [215, 217, "Incheon/Namdong"],
+  [219, 220, "Incheon/Yeonsu"],
+  [221, 222, "Incheon/Michuhol"],
+  [223, 224, "Incheon/Jung"],
+  [225, 225, "Incheon/Dong"],
+  [226, 228, "Incheon/Seo"],
+  [230, 230, "Incheon/Ganghwa"],
+  [231, 231, "Incheon/Ongjin"],
+
+  // Sejong
+  [300, 301, "Sejong/Sejong"],
+
+  // Busan
+  [460, 460, "Busan/Gijang"],
+  [462, 463, "Busan/Geumjeong"],
+  [465, 466, "Busan/Buk"],
+  [467, 468, "Busan/Gangseo"],
+  [469, 470, "Busan/Sasang"],
+  [471, 473, "Busan/Busanjin"],
+  [475, 476, "Busan/Yeonje"],
+  [477, 478, "Busan/Dongnae"],
+  [480, 481, "Busan/Haeundae"],
+  [482, 482, "Busan/Suyeong"],
+  [484, 485, "Busan/Nam"],
+  [487, 488, "Busan/Dong"],
+  [489, 489, "Busan/Jung"],
+  [490, 491, "Busan/Yeongdo"],
+  [492, 492, "Busan/Seo"],
+  [493, 495, "Busan/Saha"],
+
+  // Jeju
+  [630, 632, "Jeju/Jeju"],
+  [635, 637, "Jeju/Seogwipo"],
+];
+
+const POSTAL_CODE = /(?<!\d)\d{5}(?!\d)/;
+
+/**
+ * Split an address into its postal code and the words that can name a
+ * place: bracketed notes ("(포승읍)") and anything containing a digit
+ * (building and lot numbers, floors) are dropped.
+ */
+export function parseAddress(input: string): ParsedAddress {
+  const postalCode = input.match(POSTAL_CODE)?.[0] ?? null;
+  const text = input
+    .replace(/\([^)]*\)|\[[^\]]*\]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 0 && !/\d/.test(word))
+    .join(" ");
+  return { text, postalCode };
+}
+
+/**
+ * Location of a postal code: a "Province/District" id where the district
+ * table covers it, else the province. Null for an unassigned code.
+ */
+export function postalCodeLocation(
+  code: string
+): { id: string; level: "district" | "province" } | null {
+  const prefix3 = Number(code.slice(0, 3));
+  const district = POSTAL_DISTRICTS.find(([from, to]) => prefix3 >= from && prefix3 <= to);
+  if (district) return { id: district[2], level: "district" };
+
+  const prefix2 = Number(code.slice(0, 2));
+  const province = POSTAL_PROVINCES.find(([from, to]) => prefix2 >= from && prefix2 <= to);
+  return province ? { id: province[2], level: "province" } : null;
+}
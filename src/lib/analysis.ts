@@ -6,16 +6,41 @@
  * the median of the remaining data.
  *
  * Fallback strategy:
- *   If a specific route (origin → destination) has insufficient data (< 5 records),
- *   fall back to province-level aggregation by extracting the province from the
- *   City/District format (e.g. "Seoul/Gangnam" → "Seoul").
+ *   Every level needs at least 5 records; each broader level pools more
+ *   routes and carries a larger confidence penalty.
+ *     1. district — the exact route as quoted
+ *     2. province — province pair from the City/District format
+ *        (e.g. "Seoul/Gangnam" → "Seoul")
+ *     3. region   — regional bloc pair (e.g. Capital → Yeongnam)
+ *     4. national — KRW/km rate per vehicle type, scaled by route distance
+ *   A route with fewer than 5 records at province level gets no result here;
+ *   the lookup moves on to the region and national levels instead.
+ *
+ * Recency weighting:
+ *   Each price is weighted 0.5^(age / halfLifeDays), so a quote one half-life
+ *   old counts half as much as today's. Quartiles and the median are weighted
+ *   quantiles; with equal weights they reduce to the plain ones. Because every
+ *   weight decays at the same rate, results only change when data changes —
+ *   the effective age and freshness confidence are aged separately
+ *   (see ageMedianResult).
  */
 
 export interface PriceDataPoint {
-  origin: string;
+  origin: string;      // canonical location id (see location.ts), e.g. "Seoul/Gangnam"
   destination: string;
   vehicleType: string;
   unitPrice: number;
+  date: Date;
+  isOutlier?: boolean; // flagged by hand on the Data page; never analysed
+}
+
+/**
+ * The mean of `count` prices of one lane, pre-aggregated in SQL (see
+ * refreshNationalRate in market-median.ts); `date` is the middle of the
+ * period they were taken from.
+ */
+export interface AggregatedPricePoint extends PriceDataPoint {
+  count: number;
 }
 
 export interface RouteMedianResult {
@@ -31,39 +56,103 @@ export interface RouteMedianResult {
   lowerBound: number;
   upperBound: number;
   confidenceScore: number;
+  effectiveAgeDays: number; // weighted mean age of the samples behind the median
   isFallback: boolean;
-  fallbackLevel?: "province";
+  fallbackLevel: MarketLevel; // level the median was taken from
+}
+
+/**
+ * Aggregation level of a market median, narrowest first.
+ * "national" medians are KRW per km rather than KRW per trip.
+ */
+export type MarketLevel = "district" | "province" | "region" | "national";
+
+export const MARKET_LEVELS: MarketLevel[] = ["district", "province", "region", "national"];
+
+/** Confidence multiplier per level: broader pools say less about one route. */
+export const LEVEL_CONFIDENCE_PENALTY: Record<MarketLevel, number> = {
+  district: 1.0,
+  province: 0.7,
+  region: 0.5,
+  national: 0.3,
+};
+
+/** origin/destination of national per-km rows. */
+export const NATIONAL_SCOPE = "*";
+
+export interface AnalysisOptions {
+  /** Days for a price's weight to halve. 0 disables recency weighting. */
+  halfLifeDays?: number;
+  /** Reference time for ages (default: now). */
+  asOf?: Date;
 }
 
 const MIN_SAMPLE_SIZE = 5;
+const DAY_MS = 86_400_000;
+
+export const DEFAULT_HALF_LIFE_DAYS = 90;
 
 // ── Core statistics ──────────────────────────────────────────────
 
-function sortedNumeric(values: number[]): number[] {
-  return [...values].sort((a, b) => a - b);
+interface WeightedValue {
+  value: number;
+  weight: number;
+  ageDays: number;
+  count: number; // rows behind the value, 1 unless pre-aggregated
 }
 
-function quantile(sorted: number[], q: number): number {
-  if (sorted.length === 0) return 0;
-  if (sorted.length === 1) return sorted[0];
+function rowCount(points: WeightedValue[]): number {
+  return points.reduce((sum, p) => sum + p.count, 0);
+}
 
-  const pos = q * (sorted.length - 1);
-  const lower = Math.floor(pos);
-  const upper = Math.ceil(pos);
-  const fraction = pos - lower;
+function sortedByValue(points: WeightedValue[]): WeightedValue[] {
+  return [...points].sort((a, b) => a.value - b.value);
+}
 
-  if (lower === upper) return sorted[lower];
-  return sorted[lower] * (1 - fraction) + sorted[upper] * fraction;
+/**
+ * Weighted quantile with linear interpolation. Each point sits at the share
+ * of weight before it, scaled so the first is at 0 and the last at 1 — with
+ * equal weights this is the usual (n − 1) interpolation.
+ */
+function quantile(sorted: WeightedValue[], q: number): number {
+  if (sorted.length === 0) return 0;
+  if (sorted.length === 1) return sorted[0].value;
+
+  const total = sorted.reduce((sum, p) => sum + p.weight, 0);
+  const span = total - sorted[sorted.length - 1].weight;
+  if (span <= 0) return sorted[sorted.length - 1].value;
+
+  let before = 0;
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const pos = before / span;
+    const nextPos = (before + sorted[i].weight) / span;
+    if (q <= nextPos) {
+      const fraction = nextPos > pos ? (q - pos) / (nextPos - pos) : 0;
+      return sorted[i].value * (1 - fraction) + sorted[i + 1].value * fraction;
+    }
+    before += sorted[i].weight;
+  }
+  return sorted[sorted.length - 1].value;
 }
 
-function median(sorted: number[]): number {
+function median(sorted: WeightedValue[]): number {
   return quantile(sorted, 0.5);
 }
 
+/**
+ * Weighted mean age in days.
+ */
+function effectiveAge(points: WeightedValue[]): number {
+  const total = points.reduce((sum, p) => sum + p.weight, 0);
+  if (total <= 0) return 0;
+  const age = points.reduce((sum, p) => sum + p.weight * p.ageDays, 0) / total;
+  return Math.round(age * 10) / 10;
+}
+
 // ── IQR outlier removal ─────────────────────────────────────────
 
 interface IQRResult {
-  filtered: number[];
+  filtered: WeightedValue[];
   q1: number;
   q3: number;
   iqr: number;
@@ -71,15 +160,15 @@ interface IQRResult {
   upperBound: number;
 }
 
-function applyIQRFilter(values: number[], multiplier = 1.5): IQRResult {
-  const sorted = sortedNumeric(values);
+function applyIQRFilter(points: WeightedValue[], multiplier = 1.5): IQRResult {
+  const sorted = sortedByValue(points);
   const q1 = quantile(sorted, 0.25);
   const q3 = quantile(sorted, 0.75);
   const iqr = q3 - q1;
   const lowerBound = q1 - multiplier * iqr;
   const upperBound = q3 + multiplier * iqr;
 
-  const filtered = sorted.filter((v) => v >= lowerBound && v <= upperBound);
+  const filtered = sorted.filter((p) => p.value >= lowerBound && p.value <= upperBound);
 
   return { filtered, q1, q3, iqr, lowerBound, upperBound };
 }
@@ -92,25 +181,67 @@ function applyIQRFilter(values: number[], multiplier = 1.5): IQRResult {
  * "Gyeongnam/Changwon" → "Gyeongnam"
  * "Seoul" → "Seoul" (no district)
  */
-function extractProvince(location: string): string {
+export function extractProvince(location: string): string {
   const parts = location.split("/");
   return parts[0].trim();
 }
 
+// ── Regional blocs ──────────────────────────────────────────────
+
+export const REGION_BLOCS: Record<string, string[]> = {
+  Capital: ["Seoul", "Incheon", "Gyeonggi"],
+  Chungcheong: ["Daejeon", "Sejong", "Chungbuk", "Chungnam"],
+  Yeongnam: ["Busan", "Daegu", "Ulsan", "Gyeongbuk", "Gyeongnam"],
+  Honam: ["Gwangju", "Jeonbuk", "Jeonnam"],
+  Gangwon: ["Gangwon"],
+  Jeju: ["Jeju"],
+};
+
+/**
+ * Regional bloc of a location, or null for an unknown province.
+ * "Busan/Haeundae" → "Yeongnam"
+ */
+export function extractRegion(location: string): string | null {
+  const province = extractProvince(location);
+  for (const [region, provinces] of Object.entries(REGION_BLOCS)) {
+    if (provinces.includes(province)) return region;
+  }
+  return null;
+}
+
 // ── Confidence scoring ──────────────────────────────────────────
 
 /**
- * Compute a 0–1 confidence score based on sample size and data consistency.
+ * 0–1 freshness of data with the given effective age: 1.0 for today's
+ * prices, 0.5 at one half-life. Always 1.0 when weighting is disabled.
+ */
+function freshness(ageDays: number, halfLifeDays: number): number {
+  return halfLifeDays > 0 ? Math.pow(0.5, ageDays / halfLifeDays) : 1.0;
+}
+
+/**
+ * Confidence multiplier for data freshness, between 0.5 (very old) and 1.0.
+ */
+function freshnessMultiplier(ageDays: number, halfLifeDays: number): number {
+  return 0.5 + 0.5 * freshness(ageDays, halfLifeDays);
+}
+
+/**
+ * Compute a 0–1 confidence score based on sample size, data consistency and
+ * how recent the data is.
  *
  * Factors:
  *   - Sample size (more data → higher confidence, up to ~50 records)
  *   - Coefficient of variation (lower spread → higher confidence)
- *   - Fallback penalty (province-level fallback reduces confidence)
+ *   - Level penalty (see LEVEL_CONFIDENCE_PENALTY)
+ *   - Freshness (data one half-life old scores 75% of fresh data)
  */
 function computeConfidence(
   sampleSize: number,
   filteredValues: number[],
-  isFallback: boolean
+  level: MarketLevel,
+  ageDays: number,
+  halfLifeDays: number
 ): number {
   // Size factor: approaches 1.0 as sample size grows
   const sizeFactor = Math.min(sampleSize / 30, 1.0);
@@ -130,145 +261,239 @@ function computeConfidence(
   }
 
   const rawScore = sizeFactor * 0.6 + consistencyFactor * 0.4;
-  const fallbackPenalty = isFallback ? 0.7 : 1.0;
+  const levelPenalty = LEVEL_CONFIDENCE_PENALTY[level];
+  const freshnessFactor = freshnessMultiplier(ageDays, halfLifeDays);
 
-  return Math.round(rawScore * fallbackPenalty * 100) / 100;
+  return Math.round(rawScore * levelPenalty * freshnessFactor * 100) / 100;
 }
 
-// ── Route key helpers ───────────────────────────────────────────
-
-type RouteKey = string;
-
-function routeKey(origin: string, destination: string, vehicleType: string): RouteKey {
-  return `${origin}||${destination}||${vehicleType}`;
+/**
+ * Bring a stored result up to date: its samples are `elapsedDays` older than
+ * when it was computed, so the effective age grows and confidence loses
+ * freshness. The weighted quantiles themselves do not change.
+ */
+export function ageMedianResult(
+  result: RouteMedianResult,
+  elapsedDays: number,
+  halfLifeDays: number
+): RouteMedianResult {
+  if (elapsedDays <= 0) return result;
+  const ageDays = Math.round((result.effectiveAgeDays + elapsedDays) * 10) / 10;
+  const ratio =
+    freshnessMultiplier(ageDays, halfLifeDays) /
+    freshnessMultiplier(result.effectiveAgeDays, halfLifeDays);
+  return {
+    ...result,
+    effectiveAgeDays: ageDays,
+    confidenceScore: Math.round(result.confidenceScore * ratio * 100) / 100,
+  };
 }
 
-function provinceRouteKey(origin: string, destination: string, vehicleType: string): RouteKey {
-  return `${extractProvince(origin)}||${extractProvince(destination)}||${vehicleType}`;
-}
+// ── Grouping ────────────────────────────────────────────────────
 
-// ── Main analysis function ──────────────────────────────────────
+interface PriceGroup {
+  origin: string;
+  destination: string;
+  vehicleType: string;
+  points: WeightedValue[];
+}
 
 /**
- * Analyse market data and compute cleaned median prices per route.
- *
- * 1. Group prices by (origin, destination, vehicleType).
- * 2. For groups with >= MIN_SAMPLE_SIZE records, apply IQR filter and compute median.
- * 3. For groups with < MIN_SAMPLE_SIZE records, fall back to province-level grouping.
+ * Group points by the (origin, destination, vehicleType) `keyOf` maps them
+ * to; points it maps to null, and points flagged as outliers, are skipped.
  */
-export function analyzeMarketData(data: PriceDataPoint[]): RouteMedianResult[] {
-  // ── Step 1: Group by exact route ────────────────────────────
-  const routeGroups = new Map<RouteKey, { origin: string; destination: string; vehicleType: string; prices: number[] }>();
-
+function groupBy<T extends { vehicleType: string; isOutlier?: boolean }>(
+  data: T[],
+  keyOf: (d: T) => { origin: string; destination: string } | null,
+  toWeighted: (d: T) => WeightedValue
+): PriceGroup[] {
+  const groups = new Map<string, PriceGroup>();
   for (const d of data) {
-    const key = routeKey(d.origin, d.destination, d.vehicleType);
-    let group = routeGroups.get(key);
+    if (d.isOutlier) continue;
+    const key = keyOf(d);
+    if (!key) continue;
+    const id = `${key.origin}||${key.destination}||${d.vehicleType}`;
+    let group = groups.get(id);
     if (!group) {
-      group = { origin: d.origin, destination: d.destination, vehicleType: d.vehicleType, prices: [] };
-      routeGroups.set(key, group);
+      group = { ...key, vehicleType: d.vehicleType, points: [] };
+      groups.set(id, group);
     }
-    group.prices.push(d.unitPrice);
+    group.points.push(toWeighted(d));
   }
+  return Array.from(groups.values());
+}
+
+function weighter(options: AnalysisOptions) {
+  const halfLifeDays = options.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const asOf = (options.asOf ?? new Date()).getTime();
+  return (value: number, date: Date, count = 1): WeightedValue => {
+    const ageDays = Math.max(0, (asOf - date.getTime()) / DAY_MS);
+    return {
+      value,
+      weight: count * (halfLifeDays > 0 ? Math.pow(0.5, ageDays / halfLifeDays) : 1),
+      ageDays,
+      count,
+    };
+  };
+}
 
-  // ── Step 2: Province-level fallback pool ────────────────────
-  const provinceGroups = new Map<RouteKey, { origin: string; destination: string; vehicleType: string; prices: number[] }>();
+// ── Main analysis functions ─────────────────────────────────────
 
-  for (const d of data) {
-    const provOrigin = extractProvince(d.origin);
-    const provDest = extractProvince(d.destination);
-    const key = provinceRouteKey(d.origin, d.destination, d.vehicleType);
-    let group = provinceGroups.get(key);
-    if (!group) {
-      group = { origin: provOrigin, destination: provDest, vehicleType: d.vehicleType, prices: [] };
-      provinceGroups.set(key, group);
-    }
-    group.prices.push(d.unitPrice);
-  }
+/**
+ * Summarise one group of at least MIN_SAMPLE_SIZE prices: IQR-filter, then
+ * take the weighted median of what remains.
+ */
+function summarizeGroup(
+  group: PriceGroup,
+  level: MarketLevel,
+  halfLifeDays: number
+): RouteMedianResult {
+  const iqr = applyIQRFilter(group.points);
+  const ageDays = effectiveAge(iqr.filtered);
+  return {
+    origin: group.origin,
+    destination: group.destination,
+    vehicleType: group.vehicleType,
+    median: Math.round(median(iqr.filtered)),
+    sampleSize: rowCount(group.points),
+    filteredSize: rowCount(iqr.filtered),
+    q1: Math.round(iqr.q1),
+    q3: Math.round(iqr.q3),
+    iqr: Math.round(iqr.iqr),
+    lowerBound: Math.round(iqr.lowerBound),
+    upperBound: Math.round(iqr.upperBound),
+    confidenceScore: computeConfidence(
+      rowCount(group.points),
+      iqr.filtered.map((p) => p.value),
+      level,
+      ageDays,
+      halfLifeDays
+    ),
+    effectiveAgeDays: ageDays,
+    isFallback: level !== "district",
+    fallbackLevel: level,
+  };
+}
+
+/**
+ * Analyse market data and compute cleaned median prices per route.
+ *
+ * 1. Weight each price by its age (see AnalysisOptions.halfLifeDays).
+ * 2. Group prices by (origin, destination, vehicleType), leaving out rows
+ *    flagged as outliers whatever the IQR filter would make of them.
+ * 3. For groups with >= MIN_SAMPLE_SIZE records, apply IQR filter and compute median.
+ * 4. Do the same for every province pair with >= MIN_SAMPLE_SIZE records, so
+ *    a thin route of the pair (including one first quoted later) can fall
+ *    back to it.
+ */
+export function analyzeMarketData(
+  data: PriceDataPoint[],
+  options: AnalysisOptions = {}
+): RouteMedianResult[] {
+  const halfLifeDays = options.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const weigh = weighter(options);
+  const toWeighted = (d: PriceDataPoint) => weigh(d.unitPrice, d.date);
+
+  const routeGroups = groupBy(data, (d) => ({ origin: d.origin, destination: d.destination }), toWeighted);
+  const provinceGroups = groupBy(
+    data,
+    (d) => ({ origin: extractProvince(d.origin), destination: extractProvince(d.destination) }),
+    toWeighted
+  );
 
-  // ── Step 3: Compute results ─────────────────────────────────
   const results: RouteMedianResult[] = [];
-  const processedProvinceKeys = new Set<RouteKey>();
-
-  for (const [, group] of routeGroups) {
-    if (group.prices.length >= MIN_SAMPLE_SIZE) {
-      // Enough data — use exact route
-      const iqr = applyIQRFilter(group.prices);
-      const med = median(sortedNumeric(iqr.filtered));
-      results.push({
-        origin: group.origin,
-        destination: group.destination,
-        vehicleType: group.vehicleType,
-        median: Math.round(med),
-        sampleSize: group.prices.length,
-        filteredSize: iqr.filtered.length,
-        q1: Math.round(iqr.q1),
-        q3: Math.round(iqr.q3),
-        iqr: Math.round(iqr.iqr),
-        lowerBound: Math.round(iqr.lowerBound),
-        upperBound: Math.round(iqr.upperBound),
-        confidenceScore: computeConfidence(group.prices.length, iqr.filtered, false),
-        isFallback: false,
-      });
-    } else {
-      // Not enough data — try province-level fallback
-      const provKey = provinceRouteKey(group.origin, group.destination, group.vehicleType);
-      if (processedProvinceKeys.has(provKey)) continue;
-      processedProvinceKeys.add(provKey);
-
-      const provGroup = provinceGroups.get(provKey);
-      if (!provGroup || provGroup.prices.length < MIN_SAMPLE_SIZE) {
-        // Even province-level doesn't have enough data — still report with low confidence
-        const prices = provGroup?.prices ?? group.prices;
-        const sorted = sortedNumeric(prices);
-        const med = median(sorted);
-        results.push({
-          origin: group.origin,
-          destination: group.destination,
-          vehicleType: group.vehicleType,
-          median: Math.round(med),
-          sampleSize: prices.length,
-          filteredSize: prices.length,
-          q1: Math.round(quantile(sorted, 0.25)),
-          q3: Math.round(quantile(sorted, 0.75)),
-          iqr: 0,
-          lowerBound: 0,
-          upperBound: 0,
-          confidenceScore: computeConfidence(prices.length, prices, true),
-          isFallback: true,
-          fallbackLevel: "province",
-        });
-      } else {
-        const iqr = applyIQRFilter(provGroup.prices);
-        const med = median(sortedNumeric(iqr.filtered));
-        results.push({
-          origin: provGroup.origin,
-          destination: provGroup.destination,
-          vehicleType: provGroup.vehicleType,
-          median: Math.round(med),
-          sampleSize: provGroup.prices.length,
-          filteredSize: iqr.filtered.length,
-          q1: Math.round(iqr.q1),
-          q3: Math.round(iqr.q3),
-          iqr: Math.round(iqr.iqr),
-          lowerBound: Math.round(iqr.lowerBound),
-          upperBound: Math.round(iqr.upperBound),
-          confidenceScore: computeConfidence(provGroup.prices.length, iqr.filtered, true),
-          isFallback: true,
-          fallbackLevel: "province",
-        });
-      }
-    }
+  for (const group of routeGroups) {
+    if (group.points.length >= MIN_SAMPLE_SIZE) results.push(summarizeGroup(group, "district", halfLifeDays));
+  }
+  for (const group of provinceGroups) {
+    if (group.points.length >= MIN_SAMPLE_SIZE) results.push(summarizeGroup(group, "province", halfLifeDays));
   }
 
   return results.sort((a, b) => b.confidenceScore - a.confidenceScore);
 }
 
+/**
+ * Median prices per (origin bloc, destination bloc, vehicleType) — the
+ * "region" level. Locations outside the known provinces are skipped.
+ */
+export function analyzeRegionalMarket(
+  data: PriceDataPoint[],
+  options: AnalysisOptions = {}
+): RouteMedianResult[] {
+  const halfLifeDays = options.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const weigh = weighter(options);
+
+  const groups = groupBy(
+    data,
+    (d) => {
+      const origin = extractRegion(d.origin);
+      const destination = extractRegion(d.destination);
+      return origin && destination ? { origin, destination } : null;
+    },
+    (d) => weigh(d.unitPrice, d.date)
+  );
+
+  return groups
+    .filter((g) => g.points.length >= MIN_SAMPLE_SIZE)
+    .map((g) => summarizeGroup(g, "region", halfLifeDays))
+    .sort((a, b) => b.confidenceScore - a.confidenceScore);
+}
+
+/**
+ * National KRW/km rate per vehicle type — the last fallback level.
+ * Each lane's mean price is divided by its route distance and weighted by
+ * the rows behind it; origin and destination of the results are
+ * NATIONAL_SCOPE and the quartiles are KRW/km too.
+ */
+export function analyzeNationalRates(
+  data: (AggregatedPricePoint & { distanceKm: number })[],
+  options: AnalysisOptions = {}
+): RouteMedianResult[] {
+  const halfLifeDays = options.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+  const weigh = weighter(options);
+
+  const groups = groupBy(
+    data.filter((d) => d.distanceKm > 0),
+    () => ({ origin: NATIONAL_SCOPE, destination: NATIONAL_SCOPE }),
+    (d) => weigh(d.unitPrice / d.distanceKm, d.date, d.count)
+  );
+
+  return groups
+    .filter((g) => rowCount(g.points) >= MIN_SAMPLE_SIZE)
+    .map((g) => summarizeGroup(g, "national", halfLifeDays));
+}
+
+/**
+ * Turn a national KRW/km result into a price for a route of `distanceKm`.
+ */
+export function scaleNationalRate(
+  rate: RouteMedianResult,
+  origin: string,
+  destination: string,
+  distanceKm: number
+): RouteMedianResult {
+  const scale = (v: number) => Math.round(v * distanceKm);
+  return {
+    ...rate,
+    origin,
+    destination,
+    median: scale(rate.median),
+    q1: scale(rate.q1),
+    q3: scale(rate.q3),
+    iqr: scale(rate.iqr),
+    lowerBound: scale(rate.lowerBound),
+    upperBound: scale(rate.upperBound),
+  };
+}
+
 // ── Summary helper ──────────────────────────────────────────────
 
 export interface AnalysisSummary {
   totalRoutes: number;
   exactRoutes: number;
-  fallbackRoutes: number;
+  fallbackRoutes: number; // province level
+  regionRoutes: number;
+  nationalRates: number;  // vehicle types with a KRW/km rate
   avgConfidence: number;
   topRoutes: RouteMedianResult[];
 }
@@ -277,8 +502,10 @@ export function summarizeAnalysis(
   results: RouteMedianResult[],
   topN = 10
 ): AnalysisSummary {
-  const exactRoutes = results.filter((r) => !r.isFallback).length;
-  const fallbackRoutes = results.filter((r) => r.isFallback).length;
+  const exactRoutes = results.filter((r) => r.fallbackLevel === "district").length;
+  const fallbackRoutes = results.filter((r) => r.fallbackLevel === "province").length;
+  const regionRoutes = results.filter((r) => r.fallbackLevel === "region").length;
+  const nationalRates = results.filter((r) => r.fallbackLevel === "national").length;
   const avgConfidence =
     results.length > 0
       ? Math.round(
@@ -292,6 +519,8 @@ export function summarizeAnalysis(
     totalRoutes: results.length,
     exactRoutes,
     fallbackRoutes,
+    regionRoutes,
+    nationalRates,
     avgConfidence,
     topRoutes: results.slice(0, topN),
   };
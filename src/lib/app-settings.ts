@@ -0,0 +1,25 @@
+/**
+ * App Settings
+ *
+ * Key/value store (AppSetting table) for settings that are not numeric cost
+ * variables and so don't belong in CostMaster — e.g. the distance provider
+ * order. Values are strings; callers parse and validate their own keys.
+ */
+
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Stored value of a setting, or null if it has never been set.
+ */
+export async function getAppSetting(key: string): Promise<string | null> {
+  const row = await prisma.appSetting.findUnique({ where: { key } });
+  return row?.value ?? null;
+}
+
+export async function setAppSetting(key: string, value: string): Promise<void> {
+  await prisma.appSetting.upsert({
+    where: { key },
+    create: { key, value },
+    update: { value },
+  });
+}
@@ -1,5 +1,7 @@
 /**
- * CSV Parser for MarketData and CostMaster imports.
+ * CSV Parser for MarketData, CostMaster and RouteDistance imports.
+ * Each format has a RowParser (create*Parser) that also takes spreadsheet
+ * rows, so .xlsx imports are validated the same way.
  *
  * Expected CSV formats:
  *
@@ -8,10 +10,37 @@
  *   2024-01-15, Seoul/Gangnam, Busan/Haeundae, 11t, General, 850000
  *
  * CostMaster:
- *   category, item, value, unit, description
+ *   category, item, value, unit, description[, vehicleType]
  *   Variable, fuel_price, 1650, KRW/L, Diesel fuel price per liter
+ *   Fixed, vehicle_fixed_cost, 220000, KRW/trip, 25t depreciation per trip, 25t
+ *
+ *   vehicleType is optional; blank means the row is the global default.
+ *
+ * RouteDistance:
+ *   origin, destination, distanceKm[, symmetric, sourceNote, updatedBy]
+ *   Gyeonggi/Pyeongtaek, Gyeonggi/Pocheon, 112, yes, Dispatch odometer, Kim
+ *
+ *   symmetric defaults to yes; "no" / "one-way" makes the row one direction only.
+ *
+ * Files are tokenised by csv-reader.ts (RFC 4180, UTF-8 or EUC-KR). Large
+ * uploads are streamed through a RowParser (parseCsvStream). The header
+ * row may sit below title rows (see createRowParser).
+ *
+ * Origins and destinations are normalised to canonical "Province/District"
+ * ids (see location.ts); names that can't be resolved are kept as typed and
+ * reported in ParseResult.warnings.
+ *
+ * Headers may be Korean (날짜, 출발지, 도착지, 차종, 화물종류, 운임, ...), and
+ * values are read the way Korean broker sheets write them: tonnage "11톤" /
+ * "11 ton" / "11T" → "11t", dates "2024.01.15" / "20240115" / "2024년 1월 15일"
+ * / Excel serial "45306" → "2024-01-15", prices "85만원" → 850000. Each kind of rewrite is listed in
+ * ParseResult.normalizations.
  */
 
+import { resolveFreightClass, type FreightClassKey } from "@/lib/freight-class";
+import { normalizeLocation } from "@/lib/location";
+import { parseCsvText, readCsvRecords } from "@/lib/csv-reader";
+
 export interface MarketDataRow {
   date: string;
   origin: string;
@@ -24,53 +53,222 @@ export interface MarketDataRow {
 export interface CostMasterRow {
   category: string;
   item: string;
+  vehicleType: string | null;
   value: number;
   unit: string;
   description: string;
 }
 
+export interface RouteDistanceRow {
+  origin: string;
+  destination: string;
+  distanceKm: number;
+  symmetric: boolean;
+  sourceNote: string | null;
+  updatedBy: string | null;
+}
+
 export interface ParseResult<T> {
   data: T[];
   errors: string[];
+  warnings?: string[]; // rows that were imported, but not quite as written
+  normalizations?: string[]; // values rewritten to the canonical format, e.g. "11톤" → "11t"
   totalRows: number;
 }
 
-function parseCsvLines(text: string): string[][] {
-  const lines = text
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0);
+/**
+ * A column mapping chosen by the user, e.g. in the import preview or from a
+ * saved profile. Columns are matched by header text, so a profile keeps
+ * working when a broker reorders columns. Fields left out are guessed from
+ * the header aliases.
+ */
+export interface ColumnMapping {
+  columns?: Record<string, string | null>; // field → source header; null = don't import the field
+  defaults?: Record<string, string>;       // field → value when it has no column or the cell is blank
+}
 
-  return lines.map((line) => {
-    const fields: string[] = [];
-    let current = "";
-    let inQuotes = false;
+export interface ParseOptions {
+  /** Valid vehicle type names from the VehicleType catalog. Omit to skip the check. */
+  vehicleTypes?: string[];
+  /** FreightClass names and aliases. Freight types are stored as the canonical name. */
+  freightClasses?: FreightClassKey[];
+}
 
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === "," && !inQuotes) {
-        fields.push(current.trim());
-        current = "";
-      } else {
-        current += char;
+/**
+ * Check a vehicle and freight type against the catalogs in `options`, as an
+ * import does; fields left undefined are not checked. Returns the canonical
+ * freight type, or an error message.
+ */
+export function checkCatalogFields(
+  fields: { vehicleType?: string; freightType?: string },
+  options: ParseOptions
+): { freightType?: string; error?: string } {
+  const { vehicleType, freightType } = fields;
+  if (vehicleType !== undefined && options.vehicleTypes && !options.vehicleTypes.includes(vehicleType)) {
+    return { error: `Unknown vehicleType "${vehicleType}" (not in vehicle catalog)` };
+  }
+  if (freightType === undefined || !options.freightClasses) return { freightType };
+  const freightClass = resolveFreightClass(freightType, options.freightClasses);
+  if (!freightClass) {
+    return { error: `Unknown freightType "${freightType}" (not in freight classes)` };
+  }
+  return { freightType: freightClass.name };
+}
+
+function formatRows(rows: number[], total = rows.length): string {
+  return `row${total > 1 ? "s" : ""} ${rows.slice(0, 5).join(", ")}${total > 5 ? ", …" : ""}`;
+}
+
+/**
+ * Normalises locations row by row and collects one warning per distinct
+ * location that could not be (fully) resolved, listing the rows it was on.
+ */
+function createLocationNormalizer() {
+  const issues = new Map<string, { issue: string; rows: number[] }>();
+  return {
+    normalize(value: string, rowNum: number): string {
+      const location = normalizeLocation(value);
+      if (location.issue) {
+        const entry = issues.get(location.input) ?? { issue: location.issue, rows: [] };
+        entry.rows.push(rowNum);
+        issues.set(location.input, entry);
       }
-    }
-    fields.push(current.trim());
-    return fields;
-  });
+      return location.id;
+    },
+    warnings(): string[] {
+      return Array.from(issues.values()).map(({ issue, rows }) => `${issue} (${formatRows(rows)})`);
+    },
+  };
+}
+
+/**
+ * Collects the value rewrites of an import. Values of the same shape (digits
+ * ignored) are one entry, so a column of "2024.01.15" dates is reported once
+ * with an example and a row count.
+ */
+function createNormalizationLog() {
+  const entries = new Map<string, { label: string; rows: number[]; count: number }>();
+  return {
+    record(kind: string, from: string, to: string, rowNum: number) {
+      if (from === to) return;
+      const key = `${kind}|${from.replace(/\d/g, "9")}`;
+      const entry = entries.get(key) ?? { label: `${kind} "${from}" read as "${to}"`, rows: [], count: 0 };
+      if (entry.rows.length < 5) entry.rows.push(rowNum);
+      entry.count++;
+      entries.set(key, entry);
+    },
+    entries(): string[] {
+      return Array.from(entries.values()).map(({ label, rows, count }) =>
+        count > 1 ? `${label} and ${count - 1} more like it (${formatRows(rows, count)})` : `${label} (${formatRows(rows)})`
+      );
+    },
+  };
+}
+
+// ── Value normalizers ────────────────────────────────────────────
+
+/**
+ * Vehicle tonnage as stored in the catalog: "11톤", "11 ton", "11T", "2.5 tons"
+ * → "11t", "2.5t". Anything else is returned trimmed.
+ */
+export function normalizeTonnage(value: string): string {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(?:t|tons?|톤)$/i);
+  return match ? `${Number(match[1])}t` : value.trim();
 }
 
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30); // serial 0 in the 1900 date system
+
+/**
+ * Dates as YYYY-MM-DD (with "THH:MM" when a time is given): "2024.01.15",
+ * "2024. 1. 15.", "2024/01/15", "20240115", "2024년 1월 15일", and Excel date
+ * serials such as "45306" or "45306.5" (a date cell left in General format).
+ * Other text is returned trimmed for the Date check to judge.
+ */
+export function normalizeDate(value: string): string {
+  const text = value.trim();
+  if (/^\d{5}(?:\.\d+)?$/.test(text)) {
+    const iso = new Date(EXCEL_EPOCH + Math.round(Number(text) * 1440) * 60000).toISOString();
+    return iso.slice(11, 16) === "00:00" ? iso.slice(0, 10) : iso.slice(0, 16);
+  }
+  const match =
+    text.match(/^(\d{4})(\d{2})(\d{2})(?:\s+(\d{1,2}):(\d{2}))?$/) ??
+    text.match(/^(\d{4})\s*[-./년]\s*(\d{1,2})\s*[-./월]\s*(\d{1,2})\s*[.일]?(?:\s+(\d{1,2}):(\d{2}))?$/);
+  if (!match) return text;
+  const [, year, month, day, hour, minute] = match;
+  const date = `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  return hour ? `${date}T${hour.padStart(2, "0")}:${minute}` : date;
+}
+
+/**
+ * Whether a date names a real day (and time): "2024-02-30" or "T24:00" are
+ * rejected instead of rolling over the way Date does. A bare number is not a
+ * date (Date would read "45306" as the year 45306); other formats are left to
+ * Date to judge.
+ */
+export function isValidDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/);
+  if (!match) return value !== "" && !/^[\d.]+$/.test(value) && !isNaN(new Date(value).getTime());
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() + 1 !== month || date.getUTCDate() !== day) {
+    return false;
+  }
+  return match[4] === undefined || (Number(match[4]) <= 23 && Number(match[5]) <= 59);
+}
+
+/**
+ * Date to store for a valid import date. Dates and times are Korean wall-clock
+ * time and are stored as UTC with the same reading (like Excel dates), so
+ * "2024-01-15" and "2024-01-15T09:30" land on the same day whatever the
+ * server timezone.
+ */
+export function toStoredDate(value: string): Date {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?$/);
+  if (match) {
+    const [year, month, day, hour, minute] = match.slice(1).map((part) => Number(part ?? 0));
+    return new Date(Date.UTC(year, month - 1, day, hour, minute));
+  }
+  const local = new Date(value);
+  return new Date(
+    Date.UTC(local.getFullYear(), local.getMonth(), local.getDate(), local.getHours(), local.getMinutes())
+  );
+}
+
+const KRW_UNITS: Record<string, number> = { 억: 100_000_000, 만: 10_000, 천: 1_000 };
+
+/**
+ * A KRW amount, including Korean unit notation: "850,000", "₩850,000",
+ * "850000원", "85만원", "85.5만", "8만5천원", "1억 2천만원". Commas must group
+ * thousands ("12,3" is unreadable, not 123). NaN if unreadable.
+ */
+export function parseKrwAmount(value: string): number {
+  const grouped = value.replace(/\s|₩|원|krw/gi, "");
+  for (const [number] of grouped.matchAll(/[\d,]+(?:\.\d+)?/g)) {
+    if (number.includes(",") && !/^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/.test(number)) return NaN;
+  }
+  const text = grouped.replace(/,/g, "");
+  if (/^\d+(?:\.\d+)?$/.test(text)) return parseFloat(text);
+  // Sums of number+unit groups; 천만 (10 million) is a unit of its own
+  if (!/^(?:\d+(?:\.\d+)?(?:천만|억|만|천)?)+$/.test(text)) return NaN;
+  let total = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+(?:\.\d+)?)(천만|억|만|천)?/g)) {
+    const multiplier = unit === "천만" ? 10_000_000 : unit ? KRW_UNITS[unit] : 1;
+    total += parseFloat(amount) * multiplier;
+  }
+  return Math.round(total);
+}
+
+// ── Headers ──────────────────────────────────────────────────────
+
+/**
+ * Header as an alias key: lower case letters, digits and Hangul only, with
+ * a unit in brackets dropped ("운임(원)" → "운임", "Price [KRW]" → "price").
+ */
 function normalizeHeader(header: string): string {
   return header
     .toLowerCase()
-    .replace(/[^a-z0-9]/g, "")
+    .replace(/\(.*?\)|\[.*?\]/g, "")
+    .replace(/[^a-z0-9\uac00-\ud7a3]/g, "")
     .trim();
 }
 
@@ -90,6 +288,31 @@ const MARKET_DATA_HEADERS: Record<string, keyof MarketDataRow> = {
   price: "unitPrice",
   amount: "unitPrice",
   fare: "unitPrice",
+  날짜: "date",
+  일자: "date",
+  운송일: "date",
+  운송일자: "date",
+  배차일: "date",
+  상차일: "date",
+  출발지: "origin",
+  상차지: "origin",
+  출발: "origin",
+  도착지: "destination",
+  하차지: "destination",
+  도착: "destination",
+  차종: "vehicleType",
+  톤수: "vehicleType",
+  차량: "vehicleType",
+  차량톤수: "vehicleType",
+  화물종류: "freightType",
+  화물: "freightType",
+  화종: "freightType",
+  품목: "freightType",
+  운임: "unitPrice",
+  운송료: "unitPrice",
+  운임금액: "unitPrice",
+  단가: "unitPrice",
+  금액: "unitPrice",
 };
 
 const COST_MASTER_HEADERS: Record<string, keyof CostMasterRow> = {
@@ -104,148 +327,462 @@ const COST_MASTER_HEADERS: Record<string, keyof CostMasterRow> = {
   description: "description",
   desc: "description",
   note: "description",
+  vehicletype: "vehicleType",
+  vehicle: "vehicleType",
+  tontype: "vehicleType",
+  구분: "category",
+  분류: "category",
+  항목: "item",
+  항목명: "item",
+  값: "value",
+  금액: "value",
+  단위: "unit",
+  설명: "description",
+  비고: "description",
+  차종: "vehicleType",
+  톤수: "vehicleType",
+};
+
+const ROUTE_DISTANCE_HEADERS: Record<string, keyof RouteDistanceRow> = {
+  origin: "origin",
+  departure: "origin",
+  destination: "destination",
+  arrival: "destination",
+  distancekm: "distanceKm",
+  distance: "distanceKm",
+  km: "distanceKm",
+  symmetric: "symmetric",
+  direction: "symmetric",
+  sourcenote: "sourceNote",
+  source: "sourceNote",
+  note: "sourceNote",
+  updatedby: "updatedBy",
+  by: "updatedBy",
+  출발지: "origin",
+  상차지: "origin",
+  도착지: "destination",
+  하차지: "destination",
+  거리: "distanceKm",
+  운행거리: "distanceKm",
+  양방향: "symmetric",
+  방향: "symmetric",
+  출처: "sourceNote",
+  비고: "sourceNote",
+  수정자: "updatedBy",
+  작성자: "updatedBy",
 };
 
 function mapHeaders<T>(
   rawHeaders: string[],
   mapping: Record<string, keyof T>,
-  requiredFields: (keyof T)[]
+  requiredFields: (keyof T)[],
+  columnMapping: ColumnMapping = {}
 ): { columnMap: Map<number, keyof T>; missingFields: string[] } {
   const columnMap = new Map<number, keyof T>();
   const foundFields = new Set<keyof T>();
+  const chosen = columnMapping.columns ?? {};
+  const fields = new Set<keyof T>([...Object.values(mapping), ...requiredFields]);
+
+  // Explicit choices first, matched on the header as written
+  for (const [field, source] of Object.entries(chosen)) {
+    if (!source || !fields.has(field as keyof T)) continue;
+    const key = source.trim().toLowerCase();
+    const index = rawHeaders.findIndex((h, i) => !columnMap.has(i) && h.trim().toLowerCase() === key);
+    if (index >= 0) {
+      columnMap.set(index, field as keyof T);
+      foundFields.add(field as keyof T);
+    }
+  }
 
   rawHeaders.forEach((header, index) => {
+    if (columnMap.has(index)) return;
     const normalized = normalizeHeader(header);
     const field = mapping[normalized];
-    if (field && !foundFields.has(field)) {
+    if (field && !foundFields.has(field) && !(String(field) in chosen)) {
       columnMap.set(index, field);
       foundFields.add(field);
     }
   });
 
   const missingFields = requiredFields
-    .filter((f) => !foundFields.has(f))
+    .filter((f) => !foundFields.has(f) && !columnMapping.defaults?.[String(f)]?.trim())
     .map(String);
 
   return { columnMap, missingFields };
 }
 
-export function parseMarketDataCsv(text: string): ParseResult<MarketDataRow> {
-  const lines = parseCsvLines(text);
-  if (lines.length < 2) {
-    return { data: [], errors: ["CSV file is empty or has no data rows."], totalRows: 0 };
-  }
+const EMPTY_FILE_ERROR = "File is empty or has no data rows.";
+const HEADER_SEARCH_ROWS = 10;
 
-  const [headerRow, ...dataRows] = lines;
-  const requiredFields: (keyof MarketDataRow)[] = [
-    "date", "origin", "destination", "vehicleType", "freightType", "unitPrice",
-  ];
-  const { columnMap, missingFields } = mapHeaders(headerRow, MARKET_DATA_HEADERS, requiredFields);
-
-  if (missingFields.length > 0) {
-    return {
-      data: [],
-      errors: [`Missing required columns: ${missingFields.join(", ")}. Found headers: ${headerRow.join(", ")}`],
-      totalRows: 0,
-    };
-  }
+/**
+ * Incremental parser for one import format. Records go in one at a time,
+ * header first; validated rows can be taken off in batches while a large
+ * file is still being read.
+ */
+export interface RowParser<T> {
+  /** Next record of the file; row numbers in errors count records from 1. */
+  push(fields: string[]): void;
+  /** Rows validated since the last take(). */
+  take(): T[];
+  /** Result of the whole file; data holds the rows not taken yet. */
+  finish(): ParseResult<T>;
+  /** The header row and the column (0-based) each field was read from, once found. */
+  layout(): { headerRow: string[]; headerRowNum: number; columns: Partial<Record<keyof T, number>> } | null;
+}
 
-  const data: MarketDataRow[] = [];
-  const errors: string[] = [];
+/** Validated row, or the error message for the row. */
+type RowOutcome<T> = { row: T } | { error: string };
 
-  dataRows.forEach((fields, idx) => {
-    const rowNum = idx + 2; // 1-based, skip header
-    const row: Partial<MarketDataRow> = {};
+function isBlankRow(fields: string[]): boolean {
+  return fields.every((f) => f.trim() === "");
+}
 
-    columnMap.forEach((field, colIdx) => {
-      const val = fields[colIdx]?.trim() ?? "";
-      if (field === "unitPrice") {
-        row[field] = parseFloat(val.replace(/,/g, ""));
-      } else {
-        (row as Record<string, string | number>)[field] = val;
-      }
-    });
+/**
+ * Shared RowParser: finds the header, then validates each non-blank row.
+ *
+ * Spreadsheets often put a title or a merged group header above the real
+ * header, so the first of the top rows that has every required column is
+ * taken as the header; failing that, the first non-blank row (reported as
+ * missing columns).
+ *
+ * Defaults from the column mapping fill blank cells of their column, or act
+ * as an extra column when the field has none.
+ */
+function createRowParser<T>(
+  mapping: Record<string, keyof T>,
+  requiredFields: (keyof T)[],
+  parseRow: (fields: string[], columnMap: Map<number, keyof T>, rowNum: number) => RowOutcome<T>,
+  extras: {
+    warnings?: () => string[];
+    normalizations?: () => string[];
+    columnMapping?: ColumnMapping;
+  } = {}
+): RowParser<T> {
+  const { warnings, normalizations, columnMapping = {} } = extras;
+  let rowNum = 0;
+  let candidates: { fields: string[]; rowNum: number }[] = []; // non-blank rows before the header is settled
+  let header: {
+    row: string[];
+    rowNum: number;
+    columnMap: Map<number, keyof T>;
+    missingFields: string[];
+    defaults: { index: number; value: string }[];
+  } | null = null;
+  let data: T[] = [];
+  const errors: string[] = [];
+  let totalRows = 0;
 
-    // Validate
-    if (!row.date || isNaN(new Date(row.date).getTime())) {
-      errors.push(`Row ${rowNum}: Invalid date "${row.date}"`);
-      return;
-    }
-    if (!row.origin || !row.destination) {
-      errors.push(`Row ${rowNum}: Missing origin or destination`);
-      return;
-    }
-    if (!row.vehicleType) {
-      errors.push(`Row ${rowNum}: Missing vehicleType`);
-      return;
+  function accept(fields: string[], num: number) {
+    totalRows++;
+    if (!header || header.missingFields.length > 0) return;
+    let values = fields;
+    if (header.defaults.length > 0) {
+      values = [...fields];
+      for (const { index, value } of header.defaults) {
+        if (!values[index]?.trim()) values[index] = value;
+      }
     }
-    if (isNaN(row.unitPrice as number) || (row.unitPrice as number) <= 0) {
-      errors.push(`Row ${rowNum}: Invalid unitPrice "${fields[Array.from(columnMap.entries()).find(([, f]) => f === "unitPrice")?.[0] ?? 0]}"`);
-      return;
+    const outcome = parseRow(values, header.columnMap, num);
+    if ("row" in outcome) data.push(outcome.row);
+    else errors.push(outcome.error);
+  }
+
+  function settleHeader(index: number) {
+    const { fields: row, rowNum: headerRowNum } = candidates[index];
+    const { columnMap, missingFields } = mapHeaders(row, mapping, requiredFields, columnMapping);
+
+    const defaults: { index: number; value: string }[] = [];
+    for (const [field, value] of Object.entries(columnMapping.defaults ?? {})) {
+      if (!value.trim()) continue;
+      let column = Array.from(columnMap.entries()).find(([, f]) => f === field)?.[0];
+      if (column === undefined) {
+        column = row.length + defaults.length;
+        columnMap.set(column, field as keyof T);
+      }
+      defaults.push({ index: column, value: value.trim() });
     }
 
-    data.push(row as MarketDataRow);
-  });
+    header = { row, rowNum: headerRowNum, columnMap, missingFields, defaults };
+    const rest = candidates.slice(index + 1);
+    candidates = [];
+    rest.forEach((c) => accept(c.fields, c.rowNum));
+  }
+
+  return {
+    push(fields) {
+      rowNum++;
+      if (isBlankRow(fields)) return;
+      if (header) {
+        accept(fields, rowNum);
+        return;
+      }
+      candidates.push({ fields, rowNum });
+      if (mapHeaders(fields, mapping, requiredFields, columnMapping).missingFields.length === 0) {
+        settleHeader(candidates.length - 1);
+      } else if (candidates.length >= HEADER_SEARCH_ROWS) {
+        settleHeader(0);
+      }
+    },
+    take() {
+      const rows = data;
+      data = [];
+      return rows;
+    },
+    finish() {
+      if (!header && candidates.length > 0) settleHeader(0);
+      if (!header || totalRows === 0) {
+        return { data: [], errors: [EMPTY_FILE_ERROR], totalRows: 0 };
+      }
+      const { row, missingFields } = header;
+      if (missingFields.length > 0) {
+        return {
+          data: [],
+          errors: [`Missing required columns: ${missingFields.join(", ")}. Found headers: ${row.join(", ")}`],
+          totalRows: 0,
+        };
+      }
+      return {
+        data,
+        errors,
+        ...(warnings ? { warnings: warnings() } : {}),
+        ...(normalizations ? { normalizations: normalizations() } : {}),
+        totalRows,
+      };
+    },
+    layout() {
+      if (!header) return null;
+      const columns: Partial<Record<keyof T, number>> = {};
+      header.columnMap.forEach((field, index) => {
+        if (index < header!.row.length) columns[field] = index;
+      });
+      return { headerRow: header.row, headerRowNum: header.rowNum, columns };
+    },
+  };
+}
 
-  return { data, errors, totalRows: dataRows.length };
+function parseAll<T>(parser: RowParser<T>, lines: string[][]): ParseResult<T> {
+  lines.forEach((fields) => parser.push(fields));
+  const taken = parser.take();
+  const result = parser.finish();
+  return { ...result, data: [...taken, ...result.data] };
 }
 
-export function parseCostMasterCsv(text: string): ParseResult<CostMasterRow> {
-  const lines = parseCsvLines(text);
-  if (lines.length < 2) {
-    return { data: [], errors: ["CSV file is empty or has no data rows."], totalRows: 0 };
+/**
+ * Run batches of records through a RowParser — e.g. readCsvRecords() over an
+ * upload stream, or [rows] for a sheet already in memory. With onRows,
+ * validated rows are handed over batch by batch as they are read; every row
+ * goes there and the returned data is empty.
+ */
+export async function parseRecords<T>(
+  batches: AsyncIterable<string[][]> | Iterable<string[][]>,
+  parser: RowParser<T>,
+  onRows?: (rows: T[]) => Promise<void>
+): Promise<ParseResult<T>> {
+  for await (const records of batches) {
+    records.forEach((fields) => parser.push(fields));
+    if (onRows) {
+      const rows = parser.take();
+      if (rows.length > 0) await onRows(rows);
+    }
   }
+  if (!onRows) return parseAll(parser, []);
+
+  const result = parser.finish();
+  if (result.data.length > 0) await onRows(result.data);
+  return { ...result, data: [] };
+}
+
+/**
+ * Stream a CSV upload (e.g. File.stream()) through a RowParser.
+ */
+export function parseCsvStream<T>(
+  stream: ReadableStream<Uint8Array>,
+  parser: RowParser<T>,
+  onRows?: (rows: T[]) => Promise<void>
+): Promise<ParseResult<T>> {
+  return parseRecords(readCsvRecords(stream), parser, onRows);
+}
 
-  const [headerRow, ...dataRows] = lines;
+// ── MarketData ───────────────────────────────────────────────────
+
+export const MARKET_DATA_FIELDS: (keyof MarketDataRow)[] = [
+  "date", "origin", "destination", "vehicleType", "freightType", "unitPrice",
+];
+
+export function createMarketDataParser(
+  options: ParseOptions = {},
+  columnMapping?: ColumnMapping
+): RowParser<MarketDataRow> {
+  const locations = createLocationNormalizer();
+  const log = createNormalizationLog();
+
+  return createRowParser(
+    MARKET_DATA_HEADERS,
+    MARKET_DATA_FIELDS,
+    (fields, columnMap, rowNum) => {
+      const row: Partial<MarketDataRow> = {};
+
+      columnMap.forEach((field, colIdx) => {
+        const val = fields[colIdx]?.trim() ?? "";
+        if (field === "unitPrice") {
+          row[field] = parseKrwAmount(val);
+          if (/[억만천]/.test(val)) log.record("Price", val, String(row[field]), rowNum);
+        } else if (field === "date") {
+          row[field] = normalizeDate(val);
+          if (isValidDate(row[field])) log.record("Date", val, row[field], rowNum);
+        } else if (field === "vehicleType") {
+          row[field] = normalizeTonnage(val);
+          log.record("Vehicle", val, row[field], rowNum);
+        } else {
+          (row as Record<string, string | number>)[field] = val;
+        }
+      });
+
+      // Validate
+      if (!row.date || !isValidDate(row.date)) {
+        return { error: `Row ${rowNum}: Invalid date "${row.date}"` };
+      }
+      if (!row.origin || !row.destination) {
+        return { error: `Row ${rowNum}: Missing origin or destination` };
+      }
+      row.origin = locations.normalize(row.origin, rowNum);
+      row.destination = locations.normalize(row.destination, rowNum);
+      if (!row.vehicleType) {
+        return { error: `Row ${rowNum}: Missing vehicleType` };
+      }
+      const catalog = checkCatalogFields(
+        { vehicleType: row.vehicleType, freightType: row.freightType ?? "" },
+        options
+      );
+      if (catalog.error) return { error: `Row ${rowNum}: ${catalog.error}` };
+      row.freightType = catalog.freightType;
+      if (isNaN(row.unitPrice as number) || (row.unitPrice as number) <= 0) {
+        const priceCol = Array.from(columnMap.entries()).find(([, f]) => f === "unitPrice")?.[0] ?? 0;
+        return { error: `Row ${rowNum}: Invalid unitPrice "${fields[priceCol]}"` };
+      }
+
+      return { row: row as MarketDataRow };
+    },
+    {
+      warnings: () => locations.warnings(),
+      normalizations: () => log.entries(),
+      columnMapping,
+    }
+  );
+}
+
+export function parseMarketDataCsv(
+  text: string,
+  options: ParseOptions = {}
+): ParseResult<MarketDataRow> {
+  return parseAll(createMarketDataParser(options), parseCsvText(text));
+}
+
+// ── CostMaster ───────────────────────────────────────────────────
+
+const VALID_CATEGORIES = ["Variable", "Fixed", "Policy", "Risk"];
+
+export function createCostMasterParser(options: ParseOptions = {}): RowParser<CostMasterRow> {
   const requiredFields: (keyof CostMasterRow)[] = [
     "category", "item", "value", "unit", "description",
   ];
-  const { columnMap, missingFields } = mapHeaders(headerRow, COST_MASTER_HEADERS, requiredFields);
-
-  if (missingFields.length > 0) {
-    return {
-      data: [],
-      errors: [`Missing required columns: ${missingFields.join(", ")}. Found headers: ${headerRow.join(", ")}`],
-      totalRows: 0,
-    };
-  }
 
-  const data: CostMasterRow[] = [];
-  const errors: string[] = [];
-  const validCategories = ["Variable", "Fixed", "Policy", "Risk"];
+  const log = createNormalizationLog();
 
-  dataRows.forEach((fields, idx) => {
-    const rowNum = idx + 2;
-    const row: Partial<CostMasterRow> = {};
+  return createRowParser(COST_MASTER_HEADERS, requiredFields, (fields, columnMap, rowNum) => {
+    const row: Partial<CostMasterRow> = { vehicleType: null };
 
     columnMap.forEach((field, colIdx) => {
       const val = fields[colIdx]?.trim() ?? "";
       if (field === "value") {
         row[field] = parseFloat(val.replace(/,/g, ""));
+      } else if (field === "vehicleType") {
+        row[field] = val ? normalizeTonnage(val) : null;
+        if (val) log.record("Vehicle", val, row[field] as string, rowNum);
       } else {
         (row as Record<string, string | number>)[field] = val;
       }
     });
 
-    if (!row.category || !validCategories.includes(row.category)) {
-      errors.push(`Row ${rowNum}: Invalid category "${row.category}". Must be one of: ${validCategories.join(", ")}`);
-      return;
+    if (!row.category || !VALID_CATEGORIES.includes(row.category)) {
+      return { error: `Row ${rowNum}: Invalid category "${row.category}". Must be one of: ${VALID_CATEGORIES.join(", ")}` };
     }
     if (!row.item) {
-      errors.push(`Row ${rowNum}: Missing item name`);
-      return;
+      return { error: `Row ${rowNum}: Missing item name` };
     }
     if (isNaN(row.value as number)) {
-      errors.push(`Row ${rowNum}: Invalid value`);
-      return;
+      return { error: `Row ${rowNum}: Invalid value` };
     }
     if (!row.unit) {
-      errors.push(`Row ${rowNum}: Missing unit`);
-      return;
+      return { error: `Row ${rowNum}: Missing unit` };
+    }
+    if (row.vehicleType && options.vehicleTypes && !options.vehicleTypes.includes(row.vehicleType)) {
+      return { error: `Row ${rowNum}: Unknown vehicleType "${row.vehicleType}" (not in vehicle catalog)` };
     }
 
-    data.push(row as CostMasterRow);
-  });
+    return { row: row as CostMasterRow };
+  }, { normalizations: () => log.entries() });
+}
+
+export function parseCostMasterCsv(
+  text: string,
+  options: ParseOptions = {}
+): ParseResult<CostMasterRow> {
+  return parseAll(createCostMasterParser(options), parseCsvText(text));
+}
+
+// ── RouteDistance ────────────────────────────────────────────────
+
+const ONE_WAY_VALUES = ["no", "n", "false", "0", "one-way", "oneway"];
+const SYMMETRIC_VALUES = ["", "yes", "y", "true", "1", "both", "symmetric"];
+
+export function createRouteDistanceParser(): RowParser<RouteDistanceRow> {
+  const requiredFields: (keyof RouteDistanceRow)[] = ["origin", "destination", "distanceKm"];
+  const locations = createLocationNormalizer();
+
+  return createRowParser(
+    ROUTE_DISTANCE_HEADERS,
+    requiredFields,
+    (fields, columnMap, rowNum) => {
+      const row: Partial<RouteDistanceRow> = { symmetric: true, sourceNote: null, updatedBy: null };
+      let direction = "";
+
+      columnMap.forEach((field, colIdx) => {
+        const val = fields[colIdx]?.trim() ?? "";
+        if (field === "distanceKm") {
+          row[field] = parseFloat(val.replace(/,/g, ""));
+        } else if (field === "symmetric") {
+          direction = val.toLowerCase();
+        } else if (field === "sourceNote" || field === "updatedBy") {
+          row[field] = val || null;
+        } else {
+          row[field] = val;
+        }
+      });
+
+      if (!row.origin || !row.destination) {
+        return { error: `Row ${rowNum}: Missing origin or destination` };
+      }
+      row.origin = locations.normalize(row.origin, rowNum);
+      row.destination = locations.normalize(row.destination, rowNum);
+      if (row.origin === row.destination) {
+        return { error: `Row ${rowNum}: Origin and destination are the same` };
+      }
+      if (isNaN(row.distanceKm as number) || (row.distanceKm as number) <= 0) {
+        return { error: `Row ${rowNum}: Invalid distanceKm` };
+      }
+      if (ONE_WAY_VALUES.includes(direction)) {
+        row.symmetric = false;
+      } else if (!SYMMETRIC_VALUES.includes(direction)) {
+        return { error: `Row ${rowNum}: Invalid symmetric "${direction}". Use yes or no` };
+      }
+
+      return { row: row as RouteDistanceRow };
+    },
+    { warnings: () => locations.warnings() }
+  );
+}
 
-  return { data, errors, totalRows: dataRows.length };
+export function parseRouteDistanceCsv(text: string): ParseResult<RouteDistanceRow> {
+  return parseAll(createRouteDistanceParser(), parseCsvText(text));
 }
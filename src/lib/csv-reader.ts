@@ -0,0 +1,229 @@
+/**
+ * CSV Reader
+ *
+ * RFC 4180 tokenizer shared by the data importers (csv-parser.ts) and the
+ * batch simulator. It works on chunks, so large broker exports are read as a
+ * stream instead of being loaded whole:
+ *   - fields may be quoted; quoted fields may contain commas, "" and newlines
+ *   - records end at CRLF, LF or CR
+ *   - fields are returned as written (not trimmed)
+ *   - a stray quote inside an unquoted field is kept as text
+ *
+ * Bytes are decoded as UTF-8 or EUC-KR (CP949, as saved by Korean Excel).
+ * A UTF-8 byte-order mark is stripped. Otherwise the encoding is decided at
+ * the first non-ASCII byte: if the bytes from there are not valid UTF-8, the
+ * file is EUC-KR. ASCII reads the same in both, so nothing before that byte
+ * needs re-decoding.
+ *
+ * No Node-only APIs: this module also runs in the browser.
+ */
+
+export type CsvEncoding = "utf-8" | "euc-kr";
+
+// Bytes after the first non-ASCII byte needed before trusting the UTF-8 check
+const DETECT_WINDOW = 64;
+
+// ── Decoding ─────────────────────────────────────────────────────
+
+function isValidUtf8(bytes: Uint8Array, final: boolean): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: !final });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+}
+
+/**
+ * Streaming decoder that picks the encoding from the data.
+ */
+export function createCsvDecoder() {
+  let decoder: TextDecoder | null = null;
+  let pending = new Uint8Array(0); // undecided bytes, starting at the first non-ASCII one
+  let bomChecked = false;
+  let encoding: CsvEncoding | null = null;
+
+  function decide(bytes: Uint8Array, final: boolean): string {
+    const firstNonAscii = bytes.findIndex((b) => b >= 0x80);
+    if (firstNonAscii < 0) {
+      return new TextDecoder("utf-8").decode(bytes);
+    }
+    const ascii = new TextDecoder("utf-8").decode(bytes.subarray(0, firstNonAscii));
+    const rest = bytes.subarray(firstNonAscii);
+    if (!final && rest.length < DETECT_WINDOW) {
+      pending = rest.slice();
+      return ascii;
+    }
+    pending = new Uint8Array(0);
+    encoding = isValidUtf8(rest, final) ? "utf-8" : "euc-kr";
+    decoder = new TextDecoder(encoding, { ignoreBOM: true });
+    return ascii + decoder.decode(rest, { stream: !final });
+  }
+
+  return {
+    decode(chunk: Uint8Array): string {
+      let bytes = pending.length > 0 ? concatBytes(pending, chunk) : chunk;
+      if (!bomChecked) {
+        if (bytes.length < 3) {
+          pending = bytes.slice();
+          return "";
+        }
+        bomChecked = true;
+        if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+          encoding = "utf-8";
+          decoder = new TextDecoder("utf-8", { ignoreBOM: true });
+          bytes = bytes.subarray(3);
+        }
+        pending = new Uint8Array(0);
+      }
+      if (decoder) return decoder.decode(bytes, { stream: true });
+      pending = new Uint8Array(0);
+      return decide(bytes, false);
+    },
+    end(): string {
+      if (decoder) return decoder.decode();
+      const bytes = pending;
+      pending = new Uint8Array(0);
+      if (!bomChecked) {
+        bomChecked = true;
+        // Shorter than a BOM: a tiny file, or a BOM-only one
+        if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "";
+      }
+      return decide(bytes, true);
+    },
+    /** The detected encoding, or null while only ASCII has been seen. */
+    encoding(): CsvEncoding | null {
+      return encoding;
+    },
+  };
+}
+
+/**
+ * Decode a whole file held in memory.
+ */
+export function decodeCsvBytes(bytes: Uint8Array): string {
+  const decoder = createCsvDecoder();
+  return decoder.decode(bytes) + decoder.end();
+}
+
+// ── Tokenizing ───────────────────────────────────────────────────
+
+/**
+ * Streaming tokenizer: push text in any pieces, get back the records that
+ * were completed so far.
+ */
+export function createCsvTokenizer() {
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+  let afterQuote = false; // just closed a quoted section; a second " is an escaped quote
+  let skipLf = false;     // the record ended on CR; ignore an LF that follows
+  let dirty = false;      // the current record has content (or an open quote)
+
+  function endRecord(out: string[][]) {
+    record.push(field);
+    out.push(record);
+    record = [];
+    field = "";
+    dirty = false;
+  }
+
+  return {
+    push(text: string): string[][] {
+      const out: string[][] = [];
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (skipLf) {
+          skipLf = false;
+          if (char === "\n") continue;
+        }
+
+        if (inQuotes) {
+          if (char === '"') {
+            inQuotes = false;
+            afterQuote = true;
+          } else {
+            field += char;
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          if (afterQuote) {
+            field += '"';
+            inQuotes = true;
+            afterQuote = false;
+          } else if (field === "") {
+            inQuotes = true;
+            dirty = true;
+          } else {
+            field += char;
+          }
+          continue;
+        }
+        afterQuote = false;
+
+        if (char === ",") {
+          record.push(field);
+          field = "";
+          dirty = true;
+        } else if (char === "\n" || char === "\r") {
+          endRecord(out);
+          skipLf = char === "\r";
+        } else {
+          field += char;
+          dirty = true;
+        }
+      }
+      return out;
+    },
+    end(): string[][] {
+      const out: string[][] = [];
+      if (dirty || field !== "" || record.length > 0) endRecord(out);
+      inQuotes = false;
+      afterQuote = false;
+      skipLf = false;
+      return out;
+    },
+  };
+}
+
+/**
+ * Records of a CSV text held in memory. Blank lines come back as [""].
+ */
+export function parseCsvText(text: string): string[][] {
+  const tokenizer = createCsvTokenizer();
+  return [...tokenizer.push(text), ...tokenizer.end()];
+}
+
+/**
+ * Records of a CSV byte stream (e.g. File.stream()), in batches as the
+ * stream is read.
+ */
+export async function* readCsvRecords(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<string[][]> {
+  const decoder = createCsvDecoder();
+  const tokenizer = createCsvTokenizer();
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const records = tokenizer.push(decoder.decode(value));
+      if (records.length > 0) yield records;
+    }
+    const last = [...tokenizer.push(decoder.end()), ...tokenizer.end()];
+    if (last.length > 0) yield last;
+  } finally {
+    reader.releaseLock();
+  }
+}
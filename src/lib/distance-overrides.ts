@@ -0,0 +1,83 @@
+/**
+ * Route Distance Overrides
+ *
+ * Reads the RouteDistance table of distances measured by dispatch. An
+ * override wins over every distance provider (distance-providers.ts); a
+ * symmetric override also covers the reverse direction.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { getProviderChain, getProviderDistance } from "@/lib/distance-providers";
+import type { RouteDistanceResult } from "@/lib/route-distance";
+
+export interface RouteDistanceOverride {
+  id: number;
+  origin: string;
+  destination: string;
+  distanceKm: number;
+  symmetric: boolean;
+  sourceNote: string | null;
+  updatedBy: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * All overrides, by origin then destination.
+ */
+export async function getDistanceOverrides(): Promise<RouteDistanceOverride[]> {
+  return prisma.routeDistance.findMany({
+    orderBy: [{ origin: "asc" }, { destination: "asc" }],
+  });
+}
+
+function overrideResult(override: RouteDistanceOverride): RouteDistanceResult {
+  return { distanceKm: override.distanceKm, source: "manual-override" };
+}
+
+/**
+ * Distance for origin → destination: the override for that direction, a
+ * symmetric override of the reverse direction, or the provider chain.
+ */
+export async function resolveRouteDistance(
+  origin: string,
+  destination: string
+): Promise<RouteDistanceResult> {
+  const override =
+    (await prisma.routeDistance.findUnique({
+      where: { origin_destination: { origin, destination } },
+    })) ??
+    (await prisma.routeDistance.findFirst({
+      where: { origin: destination, destination: origin, symmetric: true },
+    }));
+  return override ? overrideResult(override) : getProviderDistance(origin, destination);
+}
+
+/**
+ * Resolver with every override and the provider chain loaded once, for bulk
+ * lookups (e.g. one per MarketData row). Each lane is resolved only once.
+ */
+export async function createDistanceResolver(): Promise<
+  (origin: string, destination: string) => Promise<RouteDistanceResult>
+> {
+  const overrides = new Map<string, RouteDistanceOverride>();
+  for (const o of await getDistanceOverrides()) {
+    overrides.set(`${o.origin}→${o.destination}`, o);
+    const reverse = `${o.destination}→${o.origin}`;
+    if (o.symmetric && !overrides.has(reverse)) overrides.set(reverse, o);
+  }
+  const chain = await getProviderChain();
+  const resolved = new Map<string, RouteDistanceResult>();
+
+  return async (origin, destination) => {
+    const key = `${origin}→${destination}`;
+    const override = overrides.get(key);
+    if (override) return overrideResult(override);
+
+    let result = resolved.get(key);
+    if (!result) {
+      result = await getProviderDistance(origin, destination, chain);
+      resolved.set(key, result);
+    }
+    return result;
+  };
+}
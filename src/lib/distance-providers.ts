@@ -0,0 +1,200 @@
+/**
+ * Distance Providers
+ *
+ * Estimated road distances come from a chain of providers, tried in the
+ * order configured under Settings → Road Distances:
+ *   graph — bundled road graph between gazetteer districts (offline)
+ *   http  — an OSRM-compatible routing service, e.g. a self-hosted instance
+ *   table — corridor table and province centroids (offline, always answers)
+ *
+ * A provider may decline a pair — the graph for province-only locations, the
+ * routing service when it is unreachable — and the next one is asked. The
+ * table answers last if every configured provider declined. Results of slow
+ * providers are kept in the DistanceCache table.
+ *
+ * Manual overrides (distance-overrides.ts) are checked before the chain.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { getAppSetting } from "@/lib/app-settings";
+import {
+  graphRouteDistance,
+  locationCoords,
+  tableRouteDistance,
+  type DistanceSource,
+  type RouteDistanceResult,
+} from "@/lib/route-distance";
+
+export type DistanceProviderId = "graph" | "http" | "table";
+
+export interface DistanceProvider {
+  id: DistanceProviderId;
+  baseUrl?: string;   // routing service asked; part of the DistanceCache key
+  cacheable: boolean; // results are persisted in DistanceCache
+  distance(origin: string, destination: string): Promise<RouteDistanceResult | null>;
+}
+
+export const DISTANCE_PROVIDER_IDS: DistanceProviderId[] = ["graph", "http", "table"];
+
+export const DISTANCE_PROVIDER_LABELS: Record<DistanceProviderId, string> = {
+  graph: "Road graph (offline)",
+  http: "HTTP routing service",
+  table: "Corridor table (offline)",
+};
+
+export const DEFAULT_PROVIDER_ORDER: DistanceProviderId[] = ["graph", "table"];
+
+// AppSetting keys
+export const PROVIDER_ORDER_SETTING = "distance_provider_order"; // JSON array of ids
+export const ROUTING_URL_SETTING = "distance_routing_url";       // e.g. "http://localhost:5000"
+
+const HTTP_TIMEOUT_MS = 5000;
+const HTTP_RETRY_MS = 60_000; // how long an unreachable routing service is skipped
+
+/** Routing services that failed recently, by base URL → time to retry. */
+const unreachableUntil = new Map<string, number>();
+
+// ── Providers ────────────────────────────────────────────────────
+
+const graphProvider: DistanceProvider = {
+  id: "graph",
+  cacheable: false, // cheap, and its path (segments) isn't persisted
+  async distance(origin, destination) {
+    return graphRouteDistance(origin, destination);
+  },
+};
+
+const tableProvider: DistanceProvider = {
+  id: "table",
+  cacheable: false,
+  async distance(origin, destination) {
+    return tableRouteDistance(origin, destination);
+  },
+};
+
+/**
+ * OSRM-style routing backend:
+ *   GET {baseUrl}/route/v1/driving/{lng},{lat};{lng},{lat}?overview=false
+ *   → { code: "Ok", routes: [{ distance: <metres>, ... }] }
+ * Locations are sent as their district (or province) centroid. After a
+ * network error or timeout the service is skipped for HTTP_RETRY_MS across
+ * all chains, so an unreachable service costs one timeout, not one per lane
+ * or per quote.
+ */
+export function createHttpProvider(baseUrl: string): DistanceProvider {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  return {
+    id: "http",
+    baseUrl: base,
+    cacheable: true,
+    async distance(origin, destination) {
+      const from = locationCoords(origin);
+      const to = locationCoords(destination);
+      if ((unreachableUntil.get(base) ?? 0) > Date.now() || !from || !to) return null;
+
+      const url = `${base}/route/v1/driving/${from[1]},${from[0]};${to[1]},${to[0]}?overview=false`;
+      try {
+        const res = await fetch(url, { signal: AbortSignal.timeout(HTTP_TIMEOUT_MS), cache: "no-store" });
+        if (!res.ok) return null;
+        const body = await res.json();
+        const metres = body?.code === "Ok" ? body.routes?.[0]?.distance : undefined;
+        if (typeof metres !== "number" || metres <= 0) return null;
+        return { distanceKm: Math.max(1, Math.round(metres / 1000)), source: "http-routing" };
+      } catch {
+        unreachableUntil.set(base, Date.now() + HTTP_RETRY_MS);
+        return null;
+      }
+    },
+  };
+}
+
+// ── Settings ─────────────────────────────────────────────────────
+
+export interface DistanceProviderSettings {
+  order: DistanceProviderId[]; // enabled providers, first asked first
+  routingUrl: string | null;
+}
+
+function parseProviderOrder(value: string | null): DistanceProviderId[] {
+  if (!value) return DEFAULT_PROVIDER_ORDER;
+  try {
+    const ids: unknown = JSON.parse(value);
+    if (!Array.isArray(ids)) return DEFAULT_PROVIDER_ORDER;
+    return DISTANCE_PROVIDER_IDS.filter((id) => ids.includes(id)).sort(
+      (a, b) => ids.indexOf(a) - ids.indexOf(b)
+    );
+  } catch {
+    return DEFAULT_PROVIDER_ORDER;
+  }
+}
+
+export async function getDistanceProviderSettings(): Promise<DistanceProviderSettings> {
+  const [order, routingUrl] = await Promise.all([
+    getAppSetting(PROVIDER_ORDER_SETTING),
+    getAppSetting(ROUTING_URL_SETTING),
+  ]);
+  return { order: parseProviderOrder(order), routingUrl: routingUrl || null };
+}
+
+/**
+ * The configured providers in order. The HTTP provider is skipped while no
+ * routing URL is set.
+ */
+export async function getProviderChain(): Promise<DistanceProvider[]> {
+  const { order, routingUrl } = await getDistanceProviderSettings();
+  return order.flatMap((id): DistanceProvider[] => {
+    if (id === "graph") return [graphProvider];
+    if (id === "table") return [tableProvider];
+    return routingUrl ? [createHttpProvider(routingUrl)] : [];
+  });
+}
+
+// ── Lookup ───────────────────────────────────────────────────────
+
+async function cachedDistance(
+  provider: DistanceProvider,
+  origin: string,
+  destination: string
+): Promise<RouteDistanceResult | null> {
+  const key = { provider: provider.id, baseUrl: provider.baseUrl ?? "", origin, destination };
+  const hit = await prisma.distanceCache.findUnique({ where: { provider_baseUrl_origin_destination: key } });
+  if (hit) return { distanceKm: hit.distanceKm, source: hit.source as DistanceSource };
+
+  const result = await provider.distance(origin, destination);
+  if (result) {
+    await prisma.distanceCache.upsert({
+      where: { provider_baseUrl_origin_destination: key },
+      create: { ...key, distanceKm: result.distanceKm, source: result.source },
+      update: { distanceKm: result.distanceKm, source: result.source },
+    });
+  }
+  return result;
+}
+
+/**
+ * Distance from the first provider that answers. Pass a chain from
+ * getProviderChain() when resolving many lanes at once.
+ */
+export async function getProviderDistance(
+  origin: string,
+  destination: string,
+  chain?: DistanceProvider[]
+): Promise<RouteDistanceResult> {
+  for (const provider of chain ?? (await getProviderChain())) {
+    const result = provider.cacheable
+      ? await cachedDistance(provider, origin, destination)
+      : await provider.distance(origin, destination);
+    if (result) return result;
+  }
+  return tableRouteDistance(origin, destination);
+}
+
+export async function getDistanceCacheCount(): Promise<number> {
+  return prisma.distanceCache.count();
+}
+
+export async function clearDistanceCache(): Promise<number> {
+  const { count } = await prisma.distanceCache.deleteMany();
+  return count;
+}
@@ -0,0 +1,53 @@
+/**
+ * Freight Catalog
+ *
+ * Reads the FreightClass table. The engine uses it for the Tier 3 freight
+ * surcharge and body type checks; the simulators and MarketData importer use
+ * it to resolve freight type spellings to canonical class names.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  parseAliases,
+  resolveFreightClass,
+  type FreightClassSpec,
+} from "@/lib/freight-class";
+
+interface FreightClassRow {
+  id: number;
+  name: string;
+  aliases: string;
+  surchargeRate: number;
+  requiredBodyType: string | null;
+  hazmatUnClass: string | null;
+  description: string | null;
+}
+
+function toSpec(row: FreightClassRow): FreightClassSpec {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: parseAliases(row.aliases),
+    surchargeRate: row.surchargeRate,
+    requiredBodyType: row.requiredBodyType,
+    hazmatUnClass: row.hazmatUnClass,
+    description: row.description,
+  };
+}
+
+/**
+ * All freight classes, lowest surcharge first.
+ */
+export async function getFreightClasses(): Promise<FreightClassSpec[]> {
+  const rows = await prisma.freightClass.findMany({
+    orderBy: [{ surchargeRate: "asc" }, { name: "asc" }],
+  });
+  return rows.map(toSpec);
+}
+
+/**
+ * Resolve a freight type (name or alias) to its class. Returns null if unknown.
+ */
+export async function findFreightClass(freightType: string): Promise<FreightClassSpec | null> {
+  return resolveFreightClass(freightType, await getFreightClasses());
+}
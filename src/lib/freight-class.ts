@@ -0,0 +1,63 @@
+/**
+ * Freight Classification
+ *
+ * Resolves free-text freight types ("냉동", "Frozen", "refrigerated") to a
+ * canonical FreightClass by exact name or alias match. Matching ignores case,
+ * spaces and punctuation but never falls back to substrings, so an unknown
+ * type is reported instead of being priced as General.
+ *
+ * This module has no DB access so the simulators and CSV parsers can use it
+ * in the browser; see freight-catalog.ts for the table reads.
+ */
+
+export interface FreightClassSpec {
+  id: number;
+  name: string;                     // canonical, e.g. "Refrigerated"
+  aliases: string[];                // e.g. ["냉동", "냉장", "frozen"]
+  surchargeRate: number;            // e.g. 0.15 = +15%
+  requiredBodyType: string | null;  // vehicle body type needed, e.g. "Refrigerated"
+  hazmatUnClass: string | null;     // UN dangerous goods class, e.g. "3"
+  description: string | null;
+}
+
+/** Name and aliases only — what the parsers need to resolve a freight type. */
+export type FreightClassKey = Pick<FreightClassSpec, "name" | "aliases">;
+
+export const DEFAULT_FREIGHT_CLASS = "General";
+
+/**
+ * Lower-case and strip whitespace and punctuation (Hangul is kept).
+ */
+export function normalizeFreightKey(value: string): string {
+  return value.toLowerCase().replace(/[\s\-_/.,()]/g, "");
+}
+
+/**
+ * Split a stored alias list ("냉동, 냉장,frozen") into trimmed entries.
+ */
+export function parseAliases(value: string): string[] {
+  return value
+    .split(",")
+    .map((a) => a.trim())
+    .filter((a) => a.length > 0);
+}
+
+/**
+ * Find the class whose name or one of whose aliases matches the freight type.
+ * Returns null if nothing matches.
+ */
+export function resolveFreightClass<T extends FreightClassKey>(
+  freightType: string,
+  classes: T[]
+): T | null {
+  const key = normalizeFreightKey(freightType);
+  if (!key) return null;
+
+  return (
+    classes.find(
+      (c) =>
+        normalizeFreightKey(c.name) === key ||
+        c.aliases.some((a) => normalizeFreightKey(a) === key)
+    ) ?? null
+  );
+}
@@ -0,0 +1,336 @@
+/**
+ * District Gazetteer
+ *
+ * Offline list of every si/gun/gu (city, county and autonomous district)
+ * with its parent province and approximate centroid. Names follow the
+ * "Province/District" format used throughout the app, without the
+ * -si/-gun/-gu suffix: "Gyeonggi/Pyeongtaek", "Busan/Haeundae".
+ *
+ * Sejong has no districts and is listed once as "Sejong/Sejong".
+ */
+
+export interface District {
+  province: string;
+  name: string;   // romanised, no suffix
+  nameKo: string; // official Korean name with suffix, e.g. "평택시"
+  lat: number;
+  lng: number;
+}
+
+type DistrictRow = [province: string, name: string, nameKo: string, lat: number, lng: number];
+
+const DISTRICT_ROWS: DistrictRow[] = [
+  // Seoul
+  ["Seoul", "Jongno", "종로구", 37.5735, 126.9790],
+  ["Seoul", "Jung", "중구", 37.5638, 126.9976],
+  ["Seoul", "Yongsan", "용산구", 37.5326, 126.9905],
+  ["Seoul", "Seongdong", "성동구", 37.5634, 127.0369],
+  ["Seoul", "Gwangjin", "광진구", 37.5385, 127.0823],
+  ["Seoul", "Dongdaemun", "동대문구", 37.5744, 127.0396],
+  ["Seoul", "Jungnang", "중랑구", 37.6063, 127.0925],
+  ["Seoul", "Seongbuk", "성북구", 37.5894, 127.0167],
+  ["Seoul", "Gangbuk", "강북구", 37.6396, 127.0257],
+  ["Seoul", "Dobong", "도봉구", 37.6688, 127.0471],
+  ["Seoul", "Nowon", "노원구", 37.6542, 127.0568],
+  ["Seoul", "Eunpyeong", "은평구", 37.6027, 126.9291],
+  ["Seoul", "Seodaemun", "서대문구", 37.5791, 126.9368],
+  ["Seoul", "Mapo", "마포구", 37.5663, 126.9019],
+  ["Seoul", "Yangcheon", "양천구", 37.5170, 126.8665],
+  ["Seoul", "Gangseo", "강서구", 37.5509, 126.8495],
+  ["Seoul", "Guro", "구로구", 37.4955, 126.8875],
+  ["Seoul", "Geumcheon", "금천구", 37.4569, 126.8955],
+  ["Seoul", "Yeongdeungpo", "영등포구", 37.5264, 126.8962],
+  ["Seoul", "Dongjak", "동작구", 37.5124, 126.9393],
+  ["Seoul", "Gwanak", "관악구", 37.4784, 126.9516],
+  ["Seoul", "Seocho", "서초구", 37.4837, 127.0324],
+  ["Seoul", "Gangnam", "강남구", 37.5172, 127.0473],
+  ["Seoul", "Songpa", "송파구", 37.5145, 127.1059],
+  ["Seoul", "Gangdong", "강동구", 37.5301, 127.1238],
+
+  // Busan
+  ["Busan", "Jung", "중구", 35.1063, 129.0323],
+  ["Busan", "Seo", "서구", 35.0979, 129.0244],
+  ["Busan", "Dong", "동구", 35.1295, 129.0454],
+  ["Busan", "Yeongdo", "영도구", 35.0912, 129.0679],
+  ["Busan", "Busanjin", "부산진구", 35.1629, 129.0532],
+  ["Busan", "Dongnae", "동래구", 35.2049, 129.0837],
+  ["Busan", "Nam", "남구", 35.1366, 129.0843],
+  ["Busan", "Buk", "북구", 35.1972, 128.9903],
+  ["Busan", "Haeundae", "해운대구", 35.1631, 129.1636],
+  ["Busan", "Saha", "사하구", 35.1046, 128.9749],
+  ["Busan", "Geumjeong", "금정구", 35.2430, 129.0922],
+  ["Busan", "Gangseo", "강서구", 35.2122, 128.9807],
+  ["Busan", "Yeonje", "연제구", 35.1762, 129.0799],
+  ["Busan", "Suyeong", "수영구", 35.1455, 129.1131],
+  ["Busan", "Sasang", "사상구", 35.1526, 128.9910],
+  ["Busan", "Gijang", "기장군", 35.2445, 129.2222],
+
+  // Daegu
+  ["Daegu", "Jung", "중구", 35.8693, 128.6062],
+  ["Daegu", "Dong", "동구", 35.8866, 128.6355],
+  ["Daegu", "Seo", "서구", 35.8718, 128.5592],
+  ["Daegu", "Nam", "남구", 35.8460, 128.5974],
+  ["Daegu", "Buk", "북구", 35.8858, 128.5828],
+  ["Daegu", "Suseong", "수성구", 35.8582, 128.6306],
+  ["Daegu", "Dalseo", "달서구", 35.8299, 128.5327],
+  ["Daegu", "Dalseong", "달성군", 35.7746, 128.4314],
+  ["Daegu", "Gunwi", "군위군", 36.2428, 128.5728],
+
+  // Incheon
+  ["Incheon", "Jung", "중구", 37.4738, 126.6216],
+  ["Incheon", "Dong", "동구", 37.4739, 126.6432],
+  ["Incheon", "Michuhol", "미추홀구", 37.4635, 126.6505],
+  ["Incheon", "Yeonsu", "연수구", 37.4101, 126.6783],
+  ["Incheon", "Namdong", "남동구", 37.4473, 126.7314],
+  ["Incheon", "Bupyeong", "부평구", 37.5070, 126.7219],
+  ["Incheon", "Gyeyang", "계양구", 37.5372, 126.7376],
+  ["Incheon", "Seo", "서구", 37.5453, 126.6760],
+  ["Incheon", "Ganghwa", "강화군", 37.7466, 126.4880],
+  ["Incheon", "Ongjin", "옹진군", 37.4466, 126.6369],
+
+  // Gwangju
+  ["Gwangju", "Dong", "동구", 35.1462, 126.9231],
+  ["Gwangju", "Seo", "서구", 35.1520, 126.8900],
+  ["Gwangju", "Nam", "남구", 35.1330, 126.9026],
+  ["Gwangju", "Buk", "북구", 35.1740, 126.9120],
+  ["Gwangju", "Gwangsan", "광산구", 35.1395, 126.7937],
+
+  // Daejeon
+  ["Daejeon", "Dong", "동구", 36.3120, 127.4548],
+  ["Daejeon", "Jung", "중구", 36.3255, 127.4213],
+  ["Daejeon", "Seo", "서구", 36.3555, 127.3838],
+  ["Daejeon", "Yuseong", "유성구", 36.3624, 127.3563],
+  ["Daejeon", "Daedeok", "대덕구", 36.3467, 127.4156],
+
+  // Ulsan
+  ["Ulsan", "Jung", "중구", 35.5694, 129.3326],
+  ["Ulsan", "Nam", "남구", 35.5439, 129.3300],
+  ["Ulsan", "Dong", "동구", 35.5050, 129.4166],
+  ["Ulsan", "Buk", "북구", 35.5827, 129.3614],
+  ["Ulsan", "Ulju", "울주군", 35.5623, 129.1426],
+
+  // Sejong
+  ["Sejong", "Sejong", "세종시", 36.4800, 127.2890],
+
+  // Gyeonggi
+  ["Gyeonggi", "Suwon", "수원시", 37.2636, 127.0286],
+  ["Gyeonggi", "Seongnam", "성남시", 37.4201, 127.1265],
+  ["Gyeonggi", "Uijeongbu", "의정부시", 37.7381, 127.0338],
+  ["Gyeonggi", "Anyang", "안양시", 37.3943, 126.9568],
+  ["Gyeonggi", "Bucheon", "부천시", 37.5035, 126.7660],
+  ["Gyeonggi", "Gwangmyeong", "광명시", 37.4786, 126.8646],
+  ["Gyeonggi", "Pyeongtaek", "평택시", 36.9921, 127.1129],
+  ["Gyeonggi", "Dongducheon", "동두천시", 37.9036, 127.0606],
+  ["Gyeonggi", "Ansan", "안산시", 37.3219, 126.8309],
+  ["Gyeonggi", "Goyang", "고양시", 37.6584, 126.8320],
+  ["Gyeonggi", "Gwacheon", "과천시", 37.4292, 126.9876],
+  ["Gyeonggi", "Guri", "구리시", 37.5943, 127.1296],
+  ["Gyeonggi", "Namyangju", "남양주시", 37.6360, 127.2165],
+  ["Gyeonggi", "Osan", "오산시", 37.1498, 127.0772],
+  ["Gyeonggi", "Siheung", "시흥시", 37.3801, 126.8031],
+  ["Gyeonggi", "Gunpo", "군포시", 37.3617, 126.9352],
+  ["Gyeonggi", "Uiwang", "의왕시", 37.3446, 126.9683],
+  ["Gyeonggi", "Hanam", "하남시", 37.5393, 127.2148],
+  ["Gyeonggi", "Yongin", "용인시", 37.2411, 127.1776],
+  ["Gyeonggi", "Paju", "파주시", 37.7599, 126.7800],
+  ["Gyeonggi", "Icheon", "이천시", 37.2720, 127.4350],
+  ["Gyeonggi", "Anseong", "안성시", 37.0080, 127.2797],
+  ["Gyeonggi", "Gimpo", "김포시", 37.6153, 126.7156],
+  ["Gyeonggi", "Hwaseong", "화성시", 37.1995, 126.8310],
+  ["Gyeonggi", "Gwangju", "광주시", 37.4294, 127.2550],
+  ["Gyeonggi", "Yangju", "양주시", 37.7853, 127.0458],
+  ["Gyeonggi", "Pocheon", "포천시", 37.8949, 127.2003],
+  ["Gyeonggi", "Yeoju", "여주시", 37.2983, 127.6370],
+  ["Gyeonggi", "Yeoncheon", "연천군", 38.0966, 127.0748],
+  ["Gyeonggi", "Gapyeong", "가평군", 37.8315, 127.5105],
+  ["Gyeonggi", "Yangpyeong", "양평군", 37.4917, 127.4875],
+
+  // Gangwon
+  ["Gangwon", "Chuncheon", "춘천시", 37.8813, 127.7298],
+  ["Gangwon", "Wonju", "원주시", 37.3422, 127.9202],
+  ["Gangwon", "Gangneung", "강릉시", 37.7519, 128.8761],
+  ["Gangwon", "Donghae", "동해시", 37.5247, 129.1143],
+  ["Gangwon", "Taebaek", "태백시", 37.1641, 128.9856],
+  ["Gangwon", "Sokcho", "속초시", 38.2070, 128.5918],
+  ["Gangwon", "Samcheok", "삼척시", 37.4500, 129.1652],
+  ["Gangwon", "Hongcheon", "홍천군", 37.6970, 127.8887],
+  ["Gangwon", "Hoengseong", "횡성군", 37.4918, 127.9852],
+  ["Gangwon", "Yeongwol", "영월군", 37.1837, 128.4617],
+  ["Gangwon", "Pyeongchang", "평창군", 37.3708, 128.3903],
+  ["Gangwon", "Jeongseon", "정선군", 37.3807, 128.6608],
+  ["Gangwon", "Cheorwon", "철원군", 38.1466, 127.3132],
+  ["Gangwon", "Hwacheon", "화천군", 38.1063, 127.7082],
+  ["Gangwon", "Yanggu", "양구군", 38.1100, 127.9899],
+  ["Gangwon", "Inje", "인제군", 38.0697, 128.1707],
+  ["Gangwon", "Goseong", "고성군", 38.3806, 128.4678],
+  ["Gangwon", "Yangyang", "양양군", 38.0754, 128.6190],
+
+  // Chungbuk
+  ["Chungbuk", "Cheongju", "청주시", 36.6424, 127.4890],
+  ["Chungbuk", "Chungju", "충주시", 36.9910, 127.9259],
+  ["Chungbuk", "Jecheon", "제천시", 37.1326, 128.1910],
+  ["Chungbuk", "Boeun", "보은군", 36.4894, 127.7295],
+  ["Chungbuk", "Okcheon", "옥천군", 36.3064, 127.5713],
+  ["Chungbuk", "Yeongdong", "영동군", 36.1750, 127.7834],
+  ["Chungbuk", "Jeungpyeong", "증평군", 36.7853, 127.5815],
+  ["Chungbuk", "Jincheon", "진천군", 36.8554, 127.4356],
+  ["Chungbuk", "Goesan", "괴산군", 36.8154, 127.7867],
+  ["Chungbuk", "Eumseong", "음성군", 36.9403, 127.6906],
+  ["Chungbuk", "Danyang", "단양군", 36.9846, 128.3655],
+
+  // Chungnam
+  ["Chungnam", "Cheonan", "천안시", 36.8151, 127.1139],
+  ["Chungnam", "Gongju", "공주시", 36.4465, 127.1190],
+  ["Chungnam", "Boryeong", "보령시", 36.3334, 126.6128],
+  ["Chungnam", "Asan", "아산시", 36.7898, 127.0018],
+  ["Chungnam", "Seosan", "서산시", 36.7848, 126.4503],
+  ["Chungnam", "Nonsan", "논산시", 36.1872, 127.0987],
+  ["Chungnam", "Gyeryong", "계룡시", 36.2745, 127.2489],
+  ["Chungnam", "Dangjin", "당진시", 36.8898, 126.6459],
+  ["Chungnam", "Geumsan", "금산군", 36.1088, 127.4881],
+  ["Chungnam", "Buyeo", "부여군", 36.2757, 126.9099],
+  ["Chungnam", "Seocheon", "서천군", 36.0803, 126.6919],
+  ["Chungnam", "Cheongyang", "청양군", 36.4591, 126.8022],
+  ["Chungnam", "Hongseong", "홍성군", 36.6013, 126.6608],
+  ["Chungnam", "Yesan", "예산군", 36.6826, 126.8450],
+  ["Chungnam", "Taean", "태안군", 36.7456, 126.2980],
+
+  // Jeonbuk
+  ["Jeonbuk", "Jeonju", "전주시", 35.8242, 127.1480],
+  ["Jeonbuk", "Gunsan", "군산시", 35.9676, 126.7366],
+  ["Jeonbuk", "Iksan", "익산시", 35.9483, 126.9577],
+  ["Jeonbuk", "Jeongeup", "정읍시", 35.5699, 126.8559],
+  ["Jeonbuk", "Namwon", "남원시", 35.4164, 127.3904],
+  ["Jeonbuk", "Gimje", "김제시", 35.8036, 126.8809],
+  ["Jeonbuk", "Wanju", "완주군", 35.9048, 127.1622],
+  ["Jeonbuk", "Jinan", "진안군", 35.7917, 127.4248],
+  ["Jeonbuk", "Muju", "무주군", 36.0068, 127.6608],
+  ["Jeonbuk", "Jangsu", "장수군", 35.6474, 127.5212],
+  ["Jeonbuk", "Imsil", "임실군", 35.6178, 127.2890],
+  ["Jeonbuk", "Sunchang", "순창군", 35.3744, 127.1374],
+  ["Jeonbuk", "Gochang", "고창군", 35.4358, 126.7020],
+  ["Jeonbuk", "Buan", "부안군", 35.7318, 126.7334],
+
+  // Jeonnam
+  ["Jeonnam", "Mokpo", "목포시", 34.8118, 126.3922],
+  ["Jeonnam", "Yeosu", "여수시", 34.7604, 127.6622],
+  ["Jeonnam", "Suncheon", "순천시", 34.9507, 127.4872],
+  ["Jeonnam", "Naju", "나주시", 35.0160, 126.7108],
+  ["Jeonnam", "Gwangyang", "광양시", 34.9407, 127.6959],
+  ["Jeonnam", "Damyang", "담양군", 35.3211, 126.9882],
+  ["Jeonnam", "Gokseong", "곡성군", 35.2820, 127.2920],
+  ["Jeonnam", "Gurye", "구례군", 35.2025, 127.4629],
+  ["Jeonnam", "Goheung", "고흥군", 34.6112, 127.2850],
+  ["Jeonnam", "Boseong", "보성군", 34.7715, 127.0800],
+  ["Jeonnam", "Hwasun", "화순군", 35.0645, 126.9866],
+  ["Jeonnam", "Jangheung", "장흥군", 34.6816, 126.9070],
+  ["Jeonnam", "Gangjin", "강진군", 34.6420, 126.7672],
+  ["Jeonnam", "Haenam", "해남군", 34.5733, 126.5992],
+  ["Jeonnam", "Yeongam", "영암군", 34.8002, 126.6968],
+  ["Jeonnam", "Muan", "무안군", 34.9904, 126.4817],
+  ["Jeonnam", "Hampyeong", "함평군", 35.0660, 126.5165],
+  ["Jeonnam", "Yeonggwang", "영광군", 35.2772, 126.5120],
+  ["Jeonnam", "Jangseong", "장성군", 35.3018, 126.7848],
+  ["Jeonnam", "Wando", "완도군", 34.3110, 126.7550],
+  ["Jeonnam", "Jindo", "진도군", 34.4868, 126.2635],
+  ["Jeonnam", "Sinan", "신안군", 34.8336, 126.3516],
+
+  // Gyeongbuk
+  ["Gyeongbuk", "Pohang", "포항시", 36.0190, 129.3435],
+  ["Gyeongbuk", "Gyeongju", "경주시", 35.8562, 129.2247],
+  ["Gyeongbuk", "Gimcheon", "김천시", 36.1398, 128.1136],
+  ["Gyeongbuk", "Andong", "안동시", 36.5684, 128.7294],
+  ["Gyeongbuk", "Gumi", "구미시", 36.1195, 128.3446],
+  ["Gyeongbuk", "Yeongju", "영주시", 36.8057, 128.6240],
+  ["Gyeongbuk", "Yeongcheon", "영천시", 35.9733, 128.9386],
+  ["Gyeongbuk", "Sangju", "상주시", 36.4109, 128.1590],
+  ["Gyeongbuk", "Mungyeong", "문경시", 36.5866, 128.1867],
+  ["Gyeongbuk", "Gyeongsan", "경산시", 35.8251, 128.7415],
+  ["Gyeongbuk", "Uiseong", "의성군", 36.3527, 128.6970],
+  ["Gyeongbuk", "Cheongsong", "청송군", 36.4359, 129.0571],
+  ["Gyeongbuk", "Yeongyang", "영양군", 36.6667, 129.1124],
+  ["Gyeongbuk", "Yeongdeok", "영덕군", 36.4150, 129.3654],
+  ["Gyeongbuk", "Cheongdo", "청도군", 35.6474, 128.7341],
+  ["Gyeongbuk", "Goryeong", "고령군", 35.7260, 128.2630],
+  ["Gyeongbuk", "Seongju", "성주군", 35.9192, 128.2829],
+  ["Gyeongbuk", "Chilgok", "칠곡군", 35.9955, 128.4017],
+  ["Gyeongbuk", "Yecheon", "예천군", 36.6577, 128.4530],
+  ["Gyeongbuk", "Bonghwa", "봉화군", 36.8932, 128.7325],
+  ["Gyeongbuk", "Uljin", "울진군", 36.9930, 129.4004],
+  ["Gyeongbuk", "Ulleung", "울릉군", 37.4844, 130.9057],
+
+  // Gyeongnam
+  ["Gyeongnam", "Changwon", "창원시", 35.2280, 128.6811],
+  ["Gyeongnam", "Jinju", "진주시", 35.1800, 128.1076],
+  ["Gyeongnam", "Tongyeong", "통영시", 34.8544, 128.4332],
+  ["Gyeongnam", "Sacheon", "사천시", 35.0037, 128.0642],
+  ["Gyeongnam", "Gimhae", "김해시", 35.2285, 128.8894],
+  ["Gyeongnam", "Miryang", "밀양시", 35.5038, 128.7464],
+  ["Gyeongnam", "Geoje", "거제시", 34.8806, 128.6211],
+  ["Gyeongnam", "Yangsan", "양산시", 35.3350, 129.0372],
+  ["Gyeongnam", "Uiryeong", "의령군", 35.3222, 128.2617],
+  ["Gyeongnam", "Haman", "함안군", 35.2725, 128.4065],
+  ["Gyeongnam", "Changnyeong", "창녕군", 35.5447, 128.4924],
+  ["Gyeongnam", "Goseong", "고성군", 34.9730, 128.3223],
+  ["Gyeongnam", "Namhae", "남해군", 34.8376, 127.8924],
+  ["Gyeongnam", "Hadong", "하동군", 35.0673, 127.7513],
+  ["Gyeongnam", "Sancheong", "산청군", 35.4156, 127.8734],
+  ["Gyeongnam", "Hamyang", "함양군", 35.5205, 127.7251],
+  ["Gyeongnam", "Geochang", "거창군", 35.6867, 127.9095],
+  ["Gyeongnam", "Hapcheon", "합천군", 35.5666, 128.1658],
+
+  // Jeju
+  ["Jeju", "Jeju", "제주시", 33.4996, 126.5312],
+  ["Jeju", "Seogwipo", "서귀포시", 33.2541, 126.5600],
+];
+
+export const DISTRICTS: District[] = DISTRICT_ROWS.map(([province, name, nameKo, lat, lng]) => ({
+  province,
+  name,
+  nameKo,
+  lat,
+  lng,
+}));
+
+const DISTRICT_INDEX = new Map(
+  DISTRICTS.map((d) => [`${d.province}/${d.name}`.toLowerCase(), d])
+);
+
+/**
+ * Look up the district of a "Province/District" location (case-insensitive).
+ * Returns null for province-only or unknown locations.
+ */
+export function findDistrict(location: string): District | null {
+  const [province, district] = location.split("/").map((p) => p.trim());
+  if (!province || !district) return null;
+  return DISTRICT_INDEX.get(`${province}/${district}`.toLowerCase()) ?? null;
+}
+
+/**
+ * Island districts are only reachable by ferry. Returns "Jeju", "Ulleung"
+ * or "mainland".
+ */
+export function districtLandmass(d: District): string {
+  if (d.province === "Jeju") return "Jeju";
+  if (d.province === "Gyeongbuk" && d.name === "Ulleung") return "Ulleung";
+  return "mainland";
+}
+
+/**
+ * Great-circle distance between two (lat, lng) points in km.
+ */
+export function haversineKm(
+  [lat1, lng1]: [number, number],
+  [lat2, lng2]: [number, number]
+): number {
+  const R = 6371;
+  const dLat = ((lat2 - lat1) * Math.PI) / 180;
+  const dLng = ((lng2 - lng1) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((lat1 * Math.PI) / 180) *
+      Math.cos((lat2 * Math.PI) / 180) *
+      Math.sin(dLng / 2) ** 2;
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
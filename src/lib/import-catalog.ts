@@ -0,0 +1,25 @@
+/**
+ * Import Catalog
+ *
+ * The VehicleType and FreightClass catalogs as ParseOptions, for checking
+ * imported and edited MarketData rows.
+ */
+
+import { getVehicleTypeNames } from "@/lib/vehicle-catalog";
+import { getFreightClasses } from "@/lib/freight-catalog";
+import type { ParseOptions } from "@/lib/csv-parser";
+
+/**
+ * Validate vehicle and freight types against their catalogs, skipping any
+ * catalog that has not been set up yet.
+ */
+export async function getCatalogParseOptions(): Promise<ParseOptions> {
+  const [vehicleTypes, freightClasses] = await Promise.all([
+    getVehicleTypeNames(),
+    getFreightClasses(),
+  ]);
+  return {
+    ...(vehicleTypes.length > 0 ? { vehicleTypes } : {}),
+    ...(freightClasses.length > 0 ? { freightClasses } : {}),
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * Location Normalizer
+ *
+ * Maps the many ways a location gets typed — "서울 강남구", "서울/강남",
+ * "Seoul / Gangnam-gu", "부산광역시 해운대구", "평택시", a street address or
+ * a postal code — to the canonical "Province/District" id of the gazetteer
+ * ("Seoul/Gangnam"), or to a bare province ("Seoul") when no district is
+ * given. Route keys, distance lookups
+ * and market medians all compare these ids as plain strings, so every
+ * location entering the system should pass through normalizeLocation.
+ */
+
+import { parseAddress, postalCodeLocation } from "@/lib/address";
+import { DISTRICTS, type District } from "@/lib/gazetteer";
+
+export type LocationLevel = "district" | "province";
+
+export interface NormalizedLocation {
+  input: string;
+  id: string;                  // canonical id, or the trimmed input when unresolved
+  level: LocationLevel | null; // null = not recognised
+  source: "name" | "postal-code" | null; // what the id was read from
+  issue: string | null;        // why the input was only partly or not resolved
+}
+
+// ── Provinces ────────────────────────────────────────────────────
+// Canonical province → accepted spellings (compared via locationKey).
+
+const PROVINCE_ALIASES: Record<string, string[]> = {
+  Seoul: ["서울", "서울시", "서울특별시"],
+  Busan: ["부산", "부산시", "부산광역시", "Pusan"],
+  Daegu: ["대구", "대구시", "대구광역시", "Taegu"],
+  Incheon: ["인천", "인천시", "인천광역시", "Inchon"],
+  Gwangju: ["광주광역시", "Kwangju"], // bare "광주" is handled below: 광주시 is in Gyeonggi
+  Daejeon: ["대전", "대전시", "대전광역시", "Taejon"],
+  Ulsan: ["울산", "울산시", "울산광역시"],
+  Sejong: ["세종", "세종시", "세종특별자치시"],
+  Gyeonggi: ["경기", "경기도", "Kyonggi", "Gyeonggido"],
+  Gangwon: ["강원", "강원도", "강원특별자치도", "Kangwon", "Gangwondo"],
+  Chungbuk: ["충북", "충청북도", "Chungcheongbuk", "Chungcheongbukdo"],
+  Chungnam: ["충남", "충청남도", "Chungcheongnam", "Chungcheongnamdo"],
+  Jeonbuk: ["전북", "전라북도", "전북특별자치도", "Jeollabuk", "Jeollabukdo"],
+  Jeonnam: ["전남", "전라남도", "Jeollanam", "Jeollanamdo"],
+  Gyeongbuk: ["경북", "경상북도", "Gyeongsangbuk", "Gyeongsangbukdo"],
+  Gyeongnam: ["경남", "경상남도", "Gyeongsangnam", "Gyeongsangnamdo"],
+  Jeju: ["제주", "제주도", "제주특별자치도", "Jejudo"],
+};
+
+/**
+ * Renamed, merged or transferred districts → their current id.
+ */
+const DISTRICT_ALIASES: [province: string, names: string[], id: string][] = [
+  ["Incheon", ["남구", "Nam"], "Incheon/Michuhol"],              // renamed 2018
+  ["Gyeongbuk", ["군위군", "Gunwi"], "Daegu/Gunwi"],              // moved to Daegu 2023
+  ["Chungbuk", ["청원군", "Cheongwon"], "Chungbuk/Cheongju"],     // merged 2014
+  ["Gyeongnam", ["마산시", "Masan", "진해시", "Jinhae"], "Gyeongnam/Changwon"], // merged 2010
+];
+
+// English filler words of official names ("Busan Metropolitan City")
+const NOISE_TOKENS = new Set([
+  "metropolitan", "special", "self", "governing", "selfgoverning", "autonomous",
+  "city", "province", "county", "district", "do", "si", "gun", "gu",
+]);
+
+/**
+ * Comparison key: lowercase, without romanised -do/-si/-gun/-gu suffixes,
+ * spaces, hyphens and dots. Korean suffixes are kept (see nameKeys).
+ */
+function locationKey(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[-\s](do|si|gun|gu)$/, "")
+    .replace(/[\s.\-]/g, "");
+}
+
+const PROVINCE_INDEX = new Map<string, string>();
+for (const [province, aliases] of Object.entries(PROVINCE_ALIASES)) {
+  for (const name of [province, ...aliases]) PROVINCE_INDEX.set(locationKey(name), province);
+}
+
+// Korean province aliases, longest first, for inputs written without a space
+const KOREAN_PROVINCE_PREFIXES = Array.from(PROVINCE_INDEX.keys())
+  .filter((k) => /^[가-힣]+$/.test(k))
+  .sort((a, b) => b.length - a.length);
+
+// ── Districts ────────────────────────────────────────────────────
+
+/**
+ * Keys of a district name: romanised, or Korean with and without its
+ * 시/군/구 suffix.
+ */
+function nameKeys(name: string): string[] {
+  const key = locationKey(name);
+  return /[시군구]$/.test(key) ? [key, key.slice(0, -1)] : [key];
+}
+
+const DISTRICTS_BY_PROVINCE = new Map<string, Map<string, District>>();
+const DISTRICTS_BY_KEY = new Map<string, District[]>();
+for (const d of DISTRICTS) {
+  const inProvince = DISTRICTS_BY_PROVINCE.get(d.province) ?? new Map<string, District>();
+  DISTRICTS_BY_PROVINCE.set(d.province, inProvince);
+  for (const key of [...nameKeys(d.name), ...nameKeys(d.nameKo)]) {
+    inProvince.set(key, d);
+    const all = DISTRICTS_BY_KEY.get(key) ?? [];
+    if (!all.includes(d)) all.push(d);
+    DISTRICTS_BY_KEY.set(key, all);
+  }
+}
+
+function districtId(d: District): string {
+  return `${d.province}/${d.name}`;
+}
+
+const ALIAS_INDEX = new Map<string, string>();
+const ALIASES_BY_KEY = new Map<string, string[]>();
+for (const [province, names, id] of DISTRICT_ALIASES) {
+  for (const key of names.flatMap(nameKeys)) {
+    ALIAS_INDEX.set(`${province}/${key}`, id);
+    ALIASES_BY_KEY.set(key, [...(ALIASES_BY_KEY.get(key) ?? []), id]);
+  }
+}
+
+/**
+ * Current id of a district token within a known province, or null.
+ */
+function matchDistrict(province: string, token: string): string | null {
+  const key = locationKey(token);
+  const d = DISTRICTS_BY_PROVINCE.get(province)?.get(key);
+  return d ? districtId(d) : ALIAS_INDEX.get(`${province}/${key}`) ?? null;
+}
+
+function tokenize(input: string): string[] {
+  return input
+    .split(/[\/,·\s]+/)
+    .filter((t) => t.length > 0 && !NOISE_TOKENS.has(t.toLowerCase()));
+}
+
+/**
+ * Split a leading Korean province off a token written without a space,
+ * e.g. "서울강남구" → ["Seoul", "강남구"], if the rest is a district there.
+ */
+function splitKoreanPrefix(token: string): [string, string] | null {
+  for (const prefix of KOREAN_PROVINCE_PREFIXES) {
+    if (!token.startsWith(prefix) || token.length === prefix.length) continue;
+    const province = PROVINCE_INDEX.get(prefix)!;
+    const rest = token.slice(prefix.length);
+    if (matchDistrict(province, rest)) return [province, rest];
+  }
+  return null;
+}
+
+type NameResolution = Pick<NormalizedLocation, "id" | "level" | "issue">;
+
+/**
+ * Resolve place names (no postal code or numbers) to a canonical id.
+ *
+ * 1. The first token names the province (any alias; "광주" is the
+ *    metropolitan city, "광주시" alone is Gyeonggi's).
+ * 2. The first following token that is a district of that province (or a
+ *    renamed one) completes the id; without one the id is the province.
+ * 3. Without a recognisable province, a district name that exists in only
+ *    one province is accepted on its own ("해운대구", "Pyeongtaek").
+ * Sejong has a single district, so "세종" resolves to "Sejong/Sejong".
+ */
+function resolveNames(text: string): NameResolution {
+  const unresolved = (issue: string): NameResolution => ({ id: text, level: null, issue });
+
+  let tokens = tokenize(text);
+  if (tokens.length === 0) return unresolved(`"${text}" is not a known location`);
+
+  let province = PROVINCE_INDEX.get(locationKey(tokens[0])) ?? null;
+  if (!province && locationKey(tokens[0]) === "광주") province = "Gwangju";
+  if (!province) {
+    const split = splitKoreanPrefix(tokens[0]);
+    if (split) {
+      province = split[0];
+      tokens = [split[0], split[1], ...tokens.slice(1)];
+    }
+  }
+
+  if (province) {
+    const rest = tokens.slice(1);
+    for (const token of rest) {
+      const id = matchDistrict(province, token);
+      if (id) return { id, level: "district", issue: null };
+    }
+    if (province === "Sejong") return { id: "Sejong/Sejong", level: "district", issue: null };
+    return {
+      id: province,
+      level: "province",
+      issue: rest.length > 0 ? `"${text}": district "${rest[0]}" not found, using ${province}` : null,
+    };
+  }
+
+  for (const token of tokens) {
+    const key = locationKey(token);
+    const matches = DISTRICTS_BY_KEY.get(key)?.map(districtId) ?? ALIASES_BY_KEY.get(key) ?? [];
+    if (matches.length === 1) return { id: matches[0], level: "district", issue: null };
+    if (matches.length > 1) {
+      return unresolved(`"${text}" is ambiguous (${matches.join(", ")}); add the province`);
+    }
+  }
+  return unresolved(`"${text}" is not a known location`);
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+/**
+ * Resolve a free-form location — a place name, a street address or a
+ * postal code — to its canonical id. The address words decide when they
+ * name a district; otherwise the postal code does (see address.ts).
+ */
+export function normalizeLocation(input: string): NormalizedLocation {
+  const trimmed = input.trim();
+  if (!trimmed) return { input, id: trimmed, level: null, source: null, issue: "Location is empty" };
+
+  const { text, postalCode } = parseAddress(trimmed);
+  const byName: NameResolution = text
+    ? resolveNames(text)
+    : { id: trimmed, level: null, issue: `"${trimmed}" is not a known location` };
+  const fromName = (): NormalizedLocation => ({
+    input,
+    ...byName,
+    id: byName.level ? byName.id : trimmed,
+    source: byName.level ? "name" : null,
+  });
+
+  if (byName.level === "district" || !postalCode) return fromName();
+
+  const byCode = postalCodeLocation(postalCode);
+  if (byCode?.level === "district") {
+    return { input, id: byCode.id, level: "district", source: "postal-code", issue: null };
+  }
+  // The postal code table has no districts here (see address.ts): say so,
+  // as the route is then priced from province-level data
+  const provinceOnly = `postal code ${postalCode} only locates the province, not the district`;
+  if (byName.level === "province") {
+    return { ...fromName(), issue: byName.issue ?? `"${trimmed}": ${provinceOnly}; using ${byName.id}` };
+  }
+  if (byCode) {
+    return {
+      input,
+      id: byCode.id,
+      level: "province",
+      source: "postal-code",
+      issue: `"${trimmed}": ${provinceOnly}; using ${byCode.id}`,
+    };
+  }
+  return { input, id: trimmed, level: null, source: null, issue: `"${trimmed}": unknown postal code ${postalCode}` };
+}
+
+/**
+ * Canonical id of a location, or the trimmed input if it can't be resolved.
+ */
+export function canonicalLocation(input: string): string {
+  return normalizeLocation(input).id;
+}
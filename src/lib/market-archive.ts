@@ -0,0 +1,152 @@
+/**
+ * Market Data Archive
+ *
+ * Retention for MarketData: rows older than market_retention_months are
+ * moved to MarketDataArchive. The analysis already ignores them (see
+ * market-median.ts); archiving keeps the live table to the active window.
+ * Archived rows are only read for long-term trend charts.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  getMarketRetentionMonths,
+  inProvince,
+  marketPartitions,
+  refreshMarketMedians,
+  retentionCutoff,
+  type MarketPartition,
+} from "@/lib/market-median";
+
+export interface RetentionStatus {
+  months: number;          // 0 = keep everything
+  cutoff: string | null;   // ISO date; older rows are outside the window
+  activeCount: number;     // MarketData rows inside the window
+  expiredCount: number;    // MarketData rows waiting to be archived
+  archivedCount: number;
+}
+
+export interface TrendPoint {
+  month: string;           // "YYYY-MM"
+  median: number;
+  sampleCount: number;
+  archived: boolean;       // month has archived rows
+}
+
+const ARCHIVE_CHUNK = 1000;
+
+export async function getRetentionStatus(now = new Date()): Promise<RetentionStatus> {
+  const months = await getMarketRetentionMonths();
+  const cutoff = retentionCutoff(months, now);
+  const [activeCount, expiredCount, archivedCount] = await Promise.all([
+    prisma.marketData.count({ where: cutoff ? { date: { gte: cutoff } } : {} }),
+    cutoff ? prisma.marketData.count({ where: { date: { lt: cutoff } } }) : Promise.resolve(0),
+    prisma.marketDataArchive.count(),
+  ]);
+  return { months, cutoff: cutoff?.toISOString() ?? null, activeCount, expiredCount, archivedCount };
+}
+
+/**
+ * Move rows older than the retention window into the archive, then
+ * re-analyse the lanes they came from. Returns the rows archived.
+ */
+export async function archiveExpiredMarketData(now = new Date()): Promise<number> {
+  const cutoff = retentionCutoff(await getMarketRetentionMonths(), now);
+  if (!cutoff) return 0;
+
+  let archived = 0;
+  const partitions = new Map<string, MarketPartition>();
+  for (;;) {
+    const rows = await prisma.marketData.findMany({
+      where: { date: { lt: cutoff } },
+      orderBy: { id: "asc" },
+      take: ARCHIVE_CHUNK,
+    });
+    if (rows.length === 0) break;
+
+    await prisma.$transaction([
+      prisma.marketDataArchive.createMany({
+        data: rows.map(
+          (r: {
+            id: number;
+            date: Date;
+            origin: string;
+            destination: string;
+            vehicleType: string;
+            freightType: string;
+            unitPrice: number;
+            isOutlier: boolean;
+            batchId: number | null;
+            createdAt: Date;
+          }) => ({
+            originalId: r.id,
+            date: r.date,
+            origin: r.origin,
+            destination: r.destination,
+            vehicleType: r.vehicleType,
+            freightType: r.freightType,
+            unitPrice: r.unitPrice,
+            isOutlier: r.isOutlier,
+            batchId: r.batchId,
+            importedAt: r.createdAt,
+          })
+        ),
+      }),
+      prisma.marketData.deleteMany({ where: { id: { in: rows.map((r: { id: number }) => r.id) } } }),
+    ]);
+    archived += rows.length;
+    for (const p of marketPartitions(rows)) {
+      partitions.set(`${p.originProvince}|${p.destinationProvince}|${p.vehicleType}`, p);
+    }
+  }
+
+  if (partitions.size > 0) await refreshMarketMedians(Array.from(partitions.values()));
+  return archived;
+}
+
+function plainMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Monthly median price of a corridor. Without the archive only the active
+ * window is shown, as the analysis sees it; with it, the whole history.
+ * Outlier-flagged rows are left out either way.
+ */
+export async function getMarketTrend(
+  partition: MarketPartition,
+  includeArchive: boolean,
+  now = new Date()
+): Promise<TrendPoint[]> {
+  const cutoff = includeArchive ? null : retentionCutoff(await getMarketRetentionMonths(), now);
+  const where = {
+    vehicleType: partition.vehicleType,
+    isOutlier: false,
+    ...(cutoff ? { date: { gte: cutoff } } : {}),
+    AND: [inProvince("origin", partition.originProvince), inProvince("destination", partition.destinationProvince)],
+  };
+  const select = { date: true, unitPrice: true };
+  const [active, archived]: { date: Date; unitPrice: number }[][] = await Promise.all([
+    prisma.marketData.findMany({ where, select }),
+    includeArchive ? prisma.marketDataArchive.findMany({ where, select }) : Promise.resolve([]),
+  ]);
+
+  const months = new Map<string, { prices: number[]; archived: boolean }>();
+  const add = (r: { date: Date; unitPrice: number }, fromArchive: boolean) => {
+    const key = r.date.toISOString().slice(0, 7);
+    const entry = months.get(key) ?? { prices: [], archived: false };
+    entry.prices.push(r.unitPrice);
+    entry.archived ||= fromArchive;
+    months.set(key, entry);
+  };
+  active.forEach((r) => add(r, false));
+  archived.forEach((r) => add(r, true));
+
+  return Array.from(months, ([month, { prices, archived }]) => ({
+    month,
+    median: Math.round(plainMedian(prices)),
+    sampleCount: prices.length,
+    archived,
+  })).sort((a, b) => a.month.localeCompare(b.month));
+}
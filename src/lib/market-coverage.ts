@@ -0,0 +1,160 @@
+/**
+ * Market Data Coverage
+ *
+ * Province × province view of how well Tier 2 covers a vehicle type, read
+ * from the MarketMedian cache (analyzeMarketData output) and the sample
+ * counts of the analysed window:
+ *   exact     — at least one route has its own (district) median
+ *   fallback  — only the province-pair median exists
+ *   thin      — samples exist, but too few for any median
+ *   none      — no samples; quotes fall back to the region or national rate
+ */
+
+import { prisma } from "@/lib/prisma";
+import { extractProvince, REGION_BLOCS, type RouteMedianResult } from "@/lib/analysis";
+import { activeWindowStart, getPartitionMedians } from "@/lib/market-median";
+
+export type CoverageStatus = "exact" | "fallback" | "thin" | "none";
+
+export interface CoverageCell {
+  originProvince: string;
+  destinationProvince: string;
+  sampleSize: number;        // analysed rows (window, not flagged)
+  exactRoutes: number;       // district-level medians
+  fallbackRoutes: number;    // province-level medians
+  confidence: number | null; // best confidence among the medians
+  status: CoverageStatus;
+}
+
+export interface CoverageMatrix {
+  vehicleType: string;
+  provinces: string[];       // axis order, known provinces first
+  cells: CoverageCell[];     // only pairs with samples or medians
+}
+
+export interface CoverageLane {
+  origin: string;
+  destination: string;
+  sampleSize: number;
+}
+
+export interface CoverageDetail {
+  routes: RouteMedianResult[];
+  thinLanes: CoverageLane[]; // lanes with samples but no median of their own
+}
+
+export const COVERAGE_PROVINCES = Object.values(REGION_BLOCS).flat();
+
+function windowWhere(since: Date | null) {
+  return since ? { date: { gte: since } } : {};
+}
+
+/**
+ * Sample counts per (origin, destination) lane of a vehicle type, as analysed.
+ */
+async function laneCounts(vehicleType: string): Promise<CoverageLane[]> {
+  const since = await activeWindowStart();
+  const groups = await prisma.marketData.groupBy({
+    by: ["origin", "destination"],
+    where: { vehicleType, isOutlier: false, ...windowWhere(since) },
+    _count: { _all: true },
+  });
+  return groups.map((g: { origin: string; destination: string; _count: { _all: number } }) => ({
+    origin: g.origin,
+    destination: g.destination,
+    sampleSize: g._count._all,
+  }));
+}
+
+export async function getCoverageMatrix(vehicleType: string): Promise<CoverageMatrix> {
+  const [lanes, medians] = await Promise.all([laneCounts(vehicleType), getPartitionMedians(vehicleType)]);
+
+  const cells = new Map<string, CoverageCell>();
+  const cellFor = (originProvince: string, destinationProvince: string) => {
+    const key = `${originProvince}||${destinationProvince}`;
+    let cell = cells.get(key);
+    if (!cell) {
+      cell = {
+        originProvince,
+        destinationProvince,
+        sampleSize: 0,
+        exactRoutes: 0,
+        fallbackRoutes: 0,
+        confidence: null,
+        status: "none",
+      };
+      cells.set(key, cell);
+    }
+    return cell;
+  };
+
+  for (const lane of lanes) {
+    cellFor(extractProvince(lane.origin), extractProvince(lane.destination)).sampleSize += lane.sampleSize;
+  }
+  for (const m of medians) {
+    const cell = cellFor(m.originProvince, m.destinationProvince);
+    if (m.fallbackLevel === "district") cell.exactRoutes++;
+    else cell.fallbackRoutes++;
+    cell.confidence = Math.max(cell.confidence ?? 0, m.confidenceScore);
+  }
+  for (const cell of cells.values()) {
+    cell.status =
+      cell.exactRoutes > 0 ? "exact" : cell.fallbackRoutes > 0 ? "fallback" : cell.sampleSize > 0 ? "thin" : "none";
+  }
+
+  // Unresolved locations keep their own "province"; list them after the known ones
+  const extra = new Set<string>();
+  for (const cell of cells.values()) {
+    for (const p of [cell.originProvince, cell.destinationProvince]) {
+      if (!COVERAGE_PROVINCES.includes(p)) extra.add(p);
+    }
+  }
+
+  return {
+    vehicleType,
+    provinces: [...COVERAGE_PROVINCES, ...Array.from(extra).sort()],
+    cells: Array.from(cells.values()),
+  };
+}
+
+/**
+ * Route results of one province pair, and the lanes that have samples but
+ * no median of their own (where more broker data would help most).
+ */
+export async function getCoverageDetail(
+  vehicleType: string,
+  originProvince: string,
+  destinationProvince: string
+): Promise<CoverageDetail> {
+  const [lanes, routes] = await Promise.all([
+    laneCounts(vehicleType),
+    getPartitionMedians(vehicleType, { originProvince, destinationProvince }),
+  ]);
+  const covered = new Set(
+    routes.filter((r) => r.fallbackLevel === "district").map((r) => `${r.origin}||${r.destination}`)
+  );
+  const thinLanes = lanes
+    .filter(
+      (l) =>
+        extractProvince(l.origin) === originProvince &&
+        extractProvince(l.destination) === destinationProvince &&
+        !covered.has(`${l.origin}||${l.destination}`)
+    )
+    .sort((a, b) => b.sampleSize - a.sampleSize);
+  return { routes, thinLanes };
+}
+
+/**
+ * Vehicle types to pick from: the catalog's and any found in the data.
+ */
+export async function getCoverageVehicleTypes(): Promise<string[]> {
+  const [catalog, inData] = await Promise.all([
+    prisma.vehicleType.findMany({ select: { name: true }, orderBy: { name: "asc" } }),
+    prisma.marketData.findMany({ distinct: ["vehicleType"], select: { vehicleType: true } }),
+  ]);
+  const names = new Set<string>([
+    ...inData.map((v: { vehicleType: string }) => v.vehicleType),
+    ...catalog.map((v: { name: string }) => v.name),
+  ]);
+  return Array.from(names).sort((a, b) => parseFloat(a) - parseFloat(b) || a.localeCompare(b));
+}
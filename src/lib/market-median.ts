@@ -0,0 +1,468 @@
+/**
+ * Market Median Cache
+ *
+ * Stores analyzeMarketData() results in the MarketMedian table so quotes read
+ * one row per lane instead of re-analysing every MarketData row.
+ *
+ * analyzeMarketData() only ever pools prices within the same
+ * (origin province, destination province, vehicle type), so the cache is
+ * refreshed one such partition at a time: an import only re-analyses the
+ * partitions its rows fall into. The broader fallback levels are refreshed
+ * for the regional bloc pairs and vehicle types those partitions touch.
+ *
+ * The partition's SeasonalIndex sums (see seasonality.ts) are refreshed from
+ * the same rows.
+ *
+ * Rows keep the half-life they were computed with; on read they are aged by
+ * the time since the refresh (see ageMedianResult). Changing the half-life
+ * setting rebuilds the cache.
+ *
+ * Only the retention window (market_retention_months) is analysed; rows
+ * older than that are ignored until market-archive.ts moves them out.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  ageMedianResult,
+  analyzeMarketData,
+  analyzeNationalRates,
+  analyzeRegionalMarket,
+  extractProvince,
+  extractRegion,
+  scaleNationalRate,
+  DEFAULT_HALF_LIFE_DAYS,
+  NATIONAL_SCOPE,
+  MARKET_LEVELS,
+  REGION_BLOCS,
+  type AggregatedPricePoint,
+  type MarketLevel,
+  type PriceDataPoint,
+  type RouteMedianResult,
+} from "@/lib/analysis";
+import { createDistanceResolver, resolveRouteDistance } from "@/lib/distance-overrides";
+import { computeSeasonalSums } from "@/lib/seasonality";
+import { canonicalLocation } from "@/lib/location";
+
+export interface MarketPartition {
+  originProvince: string;
+  destinationProvince: string;
+  vehicleType: string;
+}
+
+/** A MarketMedian row as stored; fallbackLevel is a plain string column. */
+type MarketMedianRow = Omit<RouteMedianResult, "fallbackLevel"> & {
+  fallbackLevel: string;
+  halfLifeDays: number;
+  updatedAt: Date;
+};
+
+const DAY_MS = 86_400_000;
+
+/** CostMaster item holding the recency half-life (global row). */
+export const MARKET_HALF_LIFE_ITEM = "market_half_life_days";
+
+/** CostMaster item holding the retention window in months (global row; 0 = keep all). */
+export const MARKET_RETENTION_ITEM = "market_retention_months";
+export const DEFAULT_RETENTION_MONTHS = 12;
+
+function toMarketLevel(value: string): MarketLevel {
+  const level = MARKET_LEVELS.find((l) => l === value);
+  if (!level) throw new Error(`Unknown market level in MarketMedian: "${value}"`);
+  return level;
+}
+
+function toResult(row: MarketMedianRow, now = new Date()): RouteMedianResult {
+  const stored: RouteMedianResult = {
+    origin: row.origin,
+    destination: row.destination,
+    vehicleType: row.vehicleType,
+    median: row.median,
+    sampleSize: row.sampleSize,
+    filteredSize: row.filteredSize,
+    q1: row.q1,
+    q3: row.q3,
+    iqr: row.iqr,
+    lowerBound: row.lowerBound,
+    upperBound: row.upperBound,
+    confidenceScore: row.confidenceScore,
+    effectiveAgeDays: row.effectiveAgeDays,
+    isFallback: row.isFallback,
+    fallbackLevel: toMarketLevel(row.fallbackLevel),
+  };
+  const elapsedDays = (now.getTime() - row.updatedAt.getTime()) / DAY_MS;
+  return ageMedianResult(stored, elapsedDays, row.halfLifeDays);
+}
+
+function toRow(result: RouteMedianResult, partition: MarketPartition, halfLifeDays: number) {
+  return { ...result, ...partition, halfLifeDays };
+}
+
+/** Levels cached per province partition; region and national rows are not. */
+const PARTITION_LEVELS: MarketLevel[] = ["district", "province"];
+
+/**
+ * Recency half-life from CostMaster (global row), falling back to the default.
+ */
+export async function getMarketHalfLifeDays(): Promise<number> {
+  const row = await prisma.costMaster.findFirst({
+    where: { item: MARKET_HALF_LIFE_ITEM, vehicleType: null },
+  });
+  return row?.value ?? DEFAULT_HALF_LIFE_DAYS;
+}
+
+/**
+ * Retention window from CostMaster (global row), falling back to the default.
+ */
+export async function getMarketRetentionMonths(): Promise<number> {
+  const row = await prisma.costMaster.findFirst({
+    where: { item: MARKET_RETENTION_ITEM, vehicleType: null },
+  });
+  return row?.value ?? DEFAULT_RETENTION_MONTHS;
+}
+
+/**
+ * Oldest date inside the retention window, or null when everything is kept.
+ */
+export function retentionCutoff(months: number, now = new Date()): Date | null {
+  if (!(months > 0)) return null;
+  const cutoff = new Date(now);
+  cutoff.setUTCMonth(cutoff.getUTCMonth() - months);
+  return cutoff;
+}
+
+/**
+ * Start of the analysed window, or null when everything is analysed.
+ */
+export async function activeWindowStart(): Promise<Date | null> {
+  return retentionCutoff(await getMarketRetentionMonths());
+}
+
+/** MarketData rows inside the retention window. */
+function inWindow(since: Date | null) {
+  return since ? { date: { gte: since } } : {};
+}
+
+function partitionKey(p: MarketPartition): string {
+  return `${p.originProvince}||${p.destinationProvince}||${p.vehicleType}`;
+}
+
+/**
+ * The distinct partitions a set of MarketData rows falls into.
+ */
+export function marketPartitions(
+  rows: { origin: string; destination: string; vehicleType: string }[]
+): MarketPartition[] {
+  const partitions = new Map<string, MarketPartition>();
+  for (const r of rows) {
+    const p = {
+      originProvince: extractProvince(r.origin),
+      destinationProvince: extractProvince(r.destination),
+      vehicleType: r.vehicleType,
+    };
+    partitions.set(partitionKey(p), p);
+  }
+  return Array.from(partitions.values());
+}
+
+/**
+ * Match "Seoul" as well as "Seoul/Gangnam".
+ */
+export function inProvince(field: "origin" | "destination", province: string) {
+  return { OR: [{ [field]: province }, { [field]: { startsWith: `${province}/` } }] };
+}
+
+/**
+ * Match any province of a regional bloc.
+ */
+function inRegion(field: "origin" | "destination", region: string) {
+  return { OR: REGION_BLOCS[region].flatMap((p) => inProvince(field, p).OR) };
+}
+
+const ROW_FIELDS = { origin: true, destination: true, vehicleType: true, unitPrice: true, date: true, isOutlier: true };
+
+/**
+ * Re-analyse the regional bloc pair of a vehicle type.
+ */
+async function refreshRegion(
+  originRegion: string,
+  destinationRegion: string,
+  vehicleType: string,
+  halfLifeDays: number,
+  since: Date | null
+): Promise<number> {
+  const data: PriceDataPoint[] = await prisma.marketData.findMany({
+    where: {
+      vehicleType,
+      ...inWindow(since),
+      AND: [inRegion("origin", originRegion), inRegion("destination", destinationRegion)],
+    },
+    select: ROW_FIELDS,
+  });
+  const results = analyzeRegionalMarket(data, { halfLifeDays });
+  const scope = { originProvince: originRegion, destinationProvince: destinationRegion, vehicleType };
+
+  await prisma.$transaction([
+    prisma.marketMedian.deleteMany({ where: { ...scope, fallbackLevel: "region" } }),
+    prisma.marketMedian.createMany({ data: results.map((r) => toRow(r, scope, halfLifeDays)) }),
+  ]);
+  return results.length;
+}
+
+function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function nextMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Mean price and row count per lane and calendar month of a vehicle type,
+ * aggregated in SQL so the national rate never loads individual rows.
+ */
+async function monthlyLaneAverages(vehicleType: string, since: Date | null): Promise<AggregatedPricePoint[]> {
+  const where = { vehicleType, isOutlier: false, ...inWindow(since) };
+  const { _min, _max } = await prisma.marketData.aggregate({ where, _min: { date: true }, _max: { date: true } });
+  if (!_min.date || !_max.date) return [];
+
+  const points: AggregatedPricePoint[] = [];
+  for (let month = startOfMonth(_min.date); month <= _max.date; month = nextMonth(month)) {
+    const from = since && since > month ? since : month;
+    const to = nextMonth(month);
+    const lanes = await prisma.marketData.groupBy({
+      by: ["origin", "destination"],
+      where: { ...where, date: { gte: from, lt: to } },
+      _avg: { unitPrice: true },
+      _count: { _all: true },
+    });
+    const middle = new Date((from.getTime() + to.getTime()) / 2);
+    for (const lane of lanes) {
+      if (lane._avg.unitPrice === null) continue;
+      points.push({
+        origin: lane.origin,
+        destination: lane.destination,
+        vehicleType,
+        unitPrice: lane._avg.unitPrice,
+        date: middle,
+        count: lane._count._all,
+      });
+    }
+  }
+  return points;
+}
+
+/**
+ * Re-compute the national KRW/km rate of a vehicle type from its monthly
+ * lane averages.
+ */
+async function refreshNationalRate(
+  vehicleType: string,
+  halfLifeDays: number,
+  since: Date | null
+): Promise<number> {
+  const lanes = await monthlyLaneAverages(vehicleType, since);
+  const distance = await createDistanceResolver();
+  const data = [];
+  for (const lane of lanes) {
+    data.push({ ...lane, distanceKm: (await distance(lane.origin, lane.destination)).distanceKm });
+  }
+  const results = analyzeNationalRates(data, { halfLifeDays });
+  const scope = { originProvince: NATIONAL_SCOPE, destinationProvince: NATIONAL_SCOPE, vehicleType };
+
+  await prisma.$transaction([
+    prisma.marketMedian.deleteMany({ where: { vehicleType, fallbackLevel: "national" } }),
+    prisma.marketMedian.createMany({ data: results.map((r) => toRow(r, scope, halfLifeDays)) }),
+  ]);
+  return results.length;
+}
+
+/**
+ * Re-analyse the given partitions and replace their cached results.
+ * Returns the number of cached rows written.
+ */
+export async function refreshMarketMedians(partitions: MarketPartition[]): Promise<number> {
+  const [halfLifeDays, since] = await Promise.all([getMarketHalfLifeDays(), activeWindowStart()]);
+  let written = 0;
+
+  for (const p of partitions) {
+    const data: PriceDataPoint[] = await prisma.marketData.findMany({
+      where: {
+        vehicleType: p.vehicleType,
+        ...inWindow(since),
+        AND: [inProvince("origin", p.originProvince), inProvince("destination", p.destinationProvince)],
+      },
+      select: ROW_FIELDS,
+    });
+
+    const results = analyzeMarketData(data, { halfLifeDays });
+    const seasonal = computeSeasonalSums(data);
+
+    await prisma.$transaction([
+      prisma.marketMedian.deleteMany({ where: { ...p, fallbackLevel: { in: PARTITION_LEVELS } } }),
+      prisma.marketMedian.createMany({ data: results.map((r) => toRow(r, p, halfLifeDays)) }),
+      prisma.seasonalIndex.deleteMany({ where: p }),
+      prisma.seasonalIndex.createMany({ data: seasonal }),
+    ]);
+    written += results.length;
+  }
+
+  const regions = new Map<string, [string, string, string]>();
+  for (const p of partitions) {
+    const originRegion = extractRegion(p.originProvince);
+    const destinationRegion = extractRegion(p.destinationProvince);
+    if (originRegion && destinationRegion) {
+      regions.set(`${originRegion}||${destinationRegion}||${p.vehicleType}`, [
+        originRegion,
+        destinationRegion,
+        p.vehicleType,
+      ]);
+    }
+  }
+  for (const [originRegion, destinationRegion, vehicleType] of regions.values()) {
+    written += await refreshRegion(originRegion, destinationRegion, vehicleType, halfLifeDays, since);
+  }
+
+  for (const vehicleType of new Set(partitions.map((p) => p.vehicleType))) {
+    written += await refreshNationalRate(vehicleType, halfLifeDays, since);
+  }
+
+  return written;
+}
+
+/**
+ * Re-compute every vehicle type's national KRW/km rate, e.g. after the
+ * RouteDistance overrides they are based on changed.
+ */
+export async function refreshNationalRates(): Promise<number> {
+  const [halfLifeDays, since] = await Promise.all([getMarketHalfLifeDays(), activeWindowStart()]);
+  const vehicleTypes: { vehicleType: string }[] = await prisma.marketData.findMany({
+    distinct: ["vehicleType"],
+    select: { vehicleType: true },
+  });
+
+  let written = 0;
+  for (const { vehicleType } of vehicleTypes) {
+    written += await refreshNationalRate(vehicleType, halfLifeDays, since);
+  }
+  return written;
+}
+
+/**
+ * Rewrite MarketData locations stored before imports were normalised
+ * (e.g. "서울 강남구") to their canonical ids. Returns the rows changed.
+ */
+export async function normalizeMarketLocations(): Promise<number> {
+  let changed = 0;
+  for (const field of ["origin", "destination"] as const) {
+    const rows = await prisma.marketData.findMany({
+      distinct: [field],
+      select: { origin: true, destination: true },
+    });
+    for (const value of new Set(rows.map((r) => r[field]))) {
+      const id = canonicalLocation(value);
+      if (id === value) continue;
+      const { count } = await prisma.marketData.updateMany({
+        where: { [field]: value },
+        data: { [field]: id },
+      });
+      changed += count;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Rebuild the whole cache from MarketData (after seeding or a migration),
+ * normalising stored locations first.
+ */
+export async function rebuildMarketMedians(): Promise<number> {
+  await normalizeMarketLocations();
+  const routes = await prisma.marketData.findMany({
+    distinct: ["origin", "destination", "vehicleType"],
+    select: { origin: true, destination: true, vehicleType: true },
+  });
+
+  await prisma.marketMedian.deleteMany();
+  await prisma.seasonalIndex.deleteMany();
+  return refreshMarketMedians(marketPartitions(routes));
+}
+
+export async function clearMarketMedians(): Promise<void> {
+  await prisma.marketMedian.deleteMany();
+  await prisma.seasonalIndex.deleteMany();
+}
+
+/**
+ * All cached results, most confident first (the order analyzeMarketData uses).
+ */
+export async function getMarketMedians(): Promise<RouteMedianResult[]> {
+  const rows = await prisma.marketMedian.findMany();
+  const now = new Date();
+  return rows
+    .map((r: MarketMedianRow) => toResult(r, now))
+    .sort((a: RouteMedianResult, b: RouteMedianResult) => b.confidenceScore - a.confidenceScore);
+}
+
+/**
+ * Cached district and province results of a vehicle type, tagged with their
+ * province pair; optionally only one pair.
+ */
+export async function getPartitionMedians(
+  vehicleType: string,
+  pair?: { originProvince: string; destinationProvince: string }
+): Promise<(RouteMedianResult & Omit<MarketPartition, "vehicleType">)[]> {
+  const rows = await prisma.marketMedian.findMany({
+    where: { vehicleType, ...pair, fallbackLevel: { in: PARTITION_LEVELS } },
+  });
+  const now = new Date();
+  return rows
+    .map((r: MarketMedianRow & MarketPartition) => ({
+      ...toResult(r, now),
+      originProvince: r.originProvince,
+      destinationProvince: r.destinationProvince,
+    }))
+    .sort((a: RouteMedianResult, b: RouteMedianResult) => b.confidenceScore - a.confidenceScore);
+}
+
+/**
+ * Cached market median for a route + vehicle type, walking the levels from
+ * narrowest to broadest: exact route, province pair, regional bloc pair,
+ * then the national KRW/km rate × route distance. Returns null if no level
+ * is cached.
+ */
+export async function findCachedMarketMedian(
+  origin: string,
+  destination: string,
+  vehicleType: string
+): Promise<RouteMedianResult | null> {
+  const exact = await prisma.marketMedian.findFirst({
+    where: { origin, destination, vehicleType, fallbackLevel: "district" },
+  });
+  if (exact) return toResult(exact);
+
+  const province = await prisma.marketMedian.findFirst({
+    where: {
+      origin: extractProvince(origin),
+      destination: extractProvince(destination),
+      vehicleType,
+      fallbackLevel: "province",
+    },
+  });
+  if (province) return toResult(province);
+
+  const originRegion = extractRegion(origin);
+  const destinationRegion = extractRegion(destination);
+  if (originRegion && destinationRegion) {
+    const region = await prisma.marketMedian.findFirst({
+      where: { origin: originRegion, destination: destinationRegion, vehicleType, fallbackLevel: "region" },
+    });
+    if (region) return toResult(region);
+  }
+
+  const national = await prisma.marketMedian.findFirst({
+    where: { vehicleType, fallbackLevel: "national" },
+  });
+  if (!national) return null;
+  const { distanceKm } = await resolveRouteDistance(origin, destination);
+  return scaleNationalRate(toResult(national), origin, destination, distanceKm);
+}
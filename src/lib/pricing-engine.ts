@@ -4,56 +4,132 @@
  * Integrates:
  *   Tier 1 (Fundamental Base)  → Cost-based pricing from CostMaster variables
  *   Tier 2 (Market Overlay)    → IQR-cleaned market median adjustment
- *   Tier 3 (Logistics Strategy)→ Company margin, freight risk, strategic adjustment
+ *   Tier 3 (Logistics Strategy)→ Company margin, freight class surcharge, strategic adjustment
  *
  * Rounding Policy: Final price is ALWAYS rounded UP to the nearest 1,000 KRW.
  */
 
 import { prisma } from "@/lib/prisma";
-import { getRouteDistance, type RouteDistanceResult } from "@/lib/route-distance";
 import {
-  analyzeMarketData,
-  type PriceDataPoint,
-  type RouteMedianResult,
-} from "@/lib/analysis";
+  DISTANCE_SOURCE_CONFIDENCE,
+  DISTANCE_SOURCE_LABELS,
+  weakestDistanceSource,
+  type DistanceSource,
+  type RouteDistanceResult,
+} from "@/lib/route-distance";
+import { resolveRouteDistance } from "@/lib/distance-overrides";
+import { normalizeLocation } from "@/lib/location";
+import { joinPaths, type RoutePath, type RouteSegment } from "@/lib/road-graph";
+import { findVehicleType, type VehicleSpec } from "@/lib/vehicle-catalog";
+import { findFreightClass } from "@/lib/freight-catalog";
+import { DEFAULT_FREIGHT_CLASS, type FreightClassSpec } from "@/lib/freight-class";
+import {
+  getApplicableSurchargeRules,
+  parsePickupAt,
+  resolveCalendarSurcharge,
+  type CalendarSurcharge,
+} from "@/lib/surcharge-calendar";
+import { findTollTariff, tollForTrip, type TollTariff } from "@/lib/toll";
+import { findSeasonalFactor, type SeasonalFactor } from "@/lib/seasonality";
+import { findCachedMarketMedian } from "@/lib/market-median";
+import { MARKET_LEVELS, type MarketLevel, type RouteMedianResult } from "@/lib/analysis";
 
 // ══════════════════════════════════════════════════════════════════
 // Types
 // ══════════════════════════════════════════════════════════════════
 
+/**
+ * How the vehicle gets back after delivery.
+ *   one-way      → only the loaded leg is priced (return is someone else's problem)
+ *   round-trip   → loaded both ways; both legs are priced in full
+ *   empty-return → loaded out, empty back; a share of the deadhead leg is charged
+ */
+export type TripMode = "one-way" | "round-trip" | "empty-return";
+
 export interface FPHInput {
   origin: string;        // e.g. "Seoul/Gangnam"
   destination: string;   // e.g. "Busan/Haeundae"
+  stops?: string[];      // intermediate stops in visiting order, e.g. ["Daejeon/Yuseong"]
   vehicleType: string;   // e.g. "11t"
-  freightType?: string;  // e.g. "General", "Fragile", "Refrigerated"
+  freightType?: string;  // FreightClass name or alias, e.g. "Refrigerated", "냉동"; default "General"
+  tripMode?: TripMode;   // default "one-way"
+  pickupAt?: string;     // local KST pickup, "YYYY-MM-DDTHH:MM" (date-only is accepted)
   manualAdjustmentRate?: number; // optional strategic override (e.g. -0.05 for 5% discount)
 }
 
+export interface DeadheadBreakdown {
+  distanceKm: number;
+  fuelCost: number;
+  tollCost: number;
+  timeCost: number;      // driver hours on the empty leg
+  chargeRate: number;    // share of the empty-leg cost billed to the customer
+  charged: number;       // (fuel + toll + time) × chargeRate
+}
+
+export interface RouteLeg {
+  origin: string;
+  destination: string;
+  distanceKm: number;
+  distanceSource: DistanceSource;
+  tolledKm: number;       // toll-road km of the leg (all km unless routed on the road graph)
+}
+
+/**
+ * Tariff the loaded toll was charged at. Each loaded trip on a toll road
+ * (outbound leg, loaded return) pays the base fee once.
+ */
+export interface TollBreakdown extends TollTariff {
+  tolledTrips: number;
+  discount: number;       // KRW taken off by the discount rule
+}
+
 export interface Tier1Breakdown {
+  tripMode: TripMode;
+  legs: RouteLeg[];       // outbound legs, origin → stops → destination
   fuelCost: number;
   tollCost: number;
+  toll: TollBreakdown;
   fixedCost: number;      // vehicle depreciation, insurance, maintenance per trip
+  stopCount: number;      // intermediate stops
+  stopHandlingFee: number; // stopCount × stop_handling_fee
   driverProfit: number;   // guaranteed driver income
+  deadhead: DeadheadBreakdown | null; // empty-return only
   subtotal: number;
-  distanceKm: number;
-  distanceSource: string;
+  distanceKm: number;     // loaded distance (both legs for round-trip)
+  distanceSource: DistanceSource;
+  tolledKm: number;       // km the toll is charged on (all km unless routed on the road graph)
+  segments: RouteSegment[]; // outbound road-graph path, empty if not routed
 }
 
 export interface Tier2Breakdown {
-  marketMedian: number | null;
+  marketBasis: "whole-trip" | "legs" | null; // which market lookup priced a multi-stop trip
+  wholeTripMedian: number | null; // origin → destination, ignoring stops
+  legMedians: (number | null)[];  // per outbound leg (multi-stop only)
+  marketMedian: number | null;     // seasonally adjusted when a pickup month is known
+  seasonalIndex: number;           // 1.0 = no seasonal adjustment
+  seasonalScope: "corridor" | "national" | null;
+  seasonalMonth: number | null;    // 1–12, pickup month the index was taken for
   adjustmentFactor: number; // ratio applied: marketMedian / tier1_base
+  deadheadPassThrough: number; // Tier 1 deadhead charge, added outside the market blend
   adjustedPrice: number;
   sampleSize: number;
   confidenceScore: number;
+  effectiveAgeDays: number | null; // recency-weighted mean age of the market samples
   isFallback: boolean;
+  fallbackLevel: MarketLevel | null; // level the market median came from
   hasMarketData: boolean;
 }
 
 export interface Tier3Breakdown {
   companyMarginRate: number;
   companyMargin: number;
+  freightClass: string | null;   // canonical FreightClass name, null if the table is empty
+  hazmatUnClass: string | null;
   freightRiskRate: number;
   freightRiskSurcharge: number;
+  calendarSurchargeRate: number;  // holiday / peak / weekend + night
+  calendarSurcharge: number;
+  calendarRules: string[];        // names of the calendar rules applied
   manualAdjustmentRate: number;
   manualAdjustment: number;
   subtotalBeforeRounding: number;
@@ -71,6 +147,7 @@ export interface FPHResult {
     tier3_final: number;
     overallConfidence: number;
     dataSources: string[];
+    warnings: string[]; // e.g. freight class needs a body type the vehicle lacks
   };
 }
 
@@ -82,19 +159,24 @@ interface CostVariables {
   // Variable costs
   fuel_price: number;          // KRW/L
   fuel_efficiency: number;     // km/L for the vehicle type
-  toll_rate: number;           // KRW/km (average toll cost per km)
+  toll_rate: number;           // KRW/km (average toll, when the vehicle class has no TollRate)
 
   // Fixed costs (per trip)
   vehicle_fixed_cost: number;  // KRW (depreciation + insurance + maintenance per trip)
+  stop_handling_fee: number;   // KRW per intermediate stop (extra loading/unloading)
+
+  // Deadhead (empty return) leg
+  driver_hourly_cost: number;  // KRW/h (driver time on the empty leg)
+  average_speed: number;       // km/h (empty-leg hours when not routed on the road graph)
 
   // Policy
   driver_profit_rate: number;  // % (guaranteed driver profit as % of cost)
   company_margin_rate: number; // % (Dowoo Logistics margin)
+  deadhead_charge_rate: number; // % of the empty return leg cost billed to the customer
+}
 
-  // Risk surcharges
-  freight_risk_fragile: number;    // % surcharge for fragile goods
-  freight_risk_refrigerated: number; // % surcharge for refrigerated
-  freight_risk_hazardous: number;  // % surcharge for hazardous
+interface ResolvedCostVariables extends CostVariables {
+  vehicleOverrides: (keyof CostVariables)[]; // items resolved from a vehicle-specific row
 }
 
 const COST_DEFAULTS: CostVariables = {
@@ -102,88 +184,201 @@ const COST_DEFAULTS: CostVariables = {
   fuel_efficiency: 3.5,        // km/L for a typical 11t truck
   toll_rate: 120,              // KRW/km average toll
   vehicle_fixed_cost: 150000,  // KRW per trip
+  stop_handling_fee: 30000,    // KRW per intermediate stop
+  driver_hourly_cost: 20000,   // KRW/h
+  average_speed: 60,           // km/h
   driver_profit_rate: 0.15,    // 15%
   company_margin_rate: 0.08,   // 8%
-  freight_risk_fragile: 0.12,  // 12% surcharge
-  freight_risk_refrigerated: 0.15, // 15% surcharge
-  freight_risk_hazardous: 0.20,    // 20% surcharge
+  deadhead_charge_rate: 0.5,   // 50% of the empty return leg
 };
 
 /**
  * Fetch cost variables from CostMaster DB, falling back to defaults.
+ *
+ * Each item resolves vehicle-first: a row whose vehicleType matches the
+ * requested vehicle wins over the global row (vehicleType = null), which in
+ * turn wins over COST_DEFAULTS. Fuel efficiency and fixed cost per trip slot
+ * the VehicleType catalog between the vehicle override and the global default.
  */
-async function fetchCostVariables(): Promise<CostVariables> {
-  const rows = await prisma.costMaster.findMany();
-  const map = new Map(rows.map((r: { item: string; value: number }) => [r.item, r.value]));
+async function fetchCostVariables(
+  vehicleType: string,
+  vehicle: VehicleSpec | null
+): Promise<ResolvedCostVariables> {
+  const rows = await prisma.costMaster.findMany({
+    where: { OR: [{ vehicleType }, { vehicleType: null }] },
+  });
+
+  const globalValues = new Map<string, number>();
+  const vehicleValues = new Map<string, number>();
+  for (const r of rows as { item: string; vehicleType: string | null; value: number }[]) {
+    if (r.vehicleType === null) globalValues.set(r.item, r.value);
+    else vehicleValues.set(r.item, r.value);
+  }
+
+  const vehicleOverrides: (keyof CostVariables)[] = [];
+  const resolve = (item: keyof CostVariables, vehicleDefault?: number): number => {
+    const override = vehicleValues.get(item);
+    if (override !== undefined) {
+      vehicleOverrides.push(item);
+      return override;
+    }
+    return vehicleDefault ?? globalValues.get(item) ?? COST_DEFAULTS[item];
+  };
 
   return {
-    fuel_price: map.get("fuel_price") ?? COST_DEFAULTS.fuel_price,
-    fuel_efficiency: map.get("fuel_efficiency") ?? COST_DEFAULTS.fuel_efficiency,
-    toll_rate: map.get("toll_rate") ?? COST_DEFAULTS.toll_rate,
-    vehicle_fixed_cost: map.get("vehicle_fixed_cost") ?? COST_DEFAULTS.vehicle_fixed_cost,
-    driver_profit_rate: map.get("driver_profit_rate") ?? COST_DEFAULTS.driver_profit_rate,
-    company_margin_rate: map.get("company_margin_rate") ?? COST_DEFAULTS.company_margin_rate,
-    freight_risk_fragile: map.get("freight_risk_fragile") ?? COST_DEFAULTS.freight_risk_fragile,
-    freight_risk_refrigerated: map.get("freight_risk_refrigerated") ?? COST_DEFAULTS.freight_risk_refrigerated,
-    freight_risk_hazardous: map.get("freight_risk_hazardous") ?? COST_DEFAULTS.freight_risk_hazardous,
+    fuel_price: resolve("fuel_price"),
+    fuel_efficiency: resolve("fuel_efficiency", vehicle?.fuelEfficiency),
+    toll_rate: resolve("toll_rate"),
+    vehicle_fixed_cost: resolve("vehicle_fixed_cost", vehicle?.fixedCostPerTrip),
+    stop_handling_fee: resolve("stop_handling_fee"),
+    driver_hourly_cost: resolve("driver_hourly_cost"),
+    average_speed: resolve("average_speed"),
+    driver_profit_rate: resolve("driver_profit_rate"),
+    company_margin_rate: resolve("company_margin_rate"),
+    deadhead_charge_rate: resolve("deadhead_charge_rate"),
+    vehicleOverrides,
   };
 }
 
 // ══════════════════════════════════════════════════════════════════
-// Vehicle fuel efficiency lookup
+// Multi-stop routing
 // ══════════════════════════════════════════════════════════════════
 
-const VEHICLE_EFFICIENCY: Record<string, number> = {
-  "1t": 8.0,
-  "2.5t": 6.5,
-  "3.5t": 5.5,
-  "5t": 4.5,
-  "8t": 4.0,
-  "11t": 3.5,
-  "15t": 3.0,
-  "18t": 2.8,
-  "25t": 2.5,
-};
+/**
+ * Split origin → stops → destination into legs and sum their distances.
+ * The combined source is only as good as the weakest leg.
+ */
+async function getTripDistance(
+  points: string[]
+): Promise<{ distance: RouteDistanceResult; legs: RouteLeg[] }> {
+  const legs: RouteLeg[] = [];
+  const legResults: RouteDistanceResult[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const leg = await resolveRouteDistance(points[i], points[i + 1]);
+    legResults.push(leg);
+    legs.push({
+      origin: points[i],
+      destination: points[i + 1],
+      distanceKm: leg.distanceKm,
+      distanceSource: leg.source,
+      tolledKm: tolledKm(leg),
+    });
+  }
+
+  const distanceKm = legs.reduce((sum, l) => sum + l.distanceKm, 0);
+  const source = weakestDistanceSource(legs.map((l) => l.distanceSource));
+  const paths = legResults.map((r) => r.path).filter((p): p is RoutePath => p !== undefined);
+  const path = paths.length === legResults.length ? joinPaths(paths) : undefined;
+
+  return { distance: { distanceKm, source, path }, legs };
+}
+
+/**
+ * Km charged toll: the toll-road km of a road-graph path, otherwise the whole
+ * distance (the average toll_rate is spread over all roads).
+ */
+function tolledKm(distance: RouteDistanceResult): number {
+  return distance.path?.tolledKm ?? distance.distanceKm;
+}
 
-function getEfficiency(vehicleType: string, defaultEff: number): number {
-  return VEHICLE_EFFICIENCY[vehicleType] ?? defaultEff;
+/**
+ * Driving hours: from the road-graph path when there is one, otherwise at
+ * average_speed.
+ */
+function driveHours(distance: RouteDistanceResult, costs: CostVariables): number {
+  return distance.path?.driveHours ?? distance.distanceKm / costs.average_speed;
 }
 
 // ══════════════════════════════════════════════════════════════════
 // Tier 1: Cost-Based Pricing
 // ══════════════════════════════════════════════════════════════════
 
+/**
+ * Cost of running a truck empty over the return leg. Only a share of it
+ * (deadhead_charge_rate) is billed; the rest is absorbed as a backhaul risk.
+ */
+function calculateDeadhead(
+  returnDistance: RouteDistanceResult,
+  tariff: TollTariff,
+  costs: CostVariables
+): DeadheadBreakdown {
+  const km = returnDistance.distanceKm;
+  const fuelCost = Math.round((km / costs.fuel_efficiency) * costs.fuel_price);
+  // Empty trucks don't qualify for the freight discount
+  const tollCost = tollForTrip(tariff, tolledKm(returnDistance), false);
+  const timeCost = Math.round(driveHours(returnDistance, costs) * costs.driver_hourly_cost);
+  const chargeRate = costs.deadhead_charge_rate;
+  const charged = Math.round((fuelCost + tollCost + timeCost) * chargeRate);
+
+  return { distanceKm: km, fuelCost, tollCost, timeCost, chargeRate, charged };
+}
+
 function calculateTier1(
   distance: RouteDistanceResult,
-  vehicleType: string,
+  legs: RouteLeg[],
+  returnDistance: RouteDistanceResult | null,
+  tripMode: TripMode,
+  tariff: TollTariff,
   costs: CostVariables
 ): Tier1Breakdown {
-  const km = distance.distanceKm;
-  const efficiency = getEfficiency(vehicleType, costs.fuel_efficiency);
+  // Round-trip: the return leg is loaded, so it is priced like the outbound leg
+  const loadedLegs = tripMode === "round-trip" ? 2 : 1;
+  const loadedReturn = tripMode === "round-trip" ? returnDistance ?? distance : null;
+  const km = distance.distanceKm + (loadedReturn?.distanceKm ?? 0);
+  const efficiency = costs.fuel_efficiency;
 
   // Variable costs
   const fuelCost = Math.round((km / efficiency) * costs.fuel_price);
-  const tollCost = Math.round(km * costs.toll_rate);
 
-  // Fixed costs per trip
-  const fixedCost = costs.vehicle_fixed_cost;
+  // Toll per loaded trip: every stop leaves the expressway, so each leg pays
+  // the base fee again
+  const tollTrips = [...legs.map((l) => l.tolledKm), ...(loadedReturn ? [tolledKm(loadedReturn)] : [])];
+  const tollKm = tollTrips.reduce((sum, t) => sum + t, 0);
+  const tollCost = tollTrips.reduce((sum, t) => sum + tollForTrip(tariff, t, true), 0);
+  const fullToll = tollTrips.reduce((sum, t) => sum + tollForTrip(tariff, t, false), 0);
+  const toll: TollBreakdown = {
+    ...tariff,
+    tolledTrips: tollTrips.filter((t) => t > 0).length,
+    discount: fullToll - tollCost,
+  };
+
+  // Fixed costs per trip (each loaded leg counts as a trip)
+  const fixedCost = costs.vehicle_fixed_cost * loadedLegs;
+
+  // Handling fee for every intermediate pick-up / drop-off
+  const stopCount = legs.length - 1;
+  const stopHandlingFee = stopCount * costs.stop_handling_fee;
 
   // Subtotal before driver profit
-  const operatingCost = fuelCost + tollCost + fixedCost;
+  const operatingCost = fuelCost + tollCost + fixedCost + stopHandlingFee;
 
   // Driver guaranteed profit
   const driverProfit = Math.round(operatingCost * costs.driver_profit_rate);
 
-  const subtotal = operatingCost + driverProfit;
+  // Empty return leg (charged at cost share, no driver profit on top)
+  const deadhead =
+    tripMode === "empty-return"
+      ? calculateDeadhead(returnDistance ?? distance, tariff, costs)
+      : null;
+
+  const subtotal = operatingCost + driverProfit + (deadhead?.charged ?? 0);
 
   return {
+    tripMode,
+    legs,
     fuelCost,
     tollCost,
+    toll,
     fixedCost,
+    stopCount,
+    stopHandlingFee,
     driverProfit,
+    deadhead,
     subtotal,
     distanceKm: km,
     distanceSource: distance.source,
+    tolledKm: tollKm,
+    segments: distance.path?.segments ?? [],
   };
 }
 
@@ -192,65 +387,128 @@ function calculateTier1(
 // ══════════════════════════════════════════════════════════════════
 
 /**
- * Find the market median for a specific route + vehicleType.
- * Returns null if no market data exists.
+ * The part of a market result Tier 2 needs. A RouteMedianResult is one;
+ * combineLegs() builds one for trips made of several priced legs.
  */
-async function findMarketMedian(
-  origin: string,
-  destination: string,
-  vehicleType: string
-): Promise<RouteMedianResult | null> {
-  const allData = await prisma.marketData.findMany({
-    where: { vehicleType },
-    select: { origin: true, destination: true, vehicleType: true, unitPrice: true },
-  });
+interface MarketReference {
+  median: number;
+  sampleSize: number;
+  confidenceScore: number;
+  effectiveAgeDays: number;
+  isFallback: boolean;
+  fallbackLevel: MarketLevel;
+}
 
-  if (allData.length === 0) return null;
+/**
+ * Sum the medians of consecutive legs. The trip is only as trustworthy as
+ * its weakest leg, so the lowest leg confidence, oldest data and broadest
+ * fallback level are carried over.
+ */
+function combineLegs(legs: MarketReference[]): MarketReference {
+  return {
+    median: legs.reduce((sum, l) => sum + l.median, 0),
+    sampleSize: legs.reduce((sum, l) => sum + l.sampleSize, 0),
+    confidenceScore: Math.min(...legs.map((l) => l.confidenceScore)),
+    effectiveAgeDays: Math.max(...legs.map((l) => l.effectiveAgeDays)),
+    isFallback: legs.some((l) => l.isFallback),
+    fallbackLevel: MARKET_LEVELS[Math.max(...legs.map((l) => MARKET_LEVELS.indexOf(l.fallbackLevel)))],
+  };
+}
 
-  const dataPoints: PriceDataPoint[] = allData.map(
-    (d: { origin: string; destination: string; vehicleType: string; unitPrice: number }) => ({
-      origin: d.origin,
-      destination: d.destination,
-      vehicleType: d.vehicleType,
-      unitPrice: d.unitPrice,
-    })
-  );
+/**
+ * Market reference for a trip, with the lookups behind it.
+ */
+interface TripMarket {
+  reference: MarketReference | null;
+  basis: Tier2Breakdown["marketBasis"];
+  wholeTripMedian: number | null;
+  legMedians: (number | null)[];
+}
 
-  const results = analyzeMarketData(dataPoints);
+/**
+ * Look up market data for a (possibly multi-stop) trip.
+ *
+ * A direct trip uses the origin → destination lane. With stops, the whole-trip
+ * lane is preferred, plus the stop handling fees it does not include; if that
+ * lane has no data, the legs are summed when every leg has data.
+ */
+async function findTripMarket(
+  legs: RouteLeg[],
+  vehicleType: string,
+  stopHandlingFee: number
+): Promise<TripMarket> {
+  const origin = legs[0].origin;
+  const destination = legs[legs.length - 1].destination;
+  const wholeTrip = await findCachedMarketMedian(origin, destination, vehicleType);
 
-  // Try exact match first
-  const exactMatch = results.find(
-    (r) => r.origin === origin && r.destination === destination
-  );
-  if (exactMatch) return exactMatch;
+  if (legs.length === 1) {
+    return {
+      reference: wholeTrip,
+      basis: wholeTrip ? "whole-trip" : null,
+      wholeTripMedian: wholeTrip?.median ?? null,
+      legMedians: [],
+    };
+  }
 
-  // Try province-level fallback match
-  const originProv = origin.split("/")[0].trim();
-  const destProv = destination.split("/")[0].trim();
-  const fallbackMatch = results.find(
-    (r) => r.isFallback && r.origin === originProv && r.destination === destProv
+  const legResults = await Promise.all(
+    legs.map((l) => findCachedMarketMedian(l.origin, l.destination, vehicleType))
   );
-  return fallbackMatch ?? null;
+  const legMedians = legResults.map((r) => r?.median ?? null);
+
+  if (wholeTrip) {
+    return {
+      reference: { ...wholeTrip, median: wholeTrip.median + stopHandlingFee },
+      basis: "whole-trip",
+      wholeTripMedian: wholeTrip.median,
+      legMedians,
+    };
+  }
+
+  if (legResults.every((r): r is RouteMedianResult => r !== null)) {
+    return {
+      reference: combineLegs(legResults),
+      basis: "legs",
+      wholeTripMedian: null,
+      legMedians,
+    };
+  }
+
+  return { reference: null, basis: null, wholeTripMedian: null, legMedians };
 }
 
 function calculateTier2(
   tier1Base: number,
-  marketResult: RouteMedianResult | null
+  tripMarket: TripMarket,
+  seasonal: SeasonalFactor | null,
+  deadheadPassThrough: number
 ): Tier2Breakdown {
+  const { reference: marketResult, basis: marketBasis, wholeTripMedian, legMedians } = tripMarket;
+
   if (!marketResult) {
     // No market data — pass through Tier 1 price unchanged
     return {
+      marketBasis,
+      wholeTripMedian,
+      legMedians,
       marketMedian: null,
+      seasonalIndex: 1.0,
+      seasonalScope: null,
+      seasonalMonth: null,
       adjustmentFactor: 1.0,
+      deadheadPassThrough,
       adjustedPrice: tier1Base,
       sampleSize: 0,
       confidenceScore: 0,
+      effectiveAgeDays: null,
       isFallback: false,
+      fallbackLevel: null,
       hasMarketData: false,
     };
   }
 
-  const marketMedian = marketResult.median;
+  // The median pools all months; scale it to the pickup month's level
+  const seasonalIndex = seasonal?.index ?? 1.0;
+  const marketMedian = Math.round(marketResult.median * seasonalIndex);
   const confidence = marketResult.confidenceScore;
 
   // Blended adjustment: weighted average of cost-based and market-based.
@@ -260,20 +518,33 @@ function calculateTier2(
   // This ensures:
   //   - Low confidence (few data points) → price stays close to Tier 1 cost
   //   - High confidence (rich data) → price converges toward market median
-  const adjustedPrice = Math.round(
-    tier1Base * (1 - confidence) + marketMedian * confidence
-  );
+  //
+  // Market prices are for loaded legs, so an empty-return deadhead charge is
+  // kept out of the blend and added back afterwards.
+  const loadedBase = tier1Base - deadheadPassThrough;
+  const adjustedPrice =
+    Math.round(loadedBase * (1 - confidence) + marketMedian * confidence) +
+    deadheadPassThrough;
 
   const adjustmentFactor =
     tier1Base > 0 ? Math.round((adjustedPrice / tier1Base) * 1000) / 1000 : 1.0;
 
   return {
+    marketBasis,
+    wholeTripMedian,
+    legMedians,
     marketMedian,
+    seasonalIndex,
+    seasonalScope: seasonal?.scope ?? null,
+    seasonalMonth: seasonal?.month ?? null,
     adjustmentFactor,
+    deadheadPassThrough,
     adjustedPrice,
     sampleSize: marketResult.sampleSize,
     confidenceScore: confidence,
+    effectiveAgeDays: marketResult.effectiveAgeDays,
     isFallback: marketResult.isFallback,
+    fallbackLevel: marketResult.fallbackLevel,
     hasMarketData: true,
   };
 }
@@ -283,27 +554,19 @@ function calculateTier2(
 // ══════════════════════════════════════════════════════════════════
 
 /**
- * Freight risk surcharge rate based on cargo type.
+ * Resolve the freight type against the FreightClass table.
+ * A missing freight type means General; an unknown one is an error rather
+ * than a silent 0% surcharge. Returns null only when no classes are set up.
  */
-function getFreightRiskRate(
-  freightType: string | undefined,
-  costs: CostVariables
-): number {
-  if (!freightType) return 0;
+async function resolveFreight(freightType: string | undefined): Promise<FreightClassSpec | null> {
+  const requested = freightType?.trim() || DEFAULT_FREIGHT_CLASS;
+  const freightClass = await findFreightClass(requested);
+  if (freightClass) return freightClass;
 
-  const normalized = freightType.toLowerCase();
-
-  if (["fragile", "paper", "glass", "ceramic", "electronics"].some((k) => normalized.includes(k))) {
-    return costs.freight_risk_fragile;
-  }
-  if (["refrigerated", "frozen", "chilled", "cold"].some((k) => normalized.includes(k))) {
-    return costs.freight_risk_refrigerated;
-  }
-  if (["hazardous", "chemical", "flammable", "explosive"].some((k) => normalized.includes(k))) {
-    return costs.freight_risk_hazardous;
+  if (requested !== DEFAULT_FREIGHT_CLASS) {
+    throw new Error(`Unknown freight type "${requested}" (not in freight classes)`);
   }
-
-  return 0; // "General" or unknown → no surcharge
+  return null;
 }
 
 /**
@@ -316,7 +579,8 @@ function ceilTo1000(value: number): number {
 
 function calculateTier3(
   tier2Price: number,
-  freightType: string | undefined,
+  freightClass: FreightClassSpec | null,
+  calendar: CalendarSurcharge,
   manualAdjustmentRate: number,
   costs: CostVariables
 ): Tier3Breakdown {
@@ -325,14 +589,17 @@ function calculateTier3(
   const companyMargin = Math.round(tier2Price * companyMarginRate);
 
   // Freight risk surcharge
-  const freightRiskRate = getFreightRiskRate(freightType, costs);
+  const freightRiskRate = freightClass?.surchargeRate ?? 0;
   const freightRiskSurcharge = Math.round(tier2Price * freightRiskRate);
 
+  // Calendar surcharge (holiday / peak week / weekend, plus night loading)
+  const calendarSurcharge = Math.round(tier2Price * calendar.rate);
+
   // Manual strategic adjustment (positive = increase, negative = discount)
   const manualAdjustment = Math.round(tier2Price * manualAdjustmentRate);
 
   const subtotalBeforeRounding =
-    tier2Price + companyMargin + freightRiskSurcharge + manualAdjustment;
+    tier2Price + companyMargin + freightRiskSurcharge + calendarSurcharge + manualAdjustment;
 
   // Rounding policy: ceil to nearest 1,000 KRW
   const finalPrice = ceilTo1000(subtotalBeforeRounding);
@@ -340,8 +607,13 @@ function calculateTier3(
   return {
     companyMarginRate,
     companyMargin,
+    freightClass: freightClass?.name ?? null,
+    hazmatUnClass: freightClass?.hazmatUnClass ?? null,
     freightRiskRate,
     freightRiskSurcharge,
+    calendarSurchargeRate: calendar.rate,
+    calendarSurcharge,
+    calendarRules: calendar.rules,
     manualAdjustmentRate,
     manualAdjustment,
     subtotalBeforeRounding,
@@ -354,11 +626,11 @@ function calculateTier3(
 // ══════════════════════════════════════════════════════════════════
 
 function computeOverallConfidence(
-  distanceSource: string,
+  distanceSource: DistanceSource,
   tier2: Tier2Breakdown
 ): number {
   // Distance confidence
-  const distConf = distanceSource === "lookup" ? 1.0 : 0.6;
+  const distConf = DISTANCE_SOURCE_CONFIDENCE[distanceSource];
 
   // Market data confidence
   const marketConf = tier2.hasMarketData ? tier2.confidenceScore : 0.3;
@@ -368,6 +640,27 @@ function computeOverallConfidence(
   return Math.round(overall * 100) / 100;
 }
 
+/**
+ * Input with origin, stops and destination as canonical location ids, plus
+ * a note for each location that could not be (fully) resolved.
+ */
+function normalizeInputLocations(input: FPHInput): { input: FPHInput; locationIssues: string[] } {
+  const origin = normalizeLocation(input.origin);
+  const destination = normalizeLocation(input.destination);
+  const stops = (input.stops ?? []).filter((s) => s.trim()).map(normalizeLocation);
+  const locationIssues = [origin, ...stops, destination].flatMap((l) => (l.issue ? [l.issue] : []));
+
+  return {
+    input: {
+      ...input,
+      origin: origin.id,
+      destination: destination.id,
+      ...(input.stops ? { stops: stops.map((s) => s.id) } : {}),
+    },
+    locationIssues,
+  };
+}
+
 // ══════════════════════════════════════════════════════════════════
 // Main Entry Point
 // ══════════════════════════════════════════════════════════════════
@@ -375,47 +668,107 @@ function computeOverallConfidence(
 /**
  * Calculate the full FPH price for a given route.
  *
- * @param input - Route parameters
- * @returns FPHResult with detailed breakdown of all 3 tiers
+ * @param rawInput - Route parameters; locations may be typed in any form
+ *   normalizeLocation understands
+ * @returns FPHResult with detailed breakdown of all 3 tiers; its `input`
+ *   carries the canonical locations
  */
-export async function calculateFPHPrice(input: FPHInput): Promise<FPHResult> {
+export async function calculateFPHPrice(rawInput: FPHInput): Promise<FPHResult> {
+  const { input, locationIssues } = normalizeInputLocations(rawInput);
   const {
     origin,
     destination,
+    stops = [],
     vehicleType,
     freightType,
+    tripMode = "one-way",
+    pickupAt,
     manualAdjustmentRate = 0,
   } = input;
 
-  // Fetch cost variables from DB (with defaults)
-  const costs = await fetchCostVariables();
+  if (pickupAt && !parsePickupAt(pickupAt)) {
+    throw new Error(`Invalid pickup time "${pickupAt}" (expected YYYY-MM-DD or YYYY-MM-DDTHH:MM)`);
+  }
+
+  // Fetch vehicle spec, freight class and cost variables from DB (with defaults)
+  const vehicle = await findVehicleType(vehicleType);
+  const freightClass = await resolveFreight(freightType);
+  const costs = await fetchCostVariables(vehicleType, vehicle);
 
-  // Get route distance
-  const distance = getRouteDistance(origin, destination);
+  // Get route distance leg by leg (and the direct way back, unless one-way)
+  const points = [origin, ...stops.filter((s) => s.trim()), destination];
+  const { distance, legs } = await getTripDistance(points);
+  const returnDistance =
+    tripMode === "one-way" ? null : await resolveRouteDistance(destination, origin);
 
   // ── Tier 1 ─────────────────────────────────────────────────
-  const tier1 = calculateTier1(distance, vehicleType, costs);
+  const tollTariff = await findTollTariff(vehicle?.tollClass ?? null, costs.toll_rate, pickupAt);
+  const tier1 = calculateTier1(distance, legs, returnDistance, tripMode, tollTariff, costs);
 
   // ── Tier 2 ─────────────────────────────────────────────────
-  const marketResult = await findMarketMedian(origin, destination, vehicleType);
-  const tier2 = calculateTier2(tier1.subtotal, marketResult);
+  const tripMarket = await findTripMarket(legs, vehicleType, tier1.stopHandlingFee);
+  let returnLegMirrored = false;
+  if (tripMarket.reference && tripMode === "round-trip") {
+    // Price the loaded return leg from its own lane; assume symmetry if unknown,
+    // without counting the outbound samples twice
+    const returnResult = await findCachedMarketMedian(destination, origin, vehicleType);
+    returnLegMirrored = returnResult === null;
+    tripMarket.reference = combineLegs([
+      tripMarket.reference,
+      returnResult ?? { ...tripMarket.reference, sampleSize: 0 },
+    ]);
+  }
+  const pickupMonth = pickupAt ? Number(parsePickupAt(pickupAt)?.date.slice(5, 7)) || null : null;
+  const seasonal =
+    tripMarket.reference && pickupMonth
+      ? await findSeasonalFactor(origin, destination, vehicleType, pickupMonth)
+      : null;
+  const tier2 = calculateTier2(
+    tier1.subtotal,
+    tripMarket,
+    seasonal,
+    tier1.deadhead?.charged ?? 0
+  );
 
   // ── Tier 3 ─────────────────────────────────────────────────
+  const calendarRules = pickupAt ? await getApplicableSurchargeRules(pickupAt) : [];
+  const calendar = resolveCalendarSurcharge(calendarRules, pickupAt);
   const tier3 = calculateTier3(
     tier2.adjustedPrice,
-    freightType,
+    freightClass,
+    calendar,
     manualAdjustmentRate,
     costs
   );
 
   // ── Data sources ───────────────────────────────────────────
-  const dataSources: string[] = ["CostMaster"];
+  const dataSources: string[] = [
+    costs.vehicleOverrides.length > 0 ? `CostMaster (${vehicleType} overrides)` : "CostMaster",
+  ];
+  if (vehicle) dataSources.push("VehicleType catalog");
+  if (tollTariff.source === "toll-rate") dataSources.push(`TollRate (class ${tollTariff.tollClass})`);
+  if (freightClass) dataSources.push("FreightClass");
+  if (calendar.rules.length > 0) dataSources.push("SurchargeCalendar");
   if (tier2.hasMarketData) dataSources.push("MarketData (IQR)");
-  if (distance.source === "lookup") dataSources.push("RouteDistance (lookup)");
-  else dataSources.push("RouteDistance (haversine estimate)");
+  if (tier2.seasonalScope) dataSources.push(`SeasonalIndex (${tier2.seasonalScope})`);
+  dataSources.push(`RouteDistance (${DISTANCE_SOURCE_LABELS[distance.source]})`);
 
   const overallConfidence = computeOverallConfidence(distance.source, tier2);
 
+  // ── Warnings ───────────────────────────────────────────────
+  const warnings: string[] = [...locationIssues];
+  if (returnLegMirrored) {
+    warnings.push("No market data for the return lane; the outbound median was assumed for the way back");
+  }
+  if (vehicle && tollTariff.source === "average") {
+    warnings.push(`No toll rate for class ${vehicle.tollClass}; the average toll_rate was used`);
+  }
+  if (freightClass?.requiredBodyType && vehicle && vehicle.bodyType !== freightClass.requiredBodyType) {
+    warnings.push(
+      `${freightClass.name} freight requires a ${freightClass.requiredBodyType} body; ${vehicle.name} is ${vehicle.bodyType}`
+    );
+  }
+
   return {
     input,
     tier1,
@@ -427,6 +780,7 @@ export async function calculateFPHPrice(input: FPHInput): Promise<FPHResult> {
       tier3_final: tier3.finalPrice,
       overallConfidence,
       dataSources,
+      warnings,
     },
   };
 }
@@ -437,15 +791,20 @@ export async function calculateFPHPrice(input: FPHInput): Promise<FPHResult> {
 
 /**
  * Calculate FPH for a route and persist the result to RouteStandard.
+ * RouteStandard holds direct one-way standards only; other trip modes and
+ * multi-stop trips are returned without being saved.
  */
 export async function calculateAndSave(input: FPHInput): Promise<FPHResult> {
   const result = await calculateFPHPrice(input);
+  if (result.tier1.tripMode !== "one-way") return result;
+  if (result.input.stops?.some((s) => s.trim())) return result;
+  const { origin, destination } = result.input;
 
   await prisma.routeStandard.upsert({
     where: {
       origin_destination_vehicleType: {
-        origin: input.origin,
-        destination: input.destination,
+        origin,
+        destination,
         vehicleType: input.vehicleType,
       },
     },
@@ -456,8 +815,8 @@ export async function calculateAndSave(input: FPHInput): Promise<FPHResult> {
       confidenceScore: result.summary.overallConfidence,
     },
     create: {
-      origin: input.origin,
-      destination: input.destination,
+      origin,
+      destination,
       vehicleType: input.vehicleType,
       basePrice: result.summary.tier1_base,
       marketAdjustedPrice: result.summary.tier2_adjusted,
@@ -0,0 +1,481 @@
+/**
+ * Road Graph
+ *
+ * Bundled offline graph of the expressway network plus the national roads
+ * needed where no expressway exists (the east coast, Jeju). Nodes are
+ * interchanges and junctions; each road is a chain of nodes with the km of
+ * every section and its toll class. Gyeongbu sections follow the official
+ * km posts (Hannam 416 km → Guseo 0 km); the other section lengths are
+ * estimated from the node coordinates, not surveyed.
+ *
+ * A trip between two gazetteer districts joins the graph at the district
+ * centroids: each end links to its nearest interchanges over local roads,
+ * and the two ends are also linked directly. The path with the shortest
+ * driving time is used, so short hops stay on local roads and long trips
+ * take the expressway.
+ */
+
+import { districtLandmass, haversineKm, type District } from "@/lib/gazetteer";
+
+export type RoadKind = "expressway" | "national" | "local";
+export type TollClass = "toll" | "free";
+
+export interface RouteSegment {
+  road: string;     // e.g. "Gyeongbu Expressway", "Local roads"
+  kind: RoadKind;
+  tollClass: TollClass;
+  from: string;
+  to: string;
+  km: number;
+}
+
+export interface RoutePath {
+  distanceKm: number;
+  tolledKm: number;   // km on toll roads
+  driveHours: number; // at ROAD_SPEED_KMH
+  segments: RouteSegment[];
+}
+
+// Typical loaded-truck speeds used to pick the fastest path and time it
+export const ROAD_SPEED_KMH: Record<RoadKind, number> = {
+  expressway: 80,
+  national: 60,
+  local: 40,
+};
+
+const LOCAL_ROAD_FACTOR = 1.3; // local road km per straight-line km
+const ACCESS_LINKS = 2;        // interchanges each district end connects to
+const LOCAL_ROADS = "Local roads";
+
+// ── Graph data ───────────────────────────────────────────────────
+
+interface GraphNode {
+  name: string;
+  lat: number;
+  lng: number;
+  landmass?: string; // default "mainland"
+}
+
+interface RoadDef {
+  name: string;
+  kind: Exclude<RoadKind, "local">;
+  tollClass: TollClass;
+  nodes: string[];
+  km: number[]; // km[i] is nodes[i] → nodes[i + 1]
+}
+
+const NODES: Record<string, GraphNode> = {
+  hannam: { name: "Hannam IC", lat: 37.527, lng: 127.012 },
+  yangjae: { name: "Yangjae IC", lat: 37.469, lng: 127.040 },
+  pangyo: { name: "Pangyo JC", lat: 37.403, lng: 127.105 },
+  singal: { name: "Singal JC", lat: 37.280, lng: 127.110 },
+  anseong: { name: "Anseong JC", lat: 37.010, lng: 127.190 },
+  cheonan: { name: "Cheonan JC", lat: 36.765, lng: 127.215 },
+  namicheongju: { name: "Namicheongju JC", lat: 36.575, lng: 127.405 },
+  hoedeok: { name: "Hoedeok JC", lat: 36.400, lng: 127.440 },
+  biryong: { name: "Biryong JC", lat: 36.310, lng: 127.490 },
+  gimcheon: { name: "Gimcheon JC", lat: 36.125, lng: 128.160 },
+  geumho: { name: "Geumho JC", lat: 35.905, lng: 128.555 },
+  dodong: { name: "Dodong JC", lat: 35.880, lng: 128.665 },
+  gyeongju: { name: "Gyeongju IC", lat: 35.830, lng: 129.190 },
+  eonyang: { name: "Eonyang JC", lat: 35.570, lng: 129.140 },
+  yangsan: { name: "Yangsan JC", lat: 35.360, lng: 129.050 },
+  guseo: { name: "Guseo IC", lat: 35.250, lng: 129.090 },
+  geumcheon: { name: "Geumcheon IC", lat: 37.440, lng: 126.890 },
+  ansan: { name: "Ansan JC", lat: 37.335, lng: 126.850 },
+  seopyeongtaek: { name: "Seopyeongtaek JC", lat: 36.980, lng: 126.890 },
+  dangjin: { name: "Dangjin JC", lat: 36.900, lng: 126.650 },
+  hongseong: { name: "Hongseong IC", lat: 36.600, lng: 126.600 },
+  dongseocheon: { name: "Dongseocheon JC", lat: 36.060, lng: 126.740 },
+  gochang: { name: "Gochang JC", lat: 35.440, lng: 126.720 },
+  muan: { name: "Muan JC", lat: 34.980, lng: 126.480 },
+  mokpo: { name: "Mokpo IC", lat: 34.810, lng: 126.440 },
+  yuseong: { name: "Yuseong JC", lat: 36.360, lng: 127.330 },
+  nonsan: { name: "Nonsan JC", lat: 36.200, lng: 127.080 },
+  iksan: { name: "Iksan JC", lat: 35.970, lng: 127.010 },
+  jeonju: { name: "Jeonju IC", lat: 35.860, lng: 127.100 },
+  jeongeup: { name: "Jeongeup IC", lat: 35.580, lng: 126.870 },
+  jangseong: { name: "Jangseong JC", lat: 35.290, lng: 126.800 },
+  gwangju: { name: "Dongseo JC (Gwangju)", lat: 35.200, lng: 126.860 },
+  suncheon: { name: "Suncheon JC", lat: 34.980, lng: 127.460 },
+  gwangyang: { name: "Gwangyang IC", lat: 34.970, lng: 127.640 },
+  jinju: { name: "Jinju JC", lat: 35.150, lng: 128.070 },
+  haman: { name: "Haman JC", lat: 35.270, lng: 128.420 },
+  changwon: { name: "Changwon JC", lat: 35.250, lng: 128.620 },
+  naengjeong: { name: "Naengjeong JC", lat: 35.250, lng: 128.870 },
+  seobusan: { name: "Seobusan IC", lat: 35.160, lng: 128.970 },
+  damyang: { name: "Damyang JC", lat: 35.330, lng: 126.990 },
+  namwon: { name: "Namwon JC", lat: 35.430, lng: 127.380 },
+  hamyang: { name: "Hamyang JC", lat: 35.550, lng: 127.720 },
+  goryeong: { name: "Goryeong JC", lat: 35.720, lng: 128.340 },
+  okpo: { name: "Okpo JC", lat: 35.790, lng: 128.450 },
+  muju: { name: "Muju IC", lat: 36.000, lng: 127.640 },
+  jangsu: { name: "Jangsu JC", lat: 35.660, lng: 127.530 },
+  sancheong: { name: "Sancheong IC", lat: 35.410, lng: 127.880 },
+  tongyeong: { name: "Tongyeong IC", lat: 34.880, lng: 128.420 },
+  yeoju: { name: "Yeoju JC", lat: 37.280, lng: 127.620 },
+  chungju: { name: "Chungju JC", lat: 36.970, lng: 127.900 },
+  nakdong: { name: "Nakdong JC", lat: 36.410, lng: 128.210 },
+  changnyeong: { name: "Changnyeong JC", lat: 35.500, lng: 128.480 },
+  miryang: { name: "Miryang IC", lat: 35.500, lng: 128.760 },
+  uiseong: { name: "Uiseong JC", lat: 36.360, lng: 128.680 },
+  andong: { name: "Andong IC", lat: 36.560, lng: 128.700 },
+  yeongju: { name: "Yeongju IC", lat: 36.810, lng: 128.620 },
+  jecheon: { name: "Jecheon JC", lat: 37.120, lng: 128.210 },
+  wonju: { name: "Wonju JC", lat: 37.370, lng: 127.920 },
+  hongcheon: { name: "Hongcheon IC", lat: 37.690, lng: 127.890 },
+  chuncheon: { name: "Chuncheon JC", lat: 37.870, lng: 127.770 },
+  seochang: { name: "Seochang JC", lat: 37.420, lng: 126.750 },
+  hobeop: { name: "Hobeop JC", lat: 37.230, lng: 127.450 },
+  pyeongchang: { name: "Pyeongchang IC", lat: 37.550, lng: 128.450 },
+  gangneung: { name: "Gangneung JC", lat: 37.750, lng: 128.870 },
+  haeundae: { name: "Haeundae IC", lat: 35.200, lng: 129.150 },
+  ulsan: { name: "Ulsan JC", lat: 35.550, lng: 129.220 },
+  pohang: { name: "Pohang JC", lat: 36.010, lng: 129.270 },
+  yeongdeok: { name: "Yeongdeok IC", lat: 36.410, lng: 129.350 },
+  uljin: { name: "Uljin", lat: 36.990, lng: 129.400 },
+  donghae: { name: "Donghae IC", lat: 37.490, lng: 129.100 },
+  samcheok: { name: "Samcheok IC", lat: 37.420, lng: 129.150 },
+  yangyang: { name: "Yangyang JC", lat: 38.060, lng: 128.620 },
+  sokcho: { name: "Sokcho IC", lat: 38.200, lng: 128.590 },
+  hanam: { name: "Hanam JC", lat: 37.520, lng: 127.200 },
+  jincheon: { name: "Jincheon IC", lat: 36.860, lng: 127.440 },
+  eumseong: { name: "Eumseong IC", lat: 36.930, lng: 127.650 },
+  gangil: { name: "Gangil IC", lat: 37.560, lng: 127.170 },
+  inje: { name: "Inje IC", lat: 37.970, lng: 128.200 },
+  toegyewon: { name: "Toegyewon IC", lat: 37.700, lng: 127.140 },
+  ilsan: { name: "Ilsan IC", lat: 37.670, lng: 126.760 },
+  gimpo: { name: "Gimpo JC", lat: 37.570, lng: 126.790 },
+  gongju: { name: "Gongju JC", lat: 36.470, lng: 127.140 },
+  yesan: { name: "Yesan IC", lat: 36.680, lng: 126.850 },
+  wanju: { name: "Wanju JC", lat: 35.900, lng: 127.150 },
+  "jeju-city": { name: "Jeju City", lat: 33.500, lng: 126.530, landmass: "Jeju" },
+  seogwipo: { name: "Seogwipo", lat: 33.250, lng: 126.560, landmass: "Jeju" },
+};
+
+const ROADS: RoadDef[] = [
+  {
+    name: "Gyeongbu Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["hannam", "yangjae", "pangyo", "singal", "anseong", "cheonan", "namicheongju", "hoedeok", "biryong", "gimcheon", "geumho", "dodong", "gyeongju", "eonyang", "yangsan", "guseo"],
+    km: [8, 10, 14, 39, 15, 29, 17, 12, 68, 62, 18, 56, 26, 23, 19],
+  },
+  {
+    name: "Seohaean Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["geumcheon", "ansan", "seopyeongtaek", "dangjin", "hongseong", "dongseocheon", "gochang", "muan", "mokpo"],
+    km: [15, 48, 28, 40, 74, 83, 67, 23],
+  },
+  {
+    name: "Honam Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["hoedeok", "yuseong", "nonsan", "iksan", "jeonju", "jeongeup", "jangseong", "gwangju", "suncheon"],
+    km: [13, 34, 32, 18, 45, 39, 14, 72],
+  },
+  {
+    name: "Namhae Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["suncheon", "gwangyang", "jinju", "haman", "changwon", "naengjeong", "seobusan"],
+    km: [20, 53, 41, 22, 27, 16],
+  },
+  {
+    name: "Gwangju–Daegu Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["gwangju", "damyang", "namwon", "hamyang", "goryeong", "okpo", "geumho"],
+    km: [22, 44, 40, 71, 15, 19],
+  },
+  {
+    name: "Tongyeong–Daejeon Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["biryong", "muju", "jangsu", "hamyang", "sancheong", "jinju", "tongyeong"],
+    km: [44, 47, 25, 26, 40, 53],
+  },
+  {
+    name: "Jungbu Naeryuk Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["yeoju", "chungju", "nakdong", "gimcheon", "goryeong", "changnyeong", "changwon"],
+    km: [51, 82, 38, 57, 33, 37],
+  },
+  {
+    name: "Jungang Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["naengjeong", "miryang", "geumho", "uiseong", "andong", "yeongju", "jecheon", "wonju", "hongcheon", "chuncheon"],
+    km: [35, 58, 62, 27, 34, 60, 45, 43, 27],
+  },
+  {
+    name: "Yeongdong Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["seochang", "ansan", "singal", "hobeop", "yeoju", "wonju", "pyeongchang", "gangneung"],
+    km: [16, 29, 37, 19, 34, 61, 52],
+  },
+  {
+    name: "Donghae Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["haeundae", "ulsan", "pohang", "yeongdeok"],
+    km: [47, 62, 54],
+  },
+  {
+    name: "Donghae Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["samcheok", "donghae", "gangneung", "yangyang", "sokcho"],
+    km: [11, 42, 49, 19],
+  },
+  {
+    name: "Ulsan Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["eonyang", "ulsan"],
+    km: [14],
+  },
+  {
+    name: "Iksan–Pohang Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["iksan", "wanju", "jangsu"],
+    km: [18, 52],
+  },
+  {
+    name: "Iksan–Pohang Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["dodong", "pohang"],
+    km: [68],
+  },
+  {
+    name: "Jungbu Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["hanam", "hobeop", "jincheon", "namicheongju"],
+    km: [47, 49, 38],
+  },
+  {
+    name: "Pyeongtaek–Jecheon Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["seopyeongtaek", "anseong", "eumseong", "chungju", "jecheon"],
+    km: [32, 50, 27, 39],
+  },
+  {
+    name: "Seoul–Yangyang Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["gangil", "chuncheon", "inje", "yangyang"],
+    km: [76, 47, 46],
+  },
+  {
+    name: "Seoul Ring Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["pangyo", "hanam", "toegyewon", "ilsan", "gimpo", "seochang", "pangyo"],
+    km: [19, 25, 40, 14, 20, 38],
+  },
+  {
+    name: "Cheonan–Nonsan Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["cheonan", "gongju", "nonsan"],
+    km: [40, 37],
+  },
+  {
+    name: "Dangjin–Yeongdeok Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["dangjin", "yesan", "gongju", "namicheongju", "nakdong", "uiseong", "yeongdeok"],
+    km: [36, 42, 32, 89, 51, 72],
+  },
+  {
+    name: "Muan–Gwangju Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["muan", "gwangju"],
+    km: [51],
+  },
+  {
+    name: "Suncheon–Wanju Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["wanju", "namwon", "suncheon"],
+    km: [67, 61],
+  },
+  {
+    name: "Gochang–Damyang Expressway",
+    kind: "expressway",
+    tollClass: "toll",
+    nodes: ["gochang", "jangseong", "damyang"],
+    km: [22, 21],
+  },
+  {
+    name: "National Route 7",
+    kind: "national",
+    tollClass: "free",
+    nodes: ["yeongdeok", "uljin", "samcheok"],
+    km: [84, 68],
+  },
+  {
+    name: "National Route 1131",
+    kind: "national",
+    tollClass: "free",
+    nodes: ["jeju-city", "seogwipo"],
+    km: [36],
+  },
+  {
+    name: "Beonyeong-ro",
+    kind: "national",
+    tollClass: "free",
+    nodes: ["guseo", "haeundae"],
+    km: [12],
+  },
+];
+
+// ── Shortest path ────────────────────────────────────────────────
+
+interface Edge {
+  to: string;
+  km: number;
+  road: string;
+  kind: RoadKind;
+  tollClass: TollClass;
+}
+
+let adjacency: Map<string, Edge[]> | null = null;
+
+function getAdjacency(): Map<string, Edge[]> {
+  if (adjacency) return adjacency;
+  adjacency = new Map(Object.keys(NODES).map((id) => [id, []]));
+  for (const road of ROADS) {
+    for (let i = 0; i < road.km.length; i++) {
+      const section = { km: road.km[i], road: road.name, kind: road.kind, tollClass: road.tollClass };
+      adjacency.get(road.nodes[i])!.push({ ...section, to: road.nodes[i + 1] });
+      adjacency.get(road.nodes[i + 1])!.push({ ...section, to: road.nodes[i] });
+    }
+  }
+  return adjacency;
+}
+
+function localEdge(to: string, straightKm: number): Edge {
+  return {
+    to,
+    km: Math.max(1, Math.round(straightKm * LOCAL_ROAD_FACTOR)),
+    road: LOCAL_ROADS,
+    kind: "local",
+    tollClass: "free",
+  };
+}
+
+/**
+ * The ACCESS_LINKS nearest interchanges on the district's landmass.
+ */
+function nearestNodes(district: District): { id: string; straightKm: number }[] {
+  const landmass = districtLandmass(district);
+  return Object.entries(NODES)
+    .filter(([, n]) => (n.landmass ?? "mainland") === landmass)
+    .map(([id, n]) => ({ id, straightKm: haversineKm([district.lat, district.lng], [n.lat, n.lng]) }))
+    .sort((a, b) => a.straightKm - b.straightKm)
+    .slice(0, ACCESS_LINKS);
+}
+
+/**
+ * Merge consecutive edges of the same road into segments.
+ */
+function toSegments(start: string, edges: Edge[], label: (id: string) => string): RouteSegment[] {
+  const segments: RouteSegment[] = [];
+  let from = start;
+  for (const e of edges) {
+    const last = segments[segments.length - 1];
+    if (last && last.road === e.road) {
+      last.to = label(e.to);
+      last.km += e.km;
+    } else {
+      segments.push({ road: e.road, kind: e.kind, tollClass: e.tollClass, from: label(from), to: label(e.to), km: e.km });
+    }
+    from = e.to;
+  }
+  return segments;
+}
+
+export function summarizePath(segments: RouteSegment[]): RoutePath {
+  const distanceKm = segments.reduce((sum, s) => sum + s.km, 0);
+  const tolledKm = segments.filter((s) => s.tollClass === "toll").reduce((sum, s) => sum + s.km, 0);
+  const hours = segments.reduce((sum, s) => sum + s.km / ROAD_SPEED_KMH[s.kind], 0);
+  return { distanceKm, tolledKm, driveHours: Math.round(hours * 100) / 100, segments };
+}
+
+/**
+ * Fastest path between two districts, or null when they are the same
+ * district or not connected (e.g. an island without a ferry link).
+ */
+export function findRoutePath(origin: District, destination: District): RoutePath | null {
+  if (origin === destination) return null;
+
+  const ORIGIN = "@origin";
+  const DESTINATION = "@destination";
+  const graph = getAdjacency();
+  const extra = new Map<string, Edge[]>([[ORIGIN, []]]);
+
+  const originAccess = nearestNodes(origin);
+  const destinationAccess = nearestNodes(destination);
+  for (const a of originAccess) extra.get(ORIGIN)!.push(localEdge(a.id, a.straightKm));
+  for (const a of destinationAccess) extra.set(a.id, [localEdge(DESTINATION, a.straightKm)]);
+  if (districtLandmass(origin) === districtLandmass(destination)) {
+    extra.get(ORIGIN)!.push(
+      localEdge(DESTINATION, haversineKm([origin.lat, origin.lng], [destination.lat, destination.lng]))
+    );
+  }
+
+  const neighbours = (id: string) => [...(graph.get(id) ?? []), ...(extra.get(id) ?? [])];
+
+  // Dijkstra on driving time; the graph is small enough for a linear scan
+  const hours = new Map<string, number>([[ORIGIN, 0]]);
+  const via = new Map<string, { from: string; edge: Edge }>();
+  const done = new Set<string>();
+
+  while (true) {
+    let current: string | null = null;
+    for (const [id, h] of hours) {
+      if (!done.has(id) && (current === null || h < hours.get(current)!)) current = id;
+    }
+    if (current === null || current === DESTINATION) break;
+    done.add(current);
+
+    for (const edge of neighbours(current)) {
+      const h = hours.get(current)! + edge.km / ROAD_SPEED_KMH[edge.kind];
+      if (h < (hours.get(edge.to) ?? Infinity)) {
+        hours.set(edge.to, h);
+        via.set(edge.to, { from: current, edge });
+      }
+    }
+  }
+
+  if (!via.has(DESTINATION)) return null;
+
+  const edges: Edge[] = [];
+  for (let id = DESTINATION; id !== ORIGIN; id = via.get(id)!.from) {
+    edges.unshift(via.get(id)!.edge);
+  }
+
+  const label = (id: string) =>
+    id === ORIGIN
+      ? `${origin.province}/${origin.name}`
+      : id === DESTINATION
+        ? `${destination.province}/${destination.name}`
+        : NODES[id].name;
+  return summarizePath(toSegments(ORIGIN, edges, label));
+}
+
+/**
+ * Join the paths of consecutive legs into one.
+ */
+export function joinPaths(paths: RoutePath[]): RoutePath {
+  return summarizePath(paths.flatMap((p) => p.segments));
+}
@@ -2,10 +2,15 @@
  * Route Distance Utility
  *
  * Provides estimated road distances (km) between Korean logistics hubs.
- * Uses a lookup table for major corridors and a province-centroid fallback
- * for unknown pairs.
+ * District-to-district pairs are routed over the bundled road graph (or
+ * estimated from the gazetteer centroids if no path exists); otherwise a
+ * lookup table for major corridors and a province-centroid fallback for
+ * unknown pairs are used.
  */
 
+import { districtLandmass, findDistrict, haversineKm, type District } from "@/lib/gazetteer";
+import { findRoutePath, type RoutePath } from "@/lib/road-graph";
+
 // ── Province centroid coordinates (lat, lng) ─────────────────────
 // Used for fallback Haversine estimation when exact route is unknown.
 
@@ -83,27 +88,6 @@ function extractProvince(location: string): string {
   return location.split("/")[0].trim();
 }
 
-/**
- * Haversine distance between two lat/lng points (km).
- * Used as absolute last resort when no road distance is known.
- * Multiplied by 1.3 to approximate road distance from straight-line.
- */
-function haversineKm(
-  [lat1, lng1]: [number, number],
-  [lat2, lng2]: [number, number]
-): number {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLng = ((lng2 - lng1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLng / 2) ** 2;
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
 /**
  * Normalise a pair of provinces into a canonical lookup key.
  * Tries both "A→B" and "B→A".
@@ -114,23 +98,102 @@ function lookupDistance(prov1: string, prov2: string): number | null {
   return ROAD_DISTANCES[key1] ?? ROAD_DISTANCES[key2] ?? null;
 }
 
+export type DistanceSource =
+  | "manual-override" // RouteDistance table, see distance-overrides.ts
+  | "http-routing"    // external routing service, see distance-providers.ts
+  | "road-graph"
+  | "lookup"
+  | "district-haversine"
+  | "haversine";
+
 export interface RouteDistanceResult {
   distanceKm: number;
-  source: "lookup" | "haversine";
+  source: DistanceSource;
+  path?: RoutePath; // road-graph only: segments, tolled km and driving time
+}
+
+/** How far each source can be trusted, used by the overall confidence score. */
+export const DISTANCE_SOURCE_CONFIDENCE: Record<DistanceSource, number> = {
+  "manual-override": 1.0,
+  "http-routing": 1.0,
+  "road-graph": 1.0,
+  lookup: 1.0,
+  "district-haversine": 0.8,
+  haversine: 0.6,
+};
+
+export const DISTANCE_SOURCE_LABELS: Record<DistanceSource, string> = {
+  "manual-override": "manual override",
+  "http-routing": "routing service",
+  "road-graph": "road graph",
+  lookup: "lookup",
+  "district-haversine": "district estimate",
+  haversine: "haversine estimate",
+};
+
+/**
+ * The least trustworthy of several sources (e.g. the legs of one trip).
+ */
+export function weakestDistanceSource(sources: DistanceSource[]): DistanceSource {
+  return sources.reduce<DistanceSource>(
+    (weakest, s) => (DISTANCE_SOURCE_CONFIDENCE[s] < DISTANCE_SOURCE_CONFIDENCE[weakest] ? s : weakest),
+    "manual-override"
+  );
 }
 
+// Multiplied with straight-line km to approximate road distance
+const ROAD_FACTOR = 1.3;
+// Floor for trips within one district (or between adjacent centroids)
+const MIN_DISTRICT_KM = 10;
+
 /**
- * Get estimated road distance between two locations.
- *
- * Strategy:
- *   1. Try exact province pair lookup from the known corridors table.
- *   2. Fallback to Haversine × 1.3 road factor using province centroids.
- *   3. If province is unknown, default to 200 km.
+ * Haversine × road factor between two gazetteer districts, or null when the
+ * pair crosses the sea (a straight line to an island says nothing about the
+ * ferry trip, so those pairs use the corridor table instead).
  */
-export function getRouteDistance(
+function districtDistance(d1: District, d2: District): number | null {
+  if (districtLandmass(d1) !== districtLandmass(d2)) return null;
+  const straight = haversineKm([d1.lat, d1.lng], [d2.lat, d2.lng]);
+  return Math.max(MIN_DISTRICT_KM, Math.round(straight * ROAD_FACTOR));
+}
+
+/**
+ * Centroid of a location: its gazetteer district, else its province.
+ */
+export function locationCoords(location: string): [number, number] | null {
+  const d = findDistrict(location);
+  return d ? [d.lat, d.lng] : PROVINCE_COORDS[extractProvince(location)] ?? null;
+}
+
+/**
+ * Road-graph distance between two gazetteer districts: the fastest path
+ * ("road-graph"), or Haversine × 1.3 between the district centroids when
+ * there is none, e.g. within one district ("district-haversine"). Null
+ * unless both ends are districts on the same landmass.
+ */
+export function graphRouteDistance(
   origin: string,
   destination: string
-): RouteDistanceResult {
+): RouteDistanceResult | null {
+  const d1 = findDistrict(origin);
+  const d2 = findDistrict(destination);
+  if (!d1 || !d2) return null;
+
+  const path = findRoutePath(d1, d2);
+  if (path) return { distanceKm: path.distanceKm, source: "road-graph", path };
+
+  const estimate = districtDistance(d1, d2);
+  return estimate !== null ? { distanceKm: estimate, source: "district-haversine" } : null;
+}
+
+/**
+ * Province-level distance, always available:
+ *   1. Same province → 30 km.
+ *   2. Exact province pair from the known corridors table.
+ *   3. Haversine × 1.3 road factor between province centroids.
+ *   4. If a province is unknown, 200 km.
+ */
+export function tableRouteDistance(origin: string, destination: string): RouteDistanceResult {
   const prov1 = extractProvince(origin);
   const prov2 = extractProvince(destination);
 
@@ -151,10 +214,22 @@ export function getRouteDistance(
 
   if (coord1 && coord2) {
     const straight = haversineKm(coord1, coord2);
-    const roadEstimate = Math.round(straight * 1.3);
+    const roadEstimate = Math.round(straight * ROAD_FACTOR);
     return { distanceKm: roadEstimate, source: "haversine" };
   }
 
   // Ultimate fallback
   return { distanceKm: 200, source: "haversine" };
 }
+
+/**
+ * Built-in estimate between two locations: the road graph when both ends
+ * are districts, else the province table. The configurable provider chain
+ * (distance-providers.ts) uses the two steps separately.
+ */
+export function getRouteDistance(
+  origin: string,
+  destination: string
+): RouteDistanceResult {
+  return graphRouteDistance(origin, destination) ?? tableRouteDistance(origin, destination);
+}
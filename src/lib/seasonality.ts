@@ -0,0 +1,194 @@
+/**
+ * Seasonality Index
+ *
+ * Monthly price indices derived from MarketData. Every price is divided by
+ * the median price of its own route, so busy and quiet lanes can be pooled;
+ * the month's index is the mean of those ratios, normalised so the months
+ * with data average 1.0.
+ *
+ * Indices are kept per corridor (origin province → destination province)
+ * and vehicle type. A month with fewer than MIN_SEASONAL_SAMPLES corridor
+ * samples falls back to the national index (all corridors and vehicles).
+ * So does every month of a corridor sampled in fewer than
+ * MIN_CORRIDOR_MONTHS months: its route medians, and so its index, only
+ * describe the months it was sampled in (a corridor quoted only in peak
+ * months would come out flat at 1.0).
+ *
+ * The SeasonalIndex table stores ratio sums and counts rather than indices,
+ * so the national index is just the corridor rows added up.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { extractProvince, type PriceDataPoint } from "@/lib/analysis";
+import type { MarketPartition } from "@/lib/market-median";
+
+export type SeasonalScope = "corridor" | "national";
+
+export interface SeasonalSum extends MarketPartition {
+  month: number; // 1–12
+  ratioSum: number;
+  sampleCount: number;
+}
+
+export interface SeasonalMonth {
+  month: number;
+  index: number | null; // null when the month has no samples
+  sampleCount: number;
+}
+
+export interface SeasonalProfile {
+  scope: SeasonalScope;
+  months: SeasonalMonth[]; // always 12 entries, January first
+}
+
+export interface SeasonalFactor {
+  month: number;
+  index: number;
+  scope: SeasonalScope;
+  sampleCount: number;
+}
+
+export const MIN_SEASONAL_SAMPLES = 3;
+export const MIN_CORRIDOR_MONTHS = 9; // months with MIN_SEASONAL_SAMPLES before a corridor index is used
+
+// ── Computation ──────────────────────────────────────────────────
+
+function plainMedian(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Sum price-to-route-median ratios per (corridor, vehicle type, month).
+ * Months are taken in UTC, matching how MarketData dates are imported.
+ */
+export function computeSeasonalSums(data: PriceDataPoint[]): SeasonalSum[] {
+  const routePrices = new Map<string, number[]>();
+  const routeKey = (d: PriceDataPoint) => `${d.origin}||${d.destination}||${d.vehicleType}`;
+  const points = data.filter((d) => !d.isOutlier); // flagged by hand
+  for (const d of points) {
+    const prices = routePrices.get(routeKey(d)) ?? [];
+    prices.push(d.unitPrice);
+    routePrices.set(routeKey(d), prices);
+  }
+
+  const routeMedians = new Map<string, number>();
+  for (const [key, prices] of routePrices) {
+    routeMedians.set(key, plainMedian(prices));
+  }
+
+  const sums = new Map<string, SeasonalSum>();
+  for (const d of points) {
+    const routeMedian = routeMedians.get(routeKey(d)) ?? 0;
+    if (routeMedian <= 0) continue;
+
+    const sum: SeasonalSum = {
+      originProvince: extractProvince(d.origin),
+      destinationProvince: extractProvince(d.destination),
+      vehicleType: d.vehicleType,
+      month: d.date.getUTCMonth() + 1,
+      ratioSum: 0,
+      sampleCount: 0,
+    };
+    const key = `${sum.originProvince}||${sum.destinationProvince}||${sum.vehicleType}||${sum.month}`;
+    const existing = sums.get(key) ?? sum;
+    existing.ratioSum += d.unitPrice / routeMedian;
+    existing.sampleCount += 1;
+    sums.set(key, existing);
+  }
+
+  return Array.from(sums.values());
+}
+
+/**
+ * Turn monthly ratio sums into a 12-month index averaging 1.0 over the
+ * months that have data.
+ */
+export function buildSeasonalMonths(
+  sums: { month: number; ratioSum: number; sampleCount: number }[]
+): SeasonalMonth[] {
+  const byMonth = new Map<number, { ratioSum: number; sampleCount: number }>();
+  for (const s of sums) {
+    const m = byMonth.get(s.month) ?? { ratioSum: 0, sampleCount: 0 };
+    m.ratioSum += s.ratioSum;
+    m.sampleCount += s.sampleCount;
+    byMonth.set(s.month, m);
+  }
+
+  const means = Array.from({ length: 12 }, (_, i) => {
+    const m = byMonth.get(i + 1);
+    return m && m.sampleCount > 0 ? m.ratioSum / m.sampleCount : null;
+  });
+  const present = means.filter((m): m is number => m !== null);
+  const overall = present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : 1;
+
+  return means.map((mean, i) => ({
+    month: i + 1,
+    index: mean !== null && overall > 0 ? Math.round((mean / overall) * 1000) / 1000 : null,
+    sampleCount: byMonth.get(i + 1)?.sampleCount ?? 0,
+  }));
+}
+
+// ── DB access ────────────────────────────────────────────────────
+
+/**
+ * Monthly index for one corridor + vehicle type, or the national index when
+ * no partition is given.
+ */
+export async function getSeasonalProfile(partition: MarketPartition | null): Promise<SeasonalProfile> {
+  const rows = await prisma.seasonalIndex.findMany({
+    where: partition ?? {},
+    select: { month: true, ratioSum: true, sampleCount: true },
+  });
+  return {
+    scope: partition ? "corridor" : "national",
+    months: buildSeasonalMonths(rows),
+  };
+}
+
+/**
+ * Corridors with seasonal data, for pickers.
+ */
+export async function getSeasonalPartitions(): Promise<MarketPartition[]> {
+  return prisma.seasonalIndex.findMany({
+    distinct: ["originProvince", "destinationProvince", "vehicleType"],
+    select: { originProvince: true, destinationProvince: true, vehicleType: true },
+    orderBy: [{ originProvince: "asc" }, { destinationProvince: "asc" }, { vehicleType: "asc" }],
+  });
+}
+
+/**
+ * Seasonal factor for a route in the given month (1–12): the corridor index
+ * when it covers most of the year and has enough samples that month,
+ * otherwise the national one. Returns null if neither has enough data.
+ */
+export async function findSeasonalFactor(
+  origin: string,
+  destination: string,
+  vehicleType: string,
+  month: number
+): Promise<SeasonalFactor | null> {
+  const corridor = await getSeasonalProfile({
+    originProvince: extractProvince(origin),
+    destinationProvince: extractProvince(destination),
+    vehicleType,
+  });
+  const coveredMonths = corridor.months.filter((m) => m.sampleCount >= MIN_SEASONAL_SAMPLES).length;
+  const corridorMonth = corridor.months[month - 1];
+  if (
+    coveredMonths >= MIN_CORRIDOR_MONTHS &&
+    corridorMonth.index !== null &&
+    corridorMonth.sampleCount >= MIN_SEASONAL_SAMPLES
+  ) {
+    return { month, index: corridorMonth.index, scope: "corridor", sampleCount: corridorMonth.sampleCount };
+  }
+
+  const national = await getSeasonalProfile(null);
+  const nationalMonth = national.months[month - 1];
+  if (nationalMonth.index !== null && nationalMonth.sampleCount >= MIN_SEASONAL_SAMPLES) {
+    return { month, index: nationalMonth.index, scope: "national", sampleCount: nationalMonth.sampleCount };
+  }
+
+  return null;
+}
@@ -0,0 +1,191 @@
+/**
+ * Surcharge Calendar
+ *
+ * Date- and time-based surcharges applied in Tier 3: public and lunar
+ * holidays, peak weeks before Seollal/Chuseok, weekends and night loading.
+ *
+ * Pickup times are local Korean time ("YYYY-MM-DDTHH:MM", no offset) and are
+ * compared as strings, so the result does not depend on the server timezone.
+ *
+ * Stacking policy:
+ *   Day rules (Holiday, Peak, Weekend) do not stack — the highest one applies.
+ *   Time rules (Night) stack on top of the day rule, highest one applies.
+ */
+
+import { prisma } from "@/lib/prisma";
+
+export type SurchargeKind = "Holiday" | "Peak" | "Weekend" | "Night";
+
+export const SURCHARGE_KINDS: SurchargeKind[] = ["Holiday", "Peak", "Weekend", "Night"];
+
+export interface SurchargeRule {
+  id: number;
+  name: string;
+  kind: SurchargeKind;
+  startDate: string | null;  // "YYYY-MM-DD", Holiday/Peak
+  endDate: string | null;
+  daysOfWeek: string | null; // "0,6" — Weekend
+  startTime: string | null;  // "HH:MM" — Night
+  endTime: string | null;
+  rate: number;
+  isActive: boolean;
+}
+
+export interface CalendarSurcharge {
+  rate: number;
+  rules: string[]; // names of the rules that were applied
+}
+
+interface PickupMoment {
+  date: string;           // "YYYY-MM-DD"
+  weekday: number;        // 0 = Sunday
+  minutes: number | null; // minutes after midnight, null if no time given
+}
+
+const DAY_KINDS: SurchargeKind[] = ["Holiday", "Peak", "Weekend"];
+
+// ── Parsing ──────────────────────────────────────────────────────
+
+/**
+ * Parse "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM" into its calendar parts.
+ * Returns null for anything else, including impossible dates and times.
+ */
+export function parsePickupAt(value: string): PickupMoment | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, y, m, d, hh, mm] = match;
+  if (hh !== undefined && (Number(hh) > 23 || Number(mm) > 59)) return null;
+  const utc = new Date(Date.UTC(Number(y), Number(m) - 1, Number(d)));
+  if (isNaN(utc.getTime()) || utc.getUTCDate() !== Number(d)) return null;
+
+  return {
+    date: `${y}-${m}-${d}`,
+    weekday: utc.getUTCDay(),
+    minutes: hh !== undefined ? Number(hh) * 60 + Number(mm) : null,
+  };
+}
+
+function timeToMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + (m || 0);
+}
+
+// ── Matching ─────────────────────────────────────────────────────
+
+function ruleMatches(rule: SurchargeRule, pickup: PickupMoment): boolean {
+  switch (rule.kind) {
+    case "Holiday":
+    case "Peak":
+      return (
+        rule.startDate !== null &&
+        pickup.date >= rule.startDate &&
+        pickup.date <= (rule.endDate ?? rule.startDate)
+      );
+    case "Weekend":
+      return (rule.daysOfWeek ?? "")
+        .split(",")
+        .map((d) => d.trim())
+        .includes(String(pickup.weekday));
+    case "Night": {
+      if (pickup.minutes === null || !rule.startTime || !rule.endTime) return false;
+      const start = timeToMinutes(rule.startTime);
+      const end = timeToMinutes(rule.endTime);
+      // A window such as 22:00–06:00 wraps past midnight
+      return start <= end
+        ? pickup.minutes >= start && pickup.minutes < end
+        : pickup.minutes >= start || pickup.minutes < end;
+    }
+    default:
+      return false;
+  }
+}
+
+function highest(rules: SurchargeRule[]): SurchargeRule | null {
+  return rules.reduce<SurchargeRule | null>(
+    (best, r) => (best === null || r.rate > best.rate ? r : best),
+    null
+  );
+}
+
+/**
+ * Work out the calendar surcharge for a pickup datetime.
+ * Returns a zero surcharge when no pickup time is given or nothing matches.
+ */
+export function resolveCalendarSurcharge(
+  rules: SurchargeRule[],
+  pickupAt: string | undefined
+): CalendarSurcharge {
+  const pickup = pickupAt ? parsePickupAt(pickupAt) : null;
+  if (!pickup) return { rate: 0, rules: [] };
+
+  const matched = rules.filter((r) => r.isActive && ruleMatches(r, pickup));
+  const dayRule = highest(matched.filter((r) => DAY_KINDS.includes(r.kind)));
+  const timeRule = highest(matched.filter((r) => r.kind === "Night"));
+
+  const applied = [dayRule, timeRule].filter((r): r is SurchargeRule => r !== null);
+  return {
+    rate: Math.round(applied.reduce((sum, r) => sum + r.rate, 0) * 10000) / 10000,
+    rules: applied.map((r) => r.name),
+  };
+}
+
+// ── DB access ────────────────────────────────────────────────────
+
+type SurchargeCalendarRow = Omit<SurchargeRule, "kind"> & { kind: string };
+
+/**
+ * Narrow a stored row to a rule; null for a kind this module does not know.
+ */
+function toRule(row: SurchargeCalendarRow): SurchargeRule | null {
+  const kind = SURCHARGE_KINDS.find((k) => k === row.kind);
+  if (!kind) return null;
+  return {
+    id: row.id,
+    name: row.name,
+    kind,
+    startDate: row.startDate,
+    endDate: row.endDate,
+    daysOfWeek: row.daysOfWeek,
+    startTime: row.startTime,
+    endTime: row.endTime,
+    rate: row.rate,
+    isActive: row.isActive,
+  };
+}
+
+function toRules(rows: SurchargeCalendarRow[]): SurchargeRule[] {
+  return rows.map(toRule).filter((r): r is SurchargeRule => r !== null);
+}
+
+/**
+ * All calendar rules of a known kind, ordered for display (dated rules by start date).
+ */
+export async function getSurchargeRules(): Promise<SurchargeRule[]> {
+  const rows = await prisma.surchargeCalendar.findMany({
+    orderBy: [{ kind: "asc" }, { startDate: "asc" }, { name: "asc" }],
+  });
+  return toRules(rows);
+}
+
+/**
+ * Active rules that can match the given pickup. Dated rules are narrowed in
+ * the query so the table can hold many years of holidays.
+ */
+export async function getApplicableSurchargeRules(pickupAt: string): Promise<SurchargeRule[]> {
+  const pickup = parsePickupAt(pickupAt);
+  if (!pickup) return [];
+
+  const rows = await prisma.surchargeCalendar.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { kind: { in: ["Weekend", "Night"] } },
+        { startDate: { lte: pickup.date }, endDate: { gte: pickup.date } },
+        // A one-day rule may have been stored without an end date
+        { startDate: pickup.date, endDate: null },
+      ],
+    },
+  });
+  return toRules(rows);
+}
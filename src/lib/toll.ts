@@ -0,0 +1,165 @@
+/**
+ * Expressway Tolls
+ *
+ * Tier 1 toll cost by vehicle toll class (VehicleType.tollClass, 1–5):
+ *   toll = baseFee per tolled trip + perKmRate × tolled km
+ * Rates come from the TollRate table. A vehicle that is not catalogued, or a
+ * class without a row, falls back to the CostMaster toll_rate average
+ * (no base fee).
+ *
+ * Time-window discounts (TollDiscountRule) — e.g. the freight night discount —
+ * match the pickup time the same way Night surcharges do. They do not stack:
+ * the highest matching rule applies, and only to loaded legs.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { parsePickupAt } from "@/lib/surcharge-calendar";
+
+export interface TollRateSpec {
+  id: number;
+  tollClass: number;        // 1–5
+  baseFee: number;          // KRW per tolled trip
+  perKmRate: number;        // KRW per tolled km
+  description: string | null;
+}
+
+export interface TollDiscountRule {
+  id: number;
+  name: string;
+  startTime: string;          // "HH:MM"
+  endTime: string;            // "HH:MM", may wrap past midnight
+  discountRate: number;       // 0.5 = −50%
+  tollClasses: string | null; // "3,4,5"; null = every class
+  isActive: boolean;
+}
+
+export interface TollTariff {
+  tollClass: number | null;      // null when the vehicle is not catalogued
+  source: "toll-rate" | "average"; // TollRate row, or the CostMaster toll_rate fallback
+  baseFee: number;
+  perKmRate: number;
+  discountRate: number;          // applied to loaded legs only
+  discountRule: string | null;   // name of the discount rule applied
+}
+
+export const TOLL_CLASSES = [1, 2, 3, 4, 5];
+
+// ── Matching ─────────────────────────────────────────────────────
+
+function timeToMinutes(time: string): number {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + (m || 0);
+}
+
+function appliesToClass(rule: TollDiscountRule, tollClass: number): boolean {
+  if (!rule.tollClasses) return true;
+  return rule.tollClasses
+    .split(",")
+    .map((c) => c.trim())
+    .includes(String(tollClass));
+}
+
+function windowMatches(rule: TollDiscountRule, minutes: number): boolean {
+  const start = timeToMinutes(rule.startTime);
+  const end = timeToMinutes(rule.endTime);
+  // A window such as 21:00–06:00 wraps past midnight
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Pick the toll tariff for a vehicle's class and pickup time. Discounts need
+ * a class rate and a pickup time of day; otherwise none applies.
+ */
+export function resolveTollTariff(
+  rates: TollRateSpec[],
+  rules: TollDiscountRule[],
+  tollClass: number | null,
+  averageRate: number,
+  pickupAt: string | undefined
+): TollTariff {
+  const rate = tollClass !== null ? rates.find((r) => r.tollClass === tollClass) : undefined;
+  if (!rate) {
+    return {
+      tollClass,
+      source: "average",
+      baseFee: 0,
+      perKmRate: averageRate,
+      discountRate: 0,
+      discountRule: null,
+    };
+  }
+
+  const minutes = pickupAt ? parsePickupAt(pickupAt)?.minutes ?? null : null;
+  const discount =
+    minutes === null
+      ? null
+      : rules
+          .filter((r) => r.isActive && appliesToClass(r, rate.tollClass) && windowMatches(r, minutes))
+          .reduce<TollDiscountRule | null>(
+            (best, r) => (best === null || r.discountRate > best.discountRate ? r : best),
+            null
+          );
+
+  return {
+    tollClass: rate.tollClass,
+    source: "toll-rate",
+    baseFee: rate.baseFee,
+    perKmRate: rate.perKmRate,
+    discountRate: discount?.discountRate ?? 0,
+    discountRule: discount?.name ?? null,
+  };
+}
+
+/**
+ * Toll for one trip on the tariff. The base fee is only charged when the
+ * trip uses a toll road at all.
+ */
+export function tollForTrip(tariff: TollTariff, tolledKm: number, discounted: boolean): number {
+  if (tolledKm <= 0) return 0;
+  const full = tariff.baseFee + tolledKm * tariff.perKmRate;
+  return Math.round(discounted ? full * (1 - tariff.discountRate) : full);
+}
+
+// ── DB access ────────────────────────────────────────────────────
+
+export async function getTollRates(): Promise<TollRateSpec[]> {
+  const rows = await prisma.tollRate.findMany({ orderBy: { tollClass: "asc" } });
+  return rows.map((r: TollRateSpec) => ({
+    id: r.id,
+    tollClass: r.tollClass,
+    baseFee: r.baseFee,
+    perKmRate: r.perKmRate,
+    description: r.description,
+  }));
+}
+
+export async function getTollDiscountRules(): Promise<TollDiscountRule[]> {
+  const rows = await prisma.tollDiscountRule.findMany({
+    orderBy: [{ startTime: "asc" }, { name: "asc" }],
+  });
+  return rows.map((r: TollDiscountRule) => ({
+    id: r.id,
+    name: r.name,
+    startTime: r.startTime,
+    endTime: r.endTime,
+    discountRate: r.discountRate,
+    tollClasses: r.tollClasses,
+    isActive: r.isActive,
+  }));
+}
+
+/**
+ * Tariff for a vehicle class at a pickup time, read from the DB.
+ */
+export async function findTollTariff(
+  tollClass: number | null,
+  averageRate: number,
+  pickupAt: string | undefined
+): Promise<TollTariff> {
+  if (tollClass === null) return resolveTollTariff([], [], null, averageRate, pickupAt);
+  const [rate, rules] = await Promise.all([
+    prisma.tollRate.findUnique({ where: { tollClass } }),
+    pickupAt ? getTollDiscountRules() : Promise.resolve([]),
+  ]);
+  return resolveTollTariff(rate ? [rate] : [], rules, tollClass, averageRate, pickupAt);
+}
@@ -0,0 +1,59 @@
+/**
+ * Vehicle Catalog
+ *
+ * Reads the VehicleType table that replaces the hard-coded per-tonnage
+ * constants. The engine uses it for fuel efficiency and fixed cost per trip;
+ * the UI and CSV parsers use the names as the list of valid vehicle types.
+ */
+
+import { prisma } from "@/lib/prisma";
+
+export interface VehicleSpec {
+  id: number;
+  name: string;              // e.g. "11t"
+  tonnage: number;
+  payloadKg: number;
+  fuelEfficiency: number;    // km/L
+  bodyType: string;          // e.g. "Wing", "Refrigerated"
+  tollClass: number;         // expressway toll class 1–5
+  fixedCostPerTrip: number;  // KRW
+}
+
+function toSpec(v: VehicleSpec): VehicleSpec {
+  return {
+    id: v.id,
+    name: v.name,
+    tonnage: v.tonnage,
+    payloadKg: v.payloadKg,
+    fuelEfficiency: v.fuelEfficiency,
+    bodyType: v.bodyType,
+    tollClass: v.tollClass,
+    fixedCostPerTrip: v.fixedCostPerTrip,
+  };
+}
+
+/**
+ * All catalog entries, lightest first.
+ */
+export async function getVehicleCatalog(): Promise<VehicleSpec[]> {
+  const rows = await prisma.vehicleType.findMany({
+    orderBy: [{ tonnage: "asc" }, { name: "asc" }],
+  });
+  return rows.map(toSpec);
+}
+
+/**
+ * Catalog names only, in display order — what dropdowns and parsers need.
+ */
+export async function getVehicleTypeNames(): Promise<string[]> {
+  const catalog = await getVehicleCatalog();
+  return catalog.map((v) => v.name);
+}
+
+/**
+ * Look up a single vehicle type by name. Returns null if it is not catalogued.
+ */
+export async function findVehicleType(name: string): Promise<VehicleSpec | null> {
+  const row = await prisma.vehicleType.findUnique({ where: { name } });
+  return row ? toSpec(row) : null;
+}
@@ -0,0 +1,347 @@
+/**
+ * XLSX Reader
+ *
+ * Minimal reader for Excel workbooks (.xlsx), enough to import broker
+ * spreadsheets without re-saving them as CSV. An .xlsx file is a zip archive
+ * of XML parts; this reads the sheet list, shared strings, number formats
+ * (to tell dates from numbers) and merged ranges.
+ *
+ * Cells come back typed:
+ *   number  → number
+ *   date    → Date (UTC midnight + time of day; Excel dates have no timezone)
+ *   text    → string
+ *   boolean → boolean
+ *   empty   → null
+ *
+ * A merged range takes the value of its top-left cell in every cell, so a
+ * header merged over two columns, or a date merged down several rows, is
+ * seen on each of them.
+ *
+ * Not supported: legacy .xls, encrypted workbooks, formulas without a cached
+ * value.
+ */
+
+import { inflateRawSync } from "node:zlib";
+
+export type XlsxCell = string | number | boolean | Date | null;
+
+export interface XlsxWorkbook {
+  sheetNames: string[];
+  /** Rows of the named sheet, top to bottom; throws if there is no such sheet. */
+  readSheet(name: string): XlsxCell[][];
+}
+
+// ── Zip ──────────────────────────────────────────────────────────
+
+const ZIP64_MARKER = 0xffffffff;
+
+/**
+ * Entries of a zip archive, inflated on demand. Zip64 archives (written for
+ * very large workbooks) keep the real sizes and offsets in extra records.
+ */
+function readZip(data: Uint8Array): Map<string, () => Buffer> {
+  const buf = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory: the last 0x06054b50 signature (a comment may follow)
+  let eocd = -1;
+  for (let i = buf.length - 22; i >= Math.max(0, buf.length - 22 - 0xffff); i--) {
+    if (buf.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not an .xlsx file (no zip directory found)");
+
+  let count = buf.readUInt16LE(eocd + 10);
+  let offset = buf.readUInt32LE(eocd + 16);
+
+  // Zip64 end of central directory, found through the locator just before the EOCD
+  if (eocd >= 20 && buf.readUInt32LE(eocd - 20) === 0x07064b50) {
+    const record = Number(buf.readBigUInt64LE(eocd - 20 + 8));
+    if (buf.readUInt32LE(record) !== 0x06064b50) throw new Error("Corrupt .xlsx file (bad zip64 directory)");
+    count = Number(buf.readBigUInt64LE(record + 32));
+    offset = Number(buf.readBigUInt64LE(record + 48));
+  }
+
+  const entries = new Map<string, () => Buffer>();
+
+  for (let n = 0; n < count; n++) {
+    if (buf.readUInt32LE(offset) !== 0x02014b50) throw new Error("Corrupt .xlsx file (bad zip directory)");
+    const method = buf.readUInt16LE(offset + 10);
+    let compressedSize = buf.readUInt32LE(offset + 20);
+    const uncompressedSize = buf.readUInt32LE(offset + 24);
+    const nameLength = buf.readUInt16LE(offset + 28);
+    const extraLength = buf.readUInt16LE(offset + 30);
+    const commentLength = buf.readUInt16LE(offset + 32);
+    let localOffset = buf.readUInt32LE(offset + 42);
+    const name = buf.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    // Zip64 extra field (0x0001): 8-byte values, only for the fields set to the marker
+    const extraStart = offset + 46 + nameLength;
+    for (let e = extraStart; e + 4 <= extraStart + extraLength; ) {
+      const id = buf.readUInt16LE(e);
+      const size = buf.readUInt16LE(e + 2);
+      if (id === 0x0001) {
+        let field = e + 4;
+        if (uncompressedSize === ZIP64_MARKER) field += 8;
+        if (compressedSize === ZIP64_MARKER) {
+          compressedSize = Number(buf.readBigUInt64LE(field));
+          field += 8;
+        }
+        if (localOffset === ZIP64_MARKER) localOffset = Number(buf.readBigUInt64LE(field));
+      }
+      e += 4 + size;
+    }
+
+    entries.set(name, () => {
+      const localNameLength = buf.readUInt16LE(localOffset + 26);
+      const localExtraLength = buf.readUInt16LE(localOffset + 28);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const raw = buf.subarray(start, start + compressedSize);
+      if (method === 0) return raw;
+      if (method === 8) return inflateRawSync(raw);
+      throw new Error(`Unsupported compression in ${name}`);
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+// ── XML helpers ──────────────────────────────────────────────────
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&(#x[0-9A-Fa-f]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+      switch (entity) {
+        case "amp": return "&";
+        case "lt": return "<";
+        case "gt": return ">";
+        case "quot": return '"';
+        case "apos": return "'";
+        default:
+          return String.fromCodePoint(
+            entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+          );
+      }
+    });
+}
+
+function attr(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? unescapeXml(match[1]) : null;
+}
+
+/**
+ * Text of every <t> in a fragment, skipping phonetic (<rPh>) runs.
+ */
+function textOf(fragment: string): string {
+  const visible = fragment.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let text = "";
+  for (const match of visible.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += unescapeXml(match[1]);
+  }
+  return text;
+}
+
+// ── Workbook parts ───────────────────────────────────────────────
+
+function readSharedStrings(xml: string | null): string[] {
+  if (!xml) return [];
+  // An empty string is written as <si/>; it still takes up an index
+  return Array.from(xml.matchAll(/<si\b[^>]*?(?:\/>|>([\s\S]*?)<\/si>)/g), (m) => textOf(m[1] ?? ""));
+}
+
+// Built-in number formats that display a date or time
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36,
+  45, 46, 47, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+]);
+
+function isDateFormatCode(code: string): boolean {
+  const bare = code
+    .replace(/"[^"]*"/g, "")   // literal text
+    .replace(/\\./g, "")       // escaped characters
+    .replace(/\[[^\]]*\]/g, ""); // colours, conditions, locales
+  return bare !== "General" && /[ymdhs]/i.test(bare);
+}
+
+/**
+ * For each cell style index, whether it formats numbers as dates.
+ */
+function readDateStyles(xml: string | null): boolean[] {
+  if (!xml) return [];
+  const customDates = new Set<number>();
+  for (const match of xml.matchAll(/<numFmt\s[^>]*>/g)) {
+    const id = Number(attr(match[0], "numFmtId"));
+    const code = attr(match[0], "formatCode") ?? "";
+    if (isDateFormatCode(code)) customDates.add(id);
+  }
+
+  const cellXfs = /<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/.exec(xml)?.[1] ?? "";
+  return Array.from(cellXfs.matchAll(/<xf\s[^>]*>/g), (m) => {
+    const id = Number(attr(m[0], "numFmtId") ?? 0);
+    return BUILTIN_DATE_FORMATS.has(id) || customDates.has(id);
+  });
+}
+
+const EXCEL_EPOCH_1900 = Date.UTC(1899, 11, 30); // serial 0, absorbing the 1900 leap-year bug
+const EXCEL_EPOCH_1904 = Date.UTC(1904, 0, 1);
+const MS_PER_DAY = 86400000;
+
+function serialToDate(serial: number, date1904: boolean): Date {
+  const epoch = date1904 ? EXCEL_EPOCH_1904 : EXCEL_EPOCH_1900;
+  // Round to the second; serials carry float noise in the time of day
+  return new Date(Math.round((epoch + serial * MS_PER_DAY) / 1000) * 1000);
+}
+
+/**
+ * "AB12" → [row 11, column 27], both 0-based.
+ */
+function cellRef(ref: string): [number, number] | null {
+  const match = /^([A-Z]+)(\d+)$/.exec(ref);
+  if (!match) return null;
+  let col = 0;
+  for (const ch of match[1]) col = col * 26 + (ch.charCodeAt(0) - 64);
+  return [Number(match[2]) - 1, col - 1];
+}
+
+interface SheetContext {
+  sharedStrings: string[];
+  dateStyles: boolean[];
+  date1904: boolean;
+}
+
+function readCell(tag: string, body: string, ctx: SheetContext): XlsxCell {
+  const type = attr(tag, "t") ?? "n";
+  if (type === "inlineStr") return textOf(body);
+
+  const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+  if (raw === undefined) return null;
+
+  switch (type) {
+    case "s":
+      return ctx.sharedStrings[Number(raw)] ?? null;
+    case "str":
+      return unescapeXml(raw);
+    case "b":
+      return raw === "1";
+    case "e":
+      return null; // #N/A, #DIV/0! …
+    case "d":
+      // ISO 8601 without an offset; read it as UTC like the serial dates
+      return new Date(/T[^Z+-]*$/.test(raw) ? `${raw}Z` : raw);
+    default: {
+      const value = Number(raw);
+      if (isNaN(value)) return null;
+      return ctx.dateStyles[Number(attr(tag, "s") ?? 0)] ? serialToDate(value, ctx.date1904) : value;
+    }
+  }
+}
+
+function readSheetXml(xml: string, ctx: SheetContext): XlsxCell[][] {
+  const rows: XlsxCell[][] = [];
+  let nextRow = 0;
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowIndex = attr(rowMatch[1], "r") ? Number(attr(rowMatch[1], "r")) - 1 : nextRow;
+    nextRow = rowIndex + 1;
+    const row: XlsxCell[] = [];
+    let nextCol = 0;
+
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = attr(cellMatch[1], "r");
+      const col = (ref ? cellRef(ref)?.[1] : undefined) ?? nextCol;
+      nextCol = col + 1;
+      row[col] = readCell(cellMatch[1], cellMatch[2] ?? "", ctx);
+    }
+    rows[rowIndex] = Array.from(row, (v) => v ?? null);
+  }
+
+  const table = Array.from(rows, (r) => r ?? []);
+
+  for (const merge of xml.matchAll(/<mergeCell\s[^>]*ref="([A-Z]+\d+):([A-Z]+\d+)"/g)) {
+    const from = cellRef(merge[1]);
+    const to = cellRef(merge[2]);
+    if (!from || !to) continue;
+    const value = table[from[0]]?.[from[1]] ?? null;
+    for (let r = from[0]; r <= to[0]; r++) {
+      table[r] ??= [];
+      for (let c = from[1]; c <= to[1]; c++) table[r][c] = value;
+    }
+  }
+
+  return table.map((r) => Array.from(r, (v) => v ?? null));
+}
+
+// ── Public API ───────────────────────────────────────────────────
+
+/**
+ * Open an .xlsx workbook. Sheets are parsed when read.
+ */
+export function readXlsx(data: Uint8Array): XlsxWorkbook {
+  const zip = readZip(data);
+  const part = (path: string): string | null => zip.get(path)?.().toString("utf8") ?? null;
+
+  const workbook = part("xl/workbook.xml");
+  if (!workbook) throw new Error("Not an .xlsx workbook (xl/workbook.xml missing)");
+
+  const rels = new Map<string, string>();
+  for (const match of (part("xl/_rels/workbook.xml.rels") ?? "").matchAll(/<Relationship\s[^>]*>/g)) {
+    const id = attr(match[0], "Id");
+    const target = attr(match[0], "Target");
+    if (id && target) {
+      rels.set(id, target.startsWith("/") ? target.slice(1) : `xl/${target.replace(/^\.\//, "")}`);
+    }
+  }
+
+  const sheets = new Map<string, string>();
+  for (const match of workbook.matchAll(/<sheet\s[^>]*>/g)) {
+    const name = attr(match[0], "name");
+    const target = rels.get(attr(match[0], "r:id") ?? "");
+    if (name && target) sheets.set(name, target);
+  }
+
+  const workbookPr = /<workbookPr\s[^>]*>/.exec(workbook)?.[0] ?? "";
+  const date1904 = ["1", "true"].includes(attr(workbookPr, "date1904") ?? "");
+
+  let ctx: SheetContext | null = null;
+  const context = (): SheetContext =>
+    (ctx ??= {
+      sharedStrings: readSharedStrings(part("xl/sharedStrings.xml")),
+      dateStyles: readDateStyles(part("xl/styles.xml")),
+      date1904,
+    });
+
+  return {
+    sheetNames: Array.from(sheets.keys()),
+    readSheet(name) {
+      const path = sheets.get(name);
+      const xml = path ? part(path) : null;
+      if (!xml) throw new Error(`Sheet "${name}" not found`);
+      return readSheetXml(xml, context());
+    },
+  };
+}
+
+/**
+ * Cell as import text: dates as "YYYY-MM-DD" (with "THH:MM" when there is a
+ * time of day), numbers without thousands separators.
+ */
+export function cellToText(cell: XlsxCell): string {
+  if (cell === null) return "";
+  if (cell instanceof Date) {
+    if (isNaN(cell.getTime())) return "";
+    const iso = cell.toISOString();
+    return iso.slice(11, 16) === "00:00" ? iso.slice(0, 10) : iso.slice(0, 16);
+  }
+  return String(cell).trim();
+}
+
+/**
+ * Sheet rows as text, to push into a csv-parser RowParser. Blank rows are
+ * kept so row numbers in import errors match the sheet.
+ */
+export function sheetToRows(rows: XlsxCell[][]): string[][] {
+  return rows.map((row) => row.map(cellToText));
+}